@@ -5,7 +5,14 @@ import fs from 'fs'
 import fsPromises from 'fs/promises'
 import crypto from 'crypto'
 import { configService } from './services/configService'
-import { fileService } from './services/fileService'
+import { fileService, FileConflictError } from './services/fileService'
+import { watcherService } from './services/watcherService'
+import { searchIndexService } from './services/searchIndexService'
+import { linkIndexService } from './services/linkIndexService'
+import { replaceService } from './services/replaceService'
+import { linkRewriteService } from './services/linkRewriteService'
+import { mentionService } from './services/mentionService'
+import { vaultHealthService } from './services/vaultHealthService'
 import { gitService } from './services/gitService'
 import { cryptoService } from './services/cryptoService'
 import { logService, log, logError, logWarn } from './services/logService'
@@ -266,7 +273,14 @@ ipcMain.handle('config:save', async (_, config) => {
 // File
 ipcMain.handle('file:getTree', async () => {
   try {
-    return { success: true, data: await fileService.getFileTree() }
+    const tree = await fileService.getFileTree()
+    // Start (or keep) watching the current notebook so external changes reach the sidebar
+    const config = await configService.getConfig()
+    await watcherService.watch(config.repoPath)
+    // Load / reconcile the search and link indexes in the background
+    searchIndexService.open(config.repoPath)
+    linkIndexService.open(config.repoPath)
+    return { success: true, data: tree }
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) }
   }
@@ -280,15 +294,28 @@ ipcMain.handle('file:read', async (_, filePath) => {
   }
 })
 
-ipcMain.handle('file:save', async (_, filePath, content) => {
+ipcMain.handle('file:readWithVersion', async (_, filePath) => {
   try {
-    await fileService.saveFile(filePath, content)
-    return { success: true }
+    return { success: true, data: await fileService.readFileWithVersion(filePath) }
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) }
   }
 })
 
+ipcMain.handle('file:save', async (_, filePath, content, expectedVersion) => {
+  try {
+    const version = await fileService.saveFile(filePath, content, expectedVersion)
+    await searchIndexService.updateFile(filePath)
+    return { success: true, data: version }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      code: error instanceof FileConflictError ? error.code : undefined
+    }
+  }
+})
+
 // Direct file write API for batch export (bypasses path validation)
 ipcMain.handle('file:saveDirect', async (_, filePath, content) => {
   try {
@@ -318,7 +345,9 @@ ipcMain.handle('file:readHelpDoc', async (_, fileName) => {
 
 ipcMain.handle('file:create', async (_, parentPath, name) => {
   try {
-    return { success: true, data: await fileService.createFile(parentPath, name) }
+    const node = await fileService.createFile(parentPath, name)
+    await searchIndexService.updateFile(node.path)
+    return { success: true, data: node }
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) }
   }
@@ -335,6 +364,7 @@ ipcMain.handle('file:createDir', async (_, parentPath, name) => {
 ipcMain.handle('file:delete', async (_, filePath) => {
   try {
     await fileService.deleteItem(filePath)
+    searchIndexService.removePath(filePath)
     return { success: true }
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) }
@@ -344,6 +374,7 @@ ipcMain.handle('file:delete', async (_, filePath) => {
 ipcMain.handle('file:rename', async (_, oldPath, newName) => {
   try {
     const result = await fileService.renameItem(oldPath, newName)
+    await searchIndexService.renamePath(oldPath, result.newPath)
     return { success: true, data: result.newPath }
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) }
@@ -353,6 +384,7 @@ ipcMain.handle('file:rename', async (_, oldPath, newName) => {
 ipcMain.handle('file:move', async (_, sourcePath, targetParentPath) => {
   try {
     const result = await fileService.moveItem(sourcePath, targetParentPath)
+    await searchIndexService.renamePath(sourcePath, result.newPath)
     return { success: true, data: result.newPath }
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) }
@@ -385,6 +417,118 @@ ipcMain.handle('file:searchContent', async (_, query) => {
   }
 })
 
+// Full-text search backed by the persistent index
+ipcMain.handle('search:query', async (_, query) => {
+  try {
+    return { success: true, data: await searchIndexService.search(query) }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+})
+
+// Vault-wide find / replace
+ipcMain.handle('replace:preview', async (_, options) => {
+  try {
+    return { success: true, data: await replaceService.preview(options) }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+})
+
+ipcMain.handle('replace:apply', async (_, options, items) => {
+  try {
+    return { success: true, data: await replaceService.apply(options, items) }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+})
+
+// Rename / move with link rewriting
+ipcMain.handle('link:planRewrite', async (_, oldPath, newPath) => {
+  try {
+    return { success: true, data: await linkRewriteService.plan(oldPath, newPath) }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+})
+
+ipcMain.handle('link:moveWithLinks', async (_, oldPath, newPath) => {
+  try {
+    return { success: true, data: await linkRewriteService.moveWithLinks(oldPath, newPath) }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+})
+
+// Unlinked mentions (plain-text note names) and turning them into wikilinks
+ipcMain.handle('mention:find', async (_, names, excludePath) => {
+  try {
+    return { success: true, data: await mentionService.find(names, excludePath) }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+})
+
+ipcMain.handle('mention:link', async (_, filePath, target, mention) => {
+  try {
+    await mentionService.link(filePath, target, mention)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+})
+
+// Vault health: broken links, missing files, orphan notes and unused attachments
+ipcMain.handle('health:check', async () => {
+  try {
+    return { success: true, data: await vaultHealthService.check() }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+})
+
+ipcMain.handle('health:fixLink', async (_, filePath, reference, target) => {
+  try {
+    await vaultHealthService.fixLink(filePath, reference, target)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+})
+
+// Persisted wikilink index: one snapshot at startup, batched updates afterwards
+ipcMain.handle('linkIndex:get', async () => {
+  try {
+    return { success: true, data: await linkIndexService.getSnapshot() }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+})
+
+// Forward file system changes to the renderer
+watcherService.subscribe((events) => {
+  searchIndexService.applyFileChanges(events)
+  const mainWindow = BrowserWindow.getAllWindows()[0]
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('file:changed', events)
+  }
+})
+
+// Lets the renderer re-run queries that depend on the index (smart folders)
+searchIndexService.subscribe(() => {
+  const mainWindow = BrowserWindow.getAllWindows()[0]
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('search:indexUpdated')
+  }
+})
+
+linkIndexService.subscribe((update) => {
+  const mainWindow = BrowserWindow.getAllWindows()[0]
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('linkIndex:updated', update)
+  }
+})
+
 // Process images for HTML export - copy files to assets folder and update paths
 // Returns: { html: processedHtml, images: Array<{original: string, copied: string}> }
 const processHtmlForImages = async (
@@ -421,7 +565,8 @@ const processHtmlForImages = async (
   for (let i = 0; i < matches.length; i++) {
     const match = matches[i];
     const fullPathMatch = match[0]; // The entire src="media://..." part
-    const mediaPath = match[1]; // The part after media://local or media:///
+    // The part after media://local or media:///, without size params such as ?w=300px (from ![[image.png|300]] embeds)
+    const mediaPath = match[1].split('?')[0];
 
     try {
       // Decode path
@@ -486,7 +631,7 @@ const processHtmlContentForPdf = async (htmlContent: string) => {
 
   for (const match of matches) {
     const fullPathMatch = match[0];
-    const mediaPath = match[1];
+    const mediaPath = match[1].split('?')[0];
 
     try {
       const decodedPath = decodeURIComponent(mediaPath);
@@ -724,6 +869,8 @@ ipcMain.handle('file:exportPdf', async (_, htmlContent, defaultPath) => {
         title: '知夏笔记'
       });
       await win.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(finalContent)}`);
+      // Math is typeset with inlined web fonts; print once they are loaded
+      await win.webContents.executeJavaScript('document.fonts.ready.then(() => true)');
 
       const pdfData = await win.webContents.printToPDF({
         printBackground: true,
@@ -865,6 +1012,8 @@ ipcMain.handle('file:exportPdfDirect', async (_, htmlContent, outputPath) => {
       title: '知夏笔记'
     });
     await win.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(finalContent)}`);
+    // Math is typeset with inlined web fonts; print once they are loaded
+    await win.webContents.executeJavaScript('document.fonts.ready.then(() => true)');
 
     const pdfData = await win.webContents.printToPDF({
       printBackground: true,
@@ -995,6 +1144,26 @@ ipcMain.handle('project:set', async (_, repoPath) => {
     await configService.saveConfig({ repoPath });
     await configService.addRecentProject(repoPath);
     await gitService.initRepo(); // Ensure initialized
+    await watcherService.watch(repoPath);
+    searchIndexService.open(repoPath);
+    linkIndexService.open(repoPath);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('project:getData', async (_, name: string) => {
+  try {
+    return { success: true, data: await configService.getProjectData(name, null) };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('project:saveData', async (_, name: string, data: unknown) => {
+  try {
+    await configService.saveProjectData(name, data);
     return { success: true };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) };
@@ -1361,6 +1530,12 @@ app.whenReady().then(async () => {
   })
 })
 
+app.on('will-quit', () => {
+  watcherService.stop()
+  searchIndexService.flush()
+  linkIndexService.flush()
+})
+
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') app.quit()
 })
\ No newline at end of file
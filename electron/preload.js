@@ -9,7 +9,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // File
   getFileTree: () => ipcRenderer.invoke('file:getTree'),
   readFile: (path) => ipcRenderer.invoke('file:read', path),
-  saveFile: (path, content) => ipcRenderer.invoke('file:save', path, content),
+  readFileWithVersion: (path) => ipcRenderer.invoke('file:readWithVersion', path),
+  saveFile: (path, content, expectedVersion) => ipcRenderer.invoke('file:save', path, content, expectedVersion),
   saveFileDirect: (path, content) => ipcRenderer.invoke('file:saveDirect', path, content),
   readHelpDoc: (fileName) => ipcRenderer.invoke('file:readHelpDoc', fileName),
   createFile: (parentPath, name) => ipcRenderer.invoke('file:create', parentPath, name),
@@ -24,6 +25,24 @@ contextBridge.exposeInMainWorld('electronAPI', {
   exportHtmlDirect: (content, outputPath) => ipcRenderer.invoke('file:exportHtmlDirect', content, outputPath),
   exportPdfDirect: (htmlContent, outputPath) => ipcRenderer.invoke('file:exportPdfDirect', htmlContent, outputPath),
   searchContent: (query) => ipcRenderer.invoke('file:searchContent', query),
+  searchQuery: (query) => ipcRenderer.invoke('search:query', query),
+  replacePreview: (options) => ipcRenderer.invoke('replace:preview', options),
+  replaceApply: (options, items) => ipcRenderer.invoke('replace:apply', options, items),
+  planLinkRewrite: (oldPath, newPath) => ipcRenderer.invoke('link:planRewrite', oldPath, newPath),
+  moveWithLinks: (oldPath, newPath) => ipcRenderer.invoke('link:moveWithLinks', oldPath, newPath),
+  findUnlinkedMentions: (names, excludePath) => ipcRenderer.invoke('mention:find', names, excludePath),
+  linkMention: (filePath, target, mention) => ipcRenderer.invoke('mention:link', filePath, target, mention),
+  getLinkIndex: () => ipcRenderer.invoke('linkIndex:get'),
+  checkVaultHealth: () => ipcRenderer.invoke('health:check'),
+  fixBrokenLink: (filePath, reference, target) => ipcRenderer.invoke('health:fixLink', filePath, reference, target),
+
+  // Listen for file system changes pushed by the watcher
+  onFileChanged: (callback) => ipcRenderer.on('file:changed', callback),
+  removeFileChangedListener: (callback) => ipcRenderer.removeListener('file:changed', callback),
+  onSearchIndexUpdated: (callback) => ipcRenderer.on('search:indexUpdated', callback),
+  removeSearchIndexUpdatedListener: (callback) => ipcRenderer.removeListener('search:indexUpdated', callback),
+  onLinkIndexUpdated: (callback) => ipcRenderer.on('linkIndex:updated', callback),
+  removeLinkIndexUpdatedListener: (callback) => ipcRenderer.removeListener('linkIndex:updated', callback),
 
   // Git
   getGitStatus: () => ipcRenderer.invoke('git:status'),
@@ -45,6 +64,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
   openDirectory: () => ipcRenderer.invoke('dialog:openDirectory'),
   openFile: (options) => ipcRenderer.invoke('dialog:openFile', options),
   setProject: (repoPath) => ipcRenderer.invoke('project:set', repoPath),
+  getProjectData: (name) => ipcRenderer.invoke('project:getData', name),
+  saveProjectData: (name, data) => ipcRenderer.invoke('project:saveData', name, data),
 
 
   // Crypto
@@ -1,17 +1,21 @@
 import { app } from 'electron';
 import path from 'path';
 import fs from 'fs-extra';
+import crypto from 'crypto';
 import { AppConfig } from '../../src/types';
 
 const CONFIG_DIR_NAME = '.zhixia-note';
 const CONFIG_FILE_NAME = 'config.json';
 const SECRET_FILE_NAME = '.secret';
 const GITIGNORE_FILE_NAME = '.gitignore';
+const INDEX_DIR_NAME = '.index'; // Per-project caches (search index, ...), never synced
+const PROJECT_DATA_DIR_NAME = '.zhixia'; // Per-project settings, kept inside the notebook so they sync with it
 
 const DEFAULT_CONFIG: AppConfig = {
   themeMode: 'system',
   themeColor: 'default',
   markdownTheme: 'default',
+  editorKeymap: 'default',
   repoPath: '', // Will be initialized dynamically
   recentProjects: [],
   encryption: {
@@ -19,6 +23,16 @@ const DEFAULT_CONFIG: AppConfig = {
   }
 };
 
+// Project data names come from the renderer: plain file names only, so nothing outside .zhixia is touched
+const PROJECT_DATA_NAME_REGEX = /^[\w-]+$/;
+
+function checkProjectDataName(name: string): string {
+  if (!PROJECT_DATA_NAME_REGEX.test(name)) {
+    throw new Error(`Invalid project data name: ${name}`);
+  }
+  return name;
+}
+
 export class ConfigService {
   private rootDir: string;
   private configPath: string;
@@ -49,7 +63,7 @@ export class ConfigService {
       // 2. Ensure .gitignore exists and ignores sensitive files
       // This is crucial for Security Rule #2
       const gitignorePath = path.join(this.rootDir, GITIGNORE_FILE_NAME);
-      const gitignoreContent = `${CONFIG_FILE_NAME}\n${SECRET_FILE_NAME}\n`;
+      const gitignoreContent = `${CONFIG_FILE_NAME}\n${SECRET_FILE_NAME}\n${INDEX_DIR_NAME}/\n`;
       
       if (!await fs.pathExists(gitignorePath)) {
           await fs.writeFile(gitignorePath, gitignoreContent);
@@ -58,6 +72,9 @@ export class ConfigService {
           if (!currentContent.includes(CONFIG_FILE_NAME) || !currentContent.includes(SECRET_FILE_NAME)) {
               await fs.appendFile(gitignorePath, `\n${CONFIG_FILE_NAME}\n${SECRET_FILE_NAME}\n`);
           }
+          if (!currentContent.includes(INDEX_DIR_NAME)) {
+              await fs.appendFile(gitignorePath, `\n${INDEX_DIR_NAME}/\n`);
+          }
       }
 
       // 3. Ensure config.json exists
@@ -132,6 +149,38 @@ export class ConfigService {
   getRootDir(): string {
     return this.rootDir;
   }
+
+  /**
+   * Read a JSON document stored with the current notebook (e.g. saved searches)
+   */
+  async getProjectData<T>(name: string, fallback: T): Promise<T> {
+    const { repoPath } = await this.getConfig();
+    if (!repoPath) return fallback;
+
+    const dataPath = path.join(repoPath, PROJECT_DATA_DIR_NAME, `${checkProjectDataName(name)}.json`);
+    if (!await fs.pathExists(dataPath)) return fallback;
+    return fs.readJson(dataPath);
+  }
+
+  async saveProjectData(name: string, data: unknown): Promise<void> {
+    checkProjectDataName(name);
+    const { repoPath } = await this.getConfig();
+    if (!repoPath) {
+      throw new Error('Project path not configured');
+    }
+
+    const dataDir = path.join(repoPath, PROJECT_DATA_DIR_NAME);
+    await fs.ensureDir(dataDir);
+    await fs.writeJson(path.join(dataDir, `${name}.json`), data, { spaces: 2 });
+  }
+
+  /**
+   * Directory for caches that belong to one notebook (keyed by its path)
+   */
+  getProjectIndexDir(repoPath: string): string {
+    const key = crypto.createHash('md5').update(path.resolve(repoPath)).digest('hex');
+    return path.join(this.rootDir, INDEX_DIR_NAME, key);
+  }
 }
 
 export const configService = new ConfigService();
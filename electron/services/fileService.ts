@@ -2,12 +2,25 @@ import fs from 'fs-extra';
 import path from 'path';
 import crypto from 'crypto';
 import { configService } from './configService';
-import { FileNode } from '../../src/types';
+import { FileNode, FileVersion, VersionedFileContent, FILE_CONFLICT_ERROR_CODE } from '../../src/types';
 
-const IGNORED_NAMES = ['.git', '.gitignore', 'config.json', '.secret', '.DS_Store'];
+export const IGNORED_NAMES = ['.git', '.gitignore', 'config.json', '.secret', '.DS_Store', '.index', '.zhixia'];
 const ATTACHMENT_DIR = 'files';
 const MAX_DEPTH = 3; // 目录层级限制 (0: Root, 1: Dir, 2: Dir, 3: File)
 
+/**
+ * Thrown when a save carries an expected version that no longer matches the file on disk,
+ * i.e. something else (git pull, another editor) changed it since it was read.
+ */
+export class FileConflictError extends Error {
+  readonly code = FILE_CONFLICT_ERROR_CODE;
+
+  constructor(filePath: string) {
+    super(`File was modified on disk since it was opened: ${path.basename(filePath)}`);
+    this.name = 'FileConflictError';
+  }
+}
+
 export class FileService {
 
   private async getRootPath(): Promise<string> {
@@ -37,6 +50,26 @@ export class FileService {
     return this.readDirRecursive(rootPath, 0);
   }
 
+  /**
+   * Build a single tree node (with its subtree for directories) for an existing path.
+   * Used by the file watcher to push incremental additions to the renderer.
+   */
+  async buildNode(itemPath: string): Promise<FileNode> {
+    const rootPath = await this.getRootPath();
+    const level = path.relative(rootPath, itemPath).split(path.sep).length - 1;
+    const stat = await fs.stat(itemPath);
+    const isDirectory = stat.isDirectory();
+
+    return {
+      id: this.generateStableId(itemPath),
+      name: path.basename(itemPath),
+      path: itemPath,
+      type: isDirectory ? 'directory' : 'file',
+      level,
+      children: isDirectory ? await this.readDirRecursive(itemPath, level + 1) : undefined
+    };
+  }
+
   private async readDirRecursive(dirPath: string, level: number): Promise<FileNode[]> {
     const items = await fs.readdir(dirPath, { withFileTypes: true });
     const nodes: FileNode[] = [];
@@ -76,9 +109,44 @@ export class FileService {
     return fs.readFile(filePath, 'utf-8');
   }
 
-  async saveFile(filePath: string, content: string): Promise<void> {
+  /**
+   * Read a file together with its version, so a later save can detect external modifications
+   */
+  async readFileWithVersion(filePath: string): Promise<VersionedFileContent> {
+    await this.validatePath(filePath);
+    const [content, stat] = await Promise.all([
+      fs.readFile(filePath, 'utf-8'),
+      fs.stat(filePath)
+    ]);
+    return { content, version: { mtimeMs: stat.mtimeMs, hash: this.hashContent(content) } };
+  }
+
+  /**
+   * Write a file. When expectedVersion is given the write is rejected with a
+   * FileConflictError if the file on disk no longer matches it.
+   * @returns Version of the file after writing
+   */
+  async saveFile(filePath: string, content: string, expectedVersion?: FileVersion): Promise<FileVersion> {
     await this.validatePath(filePath);
+
+    if (expectedVersion && await fs.pathExists(filePath)) {
+      const stat = await fs.stat(filePath);
+      // mtime is only a fast path; a touched but identical file is not a conflict
+      if (stat.mtimeMs !== expectedVersion.mtimeMs) {
+        const diskContent = await fs.readFile(filePath, 'utf-8');
+        if (this.hashContent(diskContent) !== expectedVersion.hash) {
+          throw new FileConflictError(filePath);
+        }
+      }
+    }
+
     await fs.writeFile(filePath, content, 'utf-8');
+    const stat = await fs.stat(filePath);
+    return { mtimeMs: stat.mtimeMs, hash: this.hashContent(content) };
+  }
+
+  private hashContent(content: string): string {
+    return crypto.createHash('md5').update(content).digest('hex');
   }
 
   async createFile(parentPath: string, name: string): Promise<FileNode> {
@@ -288,6 +356,32 @@ export class FileService {
     }
   }
 
+  /**
+   * All markdown files below a directory (the notebook root by default)
+   */
+  async listMarkdownFiles(dirPath?: string): Promise<string[]> {
+    const rootDir = dirPath || await this.getRootPath();
+    if (!rootDir) return [];
+    await this.validatePath(rootDir);
+
+    const files: string[] = [];
+    const walk = async (currentDir: string): Promise<void> => {
+      const items = await fs.readdir(currentDir, { withFileTypes: true });
+      for (const item of items) {
+        if (IGNORED_NAMES.includes(item.name)) continue;
+        const itemPath = path.join(currentDir, item.name);
+        if (item.isDirectory()) {
+          await walk(itemPath);
+        } else if (item.name.endsWith('.md')) {
+          files.push(itemPath);
+        }
+      }
+    };
+    await walk(rootDir);
+
+    return files;
+  }
+
   /**
    * Search content in markdown files
    * @param query Search query string
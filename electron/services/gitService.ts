@@ -236,6 +236,35 @@ export class GitService {
     return await git.diff([relativePath]);
   }
 
+  async isRepo(): Promise<boolean> {
+    const git = await this.getGit();
+    return git.checkIsRepo();
+  }
+
+  /**
+   * Commit only the given files, leaving any other changes in the working tree alone
+   * @param removedPaths Files / folders deleted or moved away whose removal belongs to the commit
+   * @returns Hash of the new commit
+   */
+  async commitFiles(filePaths: string[], message: string, removedPaths: string[] = []): Promise<string> {
+    const git = await this.getGit();
+    const rootPath = await this.getRootPath();
+    const relativePaths = filePaths.map(filePath => path.relative(rootPath, filePath));
+    await git.add(relativePaths);
+
+    for (const removedPath of removedPaths) {
+      const relativePath = path.relative(rootPath, removedPath);
+      // Never-committed paths have nothing to remove and would fail the pathspec
+      const tracked = await git.raw(['ls-files', '--', relativePath]);
+      if (!tracked.trim()) continue;
+      await git.raw(['rm', '-r', '--cached', '--quiet', '--', relativePath]);
+      relativePaths.push(relativePath);
+    }
+
+    const result = await git.commit(message, relativePaths);
+    return result.commit;
+  }
+
   async resolveConflict(filePath: string): Promise<void> {
     const git = await this.getGit();
     await git.add(filePath);
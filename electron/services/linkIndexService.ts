@@ -0,0 +1,246 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { configService } from './configService';
+import { searchIndexService, DocumentChange } from './searchIndexService';
+import { log, logError } from './logService';
+import { LinkIndexNote, LinkIndexSnapshot, LinkIndexUpdate, WikilinkRef } from '../../src/types';
+import { extractHeadings, extractWikilinks } from '../../src/utils/wikilink';
+import { getAliases } from '../../src/utils/frontmatter';
+
+const INDEX_FILE_NAME = 'link-index.json';
+const INDEX_FORMAT_VERSION = 4;
+const SAVE_DELAY_MS = 2000;
+const NOTIFY_DELAY_MS = 100;
+
+interface IndexedNote extends LinkIndexNote {
+  mtimeMs: number;
+}
+
+interface PersistedLinkIndex {
+  version: number;
+  rootPath: string;
+  notes: Record<string, IndexedNote>;
+}
+
+/**
+ * Persistent outgoing-link, alias and heading index of the current notebook, keyed by note path.
+ *
+ * It is derived from the search index: opening a notebook loads the stored
+ * links and re-parses only notes whose mtime changed, after which every
+ * document the search index (re)indexes or drops is applied here too. The
+ * renderer fetches one snapshot and then receives batched updates.
+ */
+export class LinkIndexService {
+  private rootPath: string = '';
+  private ready: Promise<void> = Promise.resolve();
+  private isLoading: boolean = false;
+
+  private notes: Map<string, IndexedNote> = new Map();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private notifyTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending: LinkIndexUpdate = { changed: {}, removed: [] };
+  private listeners: Set<(update: LinkIndexUpdate) => void> = new Set();
+
+  constructor() {
+    searchIndexService.onDocumentChange(change => this.handleDocumentChange(change));
+  }
+
+  /**
+   * Get notified (batched) of notes whose links, aliases or headings changed or that were removed
+   */
+  subscribe(listener: (update: LinkIndexUpdate) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Load the index for a notebook and bring it up to date. Calling it again with the same root is a no-op.
+   */
+  open(rootPath: string): Promise<void> {
+    if (!rootPath || rootPath === this.rootPath) return this.ready;
+
+    this.flush();
+    this.rootPath = rootPath;
+    this.isLoading = true;
+    this.pending = { changed: {}, removed: [] };
+    this.ready = this.load(rootPath)
+      .then(() => this.reconcile(rootPath))
+      .catch(error => logError(`Failed to open link index: ${error}`))
+      .finally(() => {
+        if (this.rootPath === rootPath) this.isLoading = false;
+      });
+    return this.ready;
+  }
+
+  /**
+   * Outgoing links, aliases and headings of every note in the current notebook
+   */
+  async getSnapshot(): Promise<LinkIndexSnapshot> {
+    const config = await configService.getConfig();
+    await this.open(config.repoPath);
+
+    const notes: Record<string, LinkIndexNote> = {};
+    this.notes.forEach(({ links, aliases, headings }, notePath) => {
+      notes[notePath] = { links, aliases, headings };
+    });
+    return { notes };
+  }
+
+  // Write pending changes to disk right away (synchronously, so it also works while quitting)
+  flush() {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+
+    try {
+      const indexPath = this.getIndexPath(this.rootPath);
+      fs.ensureDirSync(path.dirname(indexPath));
+      fs.writeJsonSync(`${indexPath}.tmp`, this.serialize());
+      fs.moveSync(`${indexPath}.tmp`, indexPath, { overwrite: true });
+    } catch (error) {
+      logError(`Failed to save link index: ${error}`);
+    }
+  }
+
+  // --- Index maintenance ---
+
+  private handleDocumentChange(change: DocumentChange) {
+    // The notebook's documents are picked up in one go by reconcile()
+    if (this.isLoading || !this.rootPath) return;
+
+    if (change.content === null) {
+      if (!this.notes.delete(change.path)) return;
+      delete this.pending.changed[change.path];
+      this.pending.removed.push(change.path);
+    } else {
+      const note = this.parse(change.content, change.mtimeMs);
+      const existing = this.notes.get(change.path);
+      this.notes.set(change.path, note);
+      if (existing && this.sameLinks(existing.links, note.links)
+        && existing.aliases.join('\n') === note.aliases.join('\n')
+        && existing.headings.join('\n') === note.headings.join('\n')) {
+        this.scheduleSave();
+        return;
+      }
+      this.pending.removed = this.pending.removed.filter(removed => removed !== change.path);
+      this.pending.changed[change.path] = { links: note.links, aliases: note.aliases, headings: note.headings };
+    }
+
+    this.scheduleSave();
+    this.scheduleNotify();
+  }
+
+  private async reconcile(rootPath: string) {
+    const documents = await searchIndexService.getDocuments();
+    if (this.rootPath !== rootPath) return; // Another notebook was opened meanwhile
+
+    const seen = new Set<string>();
+    let changed = 0;
+    for (const doc of documents) {
+      seen.add(doc.path);
+      const existing = this.notes.get(doc.path);
+      if (existing && existing.mtimeMs === doc.mtimeMs) continue;
+      const content = await searchIndexService.readContent(doc.path);
+      if (this.rootPath !== rootPath) return;
+      if (content === null) continue;
+      this.notes.set(doc.path, this.parse(content, doc.mtimeMs));
+      changed++;
+    }
+    for (const notePath of Array.from(this.notes.keys())) {
+      if (!seen.has(notePath)) {
+        this.notes.delete(notePath);
+        changed++;
+      }
+    }
+
+    if (changed > 0) this.scheduleSave();
+    log(`Link index ready: ${this.notes.size} notes, ${changed} updated`);
+  }
+
+  private parse(content: string, mtimeMs: number): IndexedNote {
+    return {
+      mtimeMs,
+      links: extractWikilinks(content),
+      aliases: getAliases(content),
+      headings: extractHeadings(content).map(heading => heading.text)
+    };
+  }
+
+  // Positions shift with every edit above a link, so only what the links point at is compared
+  private sameLinks(a: WikilinkRef[], b: WikilinkRef[]): boolean {
+    if (a.length !== b.length) return false;
+    return a.every((link, index) => {
+      const other = b[index];
+      return link.target === other.target && link.heading === other.heading
+        && link.blockId === other.blockId && link.alias === other.alias;
+    });
+  }
+
+  private scheduleNotify() {
+    if (this.notifyTimer) return;
+    this.notifyTimer = setTimeout(() => {
+      this.notifyTimer = null;
+      const update = this.pending;
+      this.pending = { changed: {}, removed: [] };
+      this.listeners.forEach(listener => {
+        try {
+          listener(update);
+        } catch (error) {
+          logError(`Link index listener failed: ${error}`);
+        }
+      });
+    }, NOTIFY_DELAY_MS);
+  }
+
+  // --- Persistence ---
+
+  private getIndexPath(rootPath: string): string {
+    return path.join(configService.getProjectIndexDir(rootPath), INDEX_FILE_NAME);
+  }
+
+  private async load(rootPath: string) {
+    this.notes = new Map();
+
+    const indexPath = this.getIndexPath(rootPath);
+    if (!await fs.pathExists(indexPath)) return;
+
+    try {
+      const data: PersistedLinkIndex = await fs.readJson(indexPath);
+      if (data.version !== INDEX_FORMAT_VERSION || data.rootPath !== rootPath) return;
+      this.notes = new Map(Object.entries(data.notes));
+    } catch (error) {
+      // A corrupt index is simply rebuilt by reconcile()
+      logError(`Failed to load link index, rebuilding: ${error}`);
+      this.notes = new Map();
+    }
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch(error => logError(`Failed to save link index: ${error}`));
+    }, SAVE_DELAY_MS);
+  }
+
+  private serialize(): PersistedLinkIndex {
+    return {
+      version: INDEX_FORMAT_VERSION,
+      rootPath: this.rootPath,
+      notes: Object.fromEntries(this.notes)
+    };
+  }
+
+  private async save() {
+    if (!this.rootPath) return;
+
+    // Write to a temp file first so a crash never leaves a half-written index behind
+    const indexPath = this.getIndexPath(this.rootPath);
+    const tempPath = `${indexPath}.tmp`;
+    await fs.ensureDir(path.dirname(indexPath));
+    await fs.writeJson(tempPath, this.serialize());
+    await fs.move(tempPath, indexPath, { overwrite: true });
+  }
+}
+
+export const linkIndexService = new LinkIndexService();
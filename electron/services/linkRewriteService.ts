@@ -0,0 +1,292 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { fileService } from './fileService';
+import { gitService } from './gitService';
+import { searchIndexService } from './searchIndexService';
+import { configService } from './configService';
+import { linkIndexService } from './linkIndexService';
+import { log, logError } from './logService';
+import { FileVersion, LinkRewriteFile, LinkRewriteResult } from '../../src/types';
+import { createNoteResolver, type NoteResolver } from '../../src/utils/wikilink';
+
+// [[Target#Heading|Alias]] / ![[Target]]; the target stops at "#" or "|"
+const WIKILINK_REGEX = /(\\?)\[\[([^\]|#]+)(#[^\]|]*)?(\|[^\]]*)?\]\]/g;
+// ![alt](files/a.png "title") and [text](../note.md); <...> allows spaces in the url
+const MARKDOWN_LINK_REGEX = /(!?\[[^\]]*\]\()(<[^>]+>|[^)\s]+)([^)]*\))/g;
+const HTML_SRC_REGEX = /(<(?:img|video|audio|source)\b[^>]*?\bsrc=["'])([^"']+)(["'])/gi;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+const INLINE_CODE_REGEX = /`[^`]*`/g;
+// Stands in for an inline code span while the text around it is rewritten
+const CODE_PLACEHOLDER_REGEX = /\uE000(\d+)\uE000/g;
+
+interface FileEdit {
+  path: string;          // Where the note is before the move
+  newPath: string;       // Where it ends up (differs for notes inside a moved folder)
+  before: string;
+  after: string;
+  version: FileVersion;
+  wikilinks: number;
+  paths: number;
+}
+
+/**
+ * Keeps links working when notes or folders are renamed / moved.
+ *
+ * Wikilinks are resolved the way the link index does, and change when the note
+ * they point to is renamed, or moved while they spell out its folders; relative
+ * markdown / image paths change whenever the linking or the linked file moves.
+ * The move and all rewrites are applied together, rolled back together on
+ * failure and committed as one git commit.
+ */
+export class LinkRewriteService {
+  /**
+   * Notes whose links would change if oldPath became newPath
+   */
+  async plan(oldPath: string, newPath: string): Promise<LinkRewriteFile[]> {
+    const edits = await this.computeEdits(oldPath, newPath);
+    return edits.map(edit => ({
+      path: edit.path,
+      name: path.basename(edit.path),
+      wikilinks: edit.wikilinks,
+      paths: edit.paths
+    }));
+  }
+
+  /**
+   * Rename / move a note or folder and rewrite every link to and from it
+   */
+  async moveWithLinks(oldPath: string, newPath: string): Promise<LinkRewriteResult> {
+    const edits = await this.computeEdits(oldPath, newPath);
+    await this.move(oldPath, newPath);
+
+    const written: FileEdit[] = [];
+    try {
+      for (const edit of edits) {
+        // Renaming keeps mtime and content, so the version read before still guards against concurrent edits
+        await fileService.saveFile(edit.newPath, edit.after, edit.version);
+        written.push(edit);
+      }
+    } catch (error) {
+      await this.rollback(oldPath, newPath, written);
+      throw error;
+    }
+
+    await searchIndexService.renamePath(oldPath, newPath);
+    for (const edit of edits) {
+      await searchIndexService.updateFile(edit.newPath);
+    }
+
+    const result: LinkRewriteResult = { newPath, rewritten: edits.map(edit => edit.newPath), commit: null };
+    if (await gitService.isRepo()) {
+      try {
+        const message = await this.buildCommitMessage(oldPath, newPath, edits.length);
+        result.commit = await gitService.commitFiles([newPath, ...result.rewritten], message, [oldPath]);
+      } catch (error) {
+        result.commitError = error instanceof Error ? error.message : String(error);
+        logError(`Failed to commit link rewrite: ${result.commitError}`);
+      }
+    }
+
+    log(`Moved ${oldPath} -> ${newPath}, rewrote links in ${edits.length} notes`);
+    return result;
+  }
+
+  private async buildCommitMessage(oldPath: string, newPath: string, rewrittenCount: number): Promise<string> {
+    const { repoPath } = await configService.getConfig();
+    const summary = path.dirname(oldPath) === path.dirname(newPath)
+      ? `重命名: ${path.basename(oldPath)} → ${path.basename(newPath)}`
+      : `移动: ${path.relative(repoPath, oldPath)} → ${path.relative(repoPath, newPath)}`;
+    return rewrittenCount > 0 ? `${summary} (更新 ${rewrittenCount} 个笔记的链接)` : summary;
+  }
+
+  private async move(oldPath: string, newPath: string) {
+    if (path.dirname(oldPath) === path.dirname(newPath)) {
+      await fileService.renameItem(oldPath, path.basename(newPath));
+    } else {
+      await fileService.moveItem(oldPath, path.dirname(newPath));
+    }
+  }
+
+  private async rollback(oldPath: string, newPath: string, written: FileEdit[]) {
+    try {
+      for (const edit of written) {
+        await fs.writeFile(edit.newPath, edit.before, 'utf-8');
+      }
+      await fs.move(newPath, oldPath);
+    } catch (error) {
+      logError(`Failed to roll back move of ${oldPath}: ${error}`);
+    }
+  }
+
+  private async computeEdits(oldPath: string, newPath: string): Promise<FileEdit[]> {
+    const { repoPath } = await configService.getConfig();
+    const notePaths = await fileService.listMarkdownFiles();
+    const { notes } = await linkIndexService.getSnapshot();
+
+    // Links are resolved against the notes as they are now, and re-targeted against them after the move
+    const movedNotes = new Map(notePaths
+      .filter(notePath => this.isWithin(notePath, oldPath))
+      .map(notePath => [notePath, this.mapPath(notePath, oldPath, newPath)]));
+    const resolver = createNoteResolver(notePaths, notePath => notes[notePath]?.aliases, repoPath);
+    // A file name always beats an alias, so the new targets do not depend on aliases
+    const movedResolver = createNoteResolver(notePaths.map(notePath => movedNotes.get(notePath) ?? notePath), undefined, repoPath);
+
+    // Relative paths into the moved item always contain its own name
+    const movedName = path.basename(oldPath);
+    const needles = [movedName, encodeURI(movedName)];
+
+    const edits: FileEdit[] = [];
+    for (const filePath of notePaths) {
+      const isMoved = this.isWithin(filePath, oldPath);
+      const { content, version } = await fileService.readFileWithVersion(filePath);
+      const hasWikilinks = movedNotes.size > 0 && content.includes('[[');
+      if (!isMoved && !hasWikilinks && !needles.some(needle => content.includes(needle))) continue;
+
+      const fileNewPath = isMoved ? this.mapPath(filePath, oldPath, newPath) : filePath;
+      let after = content;
+      let wikilinks = 0;
+      let paths = 0;
+
+      if (hasWikilinks) {
+        after = this.mapOutsideCode(after, text => text.replace(
+          WIKILINK_REGEX,
+          (match, escape: string, target: string, heading = '', alias = '') => {
+            const written = target.trim();
+            const resolved = escape ? null : resolver.lookup(written, filePath).path;
+            const notePath = resolved && movedNotes.get(resolved);
+            if (!notePath) return match;
+            const newTarget = this.retargetWikilink(written, resolved, notePath, movedResolver, repoPath);
+            if (newTarget.toLowerCase() === written.replace(/\\/g, '/').toLowerCase()) return match;
+            wikilinks++;
+            return `[[${newTarget}${heading}${alias}]]`;
+          }
+        ));
+      }
+
+      const fromDir = path.dirname(filePath);
+      const toDir = path.dirname(fileNewPath);
+      const rewriteUrl = (url: string): string => {
+        const rewritten = this.rewriteRelativeUrl(url, fromDir, toDir, oldPath, newPath);
+        if (rewritten !== url) paths++;
+        return rewritten;
+      };
+      after = this.mapOutsideCode(after, text => text
+        .replace(MARKDOWN_LINK_REGEX, (_match, open: string, url: string, close: string) => {
+          if (url.startsWith('<') && url.endsWith('>')) {
+            return `${open}<${rewriteUrl(url.slice(1, -1))}>${close}`;
+          }
+          // A new name with spaces needs the <...> form to stay a single destination
+          const rewritten = rewriteUrl(url);
+          return /\s/.test(rewritten) ? `${open}<${rewritten}>${close}` : `${open}${rewritten}${close}`;
+        })
+        .replace(HTML_SRC_REGEX, (_match, open: string, url: string, close: string) => `${open}${rewriteUrl(url)}${close}`)
+      );
+
+      if (after !== content) {
+        edits.push({ path: filePath, newPath: fileNewPath, before: content, after, version, wikilinks, paths });
+      }
+    }
+
+    return edits;
+  }
+
+  /**
+   * Target of a wikilink to a note that moves from oldNotePath to newNotePath, written the way it was:
+   * [[Name]] keeps naming the note (an alias stays as it is), [[folder/Name]] spells out as many folders as
+   * before, or the whole path from the notebook root when that would mean another note as well
+   */
+  private retargetWikilink(written: string, oldNotePath: string, newNotePath: string, resolver: NoteResolver, repoPath: string): string {
+    const extension = /\.md$/i.test(written) ? written.slice(-3) : '';
+    const segments = written.replace(/\\/g, '/').slice(0, written.length - extension.length).split('/');
+    if (segments.length === 1) {
+      const isName = segments[0].toLowerCase() === path.basename(oldNotePath, '.md').toLowerCase();
+      return isName ? `${path.basename(newNotePath, '.md')}${extension}` : written;
+    }
+
+    const newSegments = path.relative(repoPath, newNotePath).replace(/\.md$/i, '').split(path.sep);
+    const sameDepth = newSegments.slice(-segments.length).join('/');
+    const { candidates } = resolver.lookup(sameDepth);
+    const target = candidates.length === 1 && candidates[0] === newNotePath ? sameDepth : newSegments.join('/');
+    return `${target}${extension}`;
+  }
+
+  /**
+   * Re-target a relative url written in a note that lives in fromDir (and will live in toDir)
+   * after oldPath moves to newPath. Returns the url unchanged when it still resolves correctly.
+   */
+  private rewriteRelativeUrl(url: string, fromDir: string, toDir: string, oldPath: string, newPath: string): string {
+    // Absolute paths, anchors and urls with a scheme (http:, data:, mailto:, ...) do not depend on location
+    if (/^([a-z][a-z0-9+.-]*:|#|\/)/i.test(url)) return url;
+
+    const suffixIndex = url.search(/[?#]/);
+    const rawPath = suffixIndex === -1 ? url : url.slice(0, suffixIndex);
+    const suffix = suffixIndex === -1 ? '' : url.slice(suffixIndex);
+
+    let decodedPath = rawPath;
+    try {
+      decodedPath = decodeURI(rawPath);
+    } catch {
+      // Not valid percent-encoding: treat the url as written
+    }
+
+    const target = path.resolve(fromDir, decodedPath);
+    const newTarget = this.isWithin(target, oldPath) ? this.mapPath(target, oldPath, newPath) : target;
+    if (newTarget === target && fromDir === toDir) return url;
+
+    let relative = path.relative(toDir, newTarget).split(path.sep).join('/');
+    if (path.posix.normalize(relative) === path.posix.normalize(decodedPath)) return url;
+    if (decodedPath.startsWith('./') && !relative.startsWith('.')) relative = `./${relative}`;
+
+    return `${decodedPath !== rawPath ? encodeURI(relative) : relative}${suffix}`;
+  }
+
+  // Apply a rewrite to the text outside fenced code blocks and inline code spans
+  private mapOutsideCode(content: string, rewriteProse: (text: string) => string): string {
+    // Code spans are masked, not cut out, so a link like [`code`](a.md) is still rewritten
+    const rewrite = (text: string) => {
+      const spans: string[] = [];
+      const masked = text.replace(INLINE_CODE_REGEX, span => `\uE000${spans.push(span) - 1}\uE000`);
+      return rewriteProse(masked).replace(CODE_PLACEHOLDER_REGEX, (_match, index: string) => spans[Number(index)]);
+    };
+    const lines = content.split('\n');
+    const chunks: string[] = [];
+    let buffer: string[] = [];
+    let inCode = false;
+
+    const flush = () => {
+      if (buffer.length === 0) return;
+      const text = buffer.join('\n');
+      chunks.push(inCode ? text : rewrite(text));
+      buffer = [];
+    };
+
+    for (const line of lines) {
+      if (FENCE_REGEX.test(line)) {
+        if (inCode) {
+          buffer.push(line);
+          flush();
+          inCode = false;
+        } else {
+          flush();
+          buffer.push(line);
+          inCode = true;
+        }
+      } else {
+        buffer.push(line);
+      }
+    }
+    flush();
+
+    return chunks.join('\n');
+  }
+
+  private mapPath(target: string, oldPath: string, newPath: string): string {
+    return target === oldPath ? newPath : path.join(newPath, path.relative(oldPath, target));
+  }
+
+  private isWithin(target: string, base: string): boolean {
+    return target === base || target.startsWith(base + path.sep);
+  }
+}
+
+export const linkRewriteService = new LinkRewriteService();
@@ -0,0 +1,120 @@
+import { fileService } from './fileService';
+import { searchIndexService } from './searchIndexService';
+import { log } from './logService';
+import { SearchSnippet, UnlinkedMention, UnlinkedMentionFile } from '../../src/types';
+
+const FENCE_REGEX = /^\s*(```|~~~)/;
+const FRONTMATTER_REGEX = /^---\n[\s\S]*?\n---/;
+// Inline code, wikilinks / embeds, markdown links / images, html tags and bare urls: text there is not a mention
+const EXCLUDED_SPAN_REGEX = /`[^`]*`|!?\[\[[^\]]*\]\]|!?\[[^\]]*\]\([^)]*\)|<[^>]+>|https?:\/\/\S+/g;
+const WORD_CHAR_REGEX = /[\p{L}\p{N}_]/u;
+const CJK_CHAR_REGEX = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const MIN_NAME_LENGTH = 2;
+const SNIPPET_RADIUS = 40;
+
+/**
+ * Unlinked mentions: notes that name another note (by title or alias) as plain text.
+ *
+ * Candidates come from the search index, so only notes containing the words of
+ * a name are scanned. Linking rewrites the single mention in place and is
+ * rejected if the note changed since the mentions were listed.
+ */
+export class MentionService {
+  /**
+   * @param names Title and aliases of the mentioned note
+   * @param excludePath The mentioned note itself
+   */
+  async find(names: string[], excludePath: string): Promise<UnlinkedMentionFile[]> {
+    const needles = [...new Set(names.map(name => name.trim()))].filter(name => name.length >= MIN_NAME_LENGTH);
+    if (needles.length === 0) return [];
+
+    const pattern = this.buildPattern(needles);
+    const files: UnlinkedMentionFile[] = [];
+    for (const doc of await searchIndexService.documentsContaining(needles)) {
+      if (doc.path === excludePath) continue;
+      const mentions = this.scan(doc.content, pattern);
+      if (mentions.length > 0) {
+        files.push({ path: doc.path, name: doc.name, mentions });
+      }
+    }
+
+    return files.sort((a, b) => b.mentions.length - a.mentions.length || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Turn one mention into [[target]] (or [[target|text]] when it is written differently)
+   */
+  async link(filePath: string, target: string, mention: Pick<UnlinkedMention, 'offset' | 'text'>): Promise<void> {
+    const { content, version } = await fileService.readFileWithVersion(filePath);
+    const end = mention.offset + mention.text.length;
+    if (content.slice(mention.offset, end) !== mention.text) {
+      throw new Error('笔记已被修改, 请刷新后重试');
+    }
+
+    const wikilink = mention.text === target ? `[[${target}]]` : `[[${target}|${mention.text}]]`;
+    await fileService.saveFile(filePath, content.slice(0, mention.offset) + wikilink + content.slice(end), version);
+    await searchIndexService.updateFile(filePath);
+    log(`Linked mention of ${target} in ${filePath}`);
+  }
+
+  // Longest names first so "Machine Learning" wins over "Machine"; words must stand on their own
+  private buildPattern(names: string[]): RegExp {
+    const alternatives = [...names]
+      .sort((a, b) => b.length - a.length)
+      .map(name => {
+        const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const before = this.needsBoundary(name.charAt(0)) ? '(?<![\\p{L}\\p{N}_])' : '';
+        const after = this.needsBoundary(name.charAt(name.length - 1)) ? '(?![\\p{L}\\p{N}_])' : '';
+        return `${before}${escaped}${after}`;
+      });
+    return new RegExp(alternatives.join('|'), 'giu');
+  }
+
+  // CJK is written without spaces, so a name there can start or end anywhere
+  private needsBoundary(char: string): boolean {
+    return WORD_CHAR_REGEX.test(char) && !CJK_CHAR_REGEX.test(char);
+  }
+
+  private scan(content: string, pattern: RegExp): UnlinkedMention[] {
+    const mentions: UnlinkedMention[] = [];
+    const bodyStart = content.match(FRONTMATTER_REGEX)?.[0].length ?? 0;
+    let lineStart = 0;
+    let inCode = false;
+
+    content.split('\n').forEach((line, index) => {
+      const offset = lineStart;
+      lineStart += line.length + 1;
+      if (offset < bodyStart) return;
+      if (FENCE_REGEX.test(line)) {
+        inCode = !inCode;
+        return;
+      }
+      if (inCode) return;
+
+      const excluded = Array.from(line.matchAll(EXCLUDED_SPAN_REGEX), match => [match.index!, match.index! + match[0].length]);
+      for (const match of line.matchAll(pattern)) {
+        const start = match.index!;
+        const end = start + match[0].length;
+        if (excluded.some(([spanStart, spanEnd]) => start < spanEnd && end > spanStart)) continue;
+        mentions.push({ offset: offset + start, text: match[0], snippet: this.buildSnippet(line, index + 1, start, end) });
+      }
+    });
+
+    return mentions;
+  }
+
+  private buildSnippet(line: string, lineNumber: number, start: number, end: number): SearchSnippet {
+    const indent = line.length - line.trimStart().length;
+    const from = Math.max(indent, start - SNIPPET_RADIUS);
+    const to = Math.min(line.length, end + SNIPPET_RADIUS);
+    const prefix = from > indent ? '…' : '';
+    const shift = prefix.length - from;
+    return {
+      line: lineNumber,
+      text: prefix + line.slice(from, to) + (to < line.length ? '…' : ''),
+      highlights: [{ start: start + shift, end: end + shift }]
+    };
+  }
+}
+
+export const mentionService = new MentionService();
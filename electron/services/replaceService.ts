@@ -0,0 +1,126 @@
+import path from 'path';
+import { fileService, FileConflictError } from './fileService';
+import { gitService } from './gitService';
+import { searchIndexService } from './searchIndexService';
+import { log, logError } from './logService';
+import { ReplaceApplyItem, ReplaceChange, ReplaceFilePreview, ReplaceOptions, ReplaceResult } from '../../src/types';
+import { parseTags } from '../../src/utils/frontmatter';
+import { buildMergeHunks } from '../../src/utils/diff';
+
+/**
+ * Find / replace across all notes of the notebook.
+ *
+ * preview() only reads; apply() rewrites the files the user picked through
+ * FileService.saveFile (rejecting files edited since the preview) and records
+ * the whole replacement as one git commit so it can be reverted.
+ */
+export class ReplaceService {
+  async preview(options: ReplaceOptions): Promise<ReplaceFilePreview[]> {
+    const pattern = this.buildPattern(options);
+    const previews: ReplaceFilePreview[] = [];
+
+    for (const filePath of await fileService.listMarkdownFiles(options.folder || undefined)) {
+      const { content, version } = await fileService.readFileWithVersion(filePath);
+      if (options.tag && !this.hasTag(content, options.tag)) continue;
+
+      const matchCount = content.match(pattern)?.length ?? 0;
+      if (matchCount === 0) continue;
+
+      const replaced = this.replaceAll(content, pattern, options);
+      if (replaced === content) continue;
+
+      previews.push({
+        path: filePath,
+        name: path.basename(filePath),
+        matchCount,
+        version,
+        changes: this.buildChanges(content, replaced)
+      });
+    }
+
+    return previews;
+  }
+
+  async apply(options: ReplaceOptions, items: ReplaceApplyItem[]): Promise<ReplaceResult> {
+    const pattern = this.buildPattern(options);
+    const result: ReplaceResult = { replaced: [], failed: [], commit: null };
+
+    for (const item of items) {
+      try {
+        const content = await fileService.readFile(item.path);
+        await fileService.saveFile(item.path, this.replaceAll(content, pattern, options), item.version);
+        await searchIndexService.updateFile(item.path);
+        result.replaced.push(item.path);
+      } catch (error) {
+        result.failed.push({
+          path: item.path,
+          error: error instanceof FileConflictError
+            ? '预览后文件又被修改过, 请重新预览'
+            : error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    if (result.replaced.length > 0 && await gitService.isRepo()) {
+      // The files are already written; a failed commit only loses the easy revert
+      try {
+        const message = `全局替换: "${options.find}" → "${options.replace}" (${result.replaced.length} 个文件)`;
+        result.commit = await gitService.commitFiles(result.replaced, message);
+      } catch (error) {
+        result.commitError = error instanceof Error ? error.message : String(error);
+        logError(`Failed to commit replacement: ${result.commitError}`);
+      }
+    }
+
+    log(`Replace applied: ${result.replaced.length} replaced, ${result.failed.length} failed`);
+    return result;
+  }
+
+  private buildPattern(options: ReplaceOptions): RegExp {
+    if (!options.find) {
+      throw new Error('请输入要查找的内容');
+    }
+
+    const source = options.isRegex ? options.find : options.find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const flags = `gm${options.caseSensitive ? '' : 'i'}`;
+    try {
+      return new RegExp(source, flags);
+    } catch (error) {
+      throw new Error(`无效的正则表达式: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Plain-text mode inserts the replacement literally, so "$1" or "$&" are not expanded
+  private replaceAll(content: string, pattern: RegExp, options: ReplaceOptions): string {
+    return options.isRegex
+      ? content.replace(pattern, options.replace)
+      : content.replace(pattern, () => options.replace);
+  }
+
+  // Nested tags: scoping to "work" includes notes tagged "work/meeting"
+  private hasTag(content: string, tag: string): boolean {
+    const lowerTag = tag.toLowerCase();
+    return parseTags(content).some(noteTag => {
+      const lowerNoteTag = noteTag.toLowerCase();
+      return lowerNoteTag === lowerTag || lowerNoteTag.startsWith(`${lowerTag}/`);
+    });
+  }
+
+  private buildChanges(original: string, replaced: string): ReplaceChange[] {
+    const changes: ReplaceChange[] = [];
+    let line = 1;
+
+    for (const hunk of buildMergeHunks(original, replaced)) {
+      if (hunk.type === 'same') {
+        line += hunk.lines.length;
+      } else {
+        changes.push({ line, before: hunk.mine, after: hunk.theirs });
+        line += hunk.mine.length;
+      }
+    }
+
+    return changes;
+  }
+}
+
+export const replaceService = new ReplaceService();
@@ -0,0 +1,936 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { configService } from './configService';
+import { IGNORED_NAMES } from './fileService';
+import { log, logError } from './logService';
+import { FileChangeEvent, SearchHighlight, SearchHit, SearchSnippet } from '../../src/types';
+import { parseSearchQuery, compareQueryDate, SearchQueryNode } from '../../src/utils/searchQuery';
+import { parseFrontmatter, parseTags } from '../../src/utils/frontmatter';
+
+const INDEX_FILE_NAME = 'search-index.json';
+const INDEX_FORMAT_VERSION = 2;
+const SAVE_DELAY_MS = 2000;
+const SNIPPET_RADIUS = 60;
+const NAME_WEIGHT = 5; // A hit in the note name counts like this many hits in the body
+const READ_CONCURRENCY = 16; // Files read at once when note text is not in memory yet
+
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Han, Kana and Hangul are written without spaces, so they are indexed as
+// single characters plus overlapping bigrams instead of words
+const CJK_CHARS = '\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uac00-\\ud7af\\uf900-\\ufaff';
+const TOKEN_REGEX = new RegExp(`[${CJK_CHARS}]+|(?:(?![${CJK_CHARS}])[\\p{L}\\p{N}_])+`, 'gu');
+const CJK_REGEX = new RegExp(`^[${CJK_CHARS}]`);
+const WORD_CHAR_REGEX = /[\p{L}\p{N}_]/u;
+
+// Content is not persisted: it is kept in memory once indexed or read for a query
+interface IndexedDocument {
+  path: string;
+  name: string;
+  mtimeMs: number;
+  length: number; // Number of indexed terms, for BM25 length normalisation
+  meta: DocumentMeta;
+}
+
+interface PersistedIndex {
+  version: number;
+  rootPath: string;
+  nextId: number;
+  documents: Record<string, IndexedDocument>;
+  postings: Record<string, Record<string, number>>;
+}
+
+// A run of query text as the user typed it, plus the index terms it maps to
+interface QueryPart {
+  text: string;
+  isCjk: boolean;
+  terms: string[];
+}
+
+// Metadata used by field operators, derived from the content when a note is indexed
+interface DocumentMeta {
+  relativePath: string; // Always "/" separated
+  notebook: string;
+  created: string;      // YYYY-MM-DD HH:mm:ss, empty when unknown
+  updated: string;
+  tags: string[];
+}
+
+// A document added / re-indexed (content set) or removed (content null)
+export interface DocumentChange {
+  path: string;
+  content: string | null;
+  mtimeMs: number;
+}
+
+// Per-document state while evaluating one query
+interface MatchContext {
+  id: number;
+  doc: IndexedDocument;
+  lowerName: string;
+  content: string;      // Empty when the query can be answered from the index alone
+  lowerContent: string;
+}
+
+// Text that should light up in snippets
+interface Needle {
+  text: string;
+  wordStart: boolean; // Latin words must start at a word boundary ("cat" should not light up "concat")
+}
+
+/**
+ * Split text into index terms.
+ * Latin-like words are lower-cased as a whole; CJK runs yield every character and every bigram.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const match of text.toLowerCase().matchAll(TOKEN_REGEX)) {
+    const run = match[0];
+    if (!CJK_REGEX.test(run)) {
+      terms.push(run);
+      continue;
+    }
+    const chars = Array.from(run);
+    for (let i = 0; i < chars.length; i++) {
+      terms.push(chars[i]);
+      if (i + 1 < chars.length) terms.push(chars[i] + chars[i + 1]);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Persistent inverted index over the markdown files of the current notebook.
+ *
+ * The index lives in the per-project index directory, is reconciled against
+ * file mtimes when a notebook is opened and afterwards kept up to date from
+ * save / rename / delete handlers and the file watcher.
+ */
+export class SearchIndexService {
+  private rootPath: string = '';
+  private ready: Promise<void> = Promise.resolve();
+
+  private documents: Map<number, IndexedDocument> = new Map();
+  private pathToId: Map<string, number> = new Map();
+  private postings: Map<string, Map<number, number>> = new Map();
+  private documentTerms: Map<number, string[]> = new Map(); // Postings to drop when a document goes
+  private vocabulary: string[] | null = null;               // Sorted terms for prefix lookups, rebuilt when terms change
+  private texts: Map<number, string> = new Map();           // Note text for phrases, regexes and snippets; not persisted
+  private nextId: number = 1;
+  private totalLength: number = 0;
+
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Set<() => void> = new Set();
+  private documentListeners: Set<(change: DocumentChange) => void> = new Set();
+
+  /**
+   * Get notified after the index changed (notebook opened or watcher changes applied)
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Get notified of every single document change as it is applied (indexes derived from note content)
+   */
+  onDocumentChange(listener: (change: DocumentChange) => void): () => void {
+    this.documentListeners.add(listener);
+    return () => this.documentListeners.delete(listener);
+  }
+
+  /**
+   * Every indexed document once the current notebook's index is ready (see readContent for the text)
+   */
+  async getDocuments(): Promise<Array<{ path: string; mtimeMs: number }>> {
+    await this.ready;
+    return Array.from(this.documents.values(), doc => ({ path: doc.path, mtimeMs: doc.mtimeMs }));
+  }
+
+  /**
+   * Text of a note as it was indexed (read from disk for notes outside the index), or null when it cannot be read
+   */
+  async readContent(filePath: string): Promise<string | null> {
+    const id = this.pathToId.get(filePath);
+    if (id !== undefined) {
+      await this.loadTexts([id]);
+      return this.texts.get(id) ?? null;
+    }
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Load (or build) the index for a notebook. Calling it again with the same root is a no-op.
+   */
+  open(rootPath: string): Promise<void> {
+    if (!rootPath || rootPath === this.rootPath) return this.ready;
+
+    this.flush();
+    this.rootPath = rootPath;
+    this.ready = this.load(rootPath)
+      .then(() => this.reconcile(rootPath))
+      .then(() => this.notify())
+      .catch(error => logError(`Failed to open search index: ${error}`));
+    return this.ready;
+  }
+
+  /**
+   * Run a structured query (see src/utils/searchQuery.ts); throws SearchQueryError on bad syntax
+   */
+  async search(query: string): Promise<SearchHit[]> {
+    const config = await configService.getConfig();
+    await this.open(config.repoPath);
+
+    const root = parseSearchQuery(query);
+    if (!root) return [];
+
+    const expansions = new Map<string, string[]>();
+    const { parts, needles, regexes } = this.collectPositive(root);
+    const candidates = this.candidatesFor(root, expansions) ?? new Set(this.documents.keys());
+    const matchesContent = this.needsContent(root);
+    // Text comes from memory; notes not read since the index was loaded are read once, a few at a time
+    if (matchesContent) await this.loadTexts(candidates);
+
+    const matched: number[] = [];
+    for (const id of candidates) {
+      const doc = this.documents.get(id);
+      const content = matchesContent ? this.texts.get(id) : '';
+      if (!doc || content === undefined) continue;
+      const context: MatchContext = {
+        id,
+        doc,
+        lowerName: doc.name.toLowerCase(),
+        content,
+        lowerContent: content.toLowerCase()
+      };
+      if (this.matches(root, context, expansions)) matched.push(id);
+    }
+
+    const hasSnippets = needles.length > 0 || regexes.length > 0;
+    if (hasSnippets && !matchesContent) await this.loadTexts(matched);
+
+    const hits: SearchHit[] = [];
+    for (const id of matched) {
+      // Re-indexed or removed while texts were read
+      const doc = this.documents.get(id);
+      if (!doc) continue;
+      const content = hasSnippets ? this.texts.get(id) ?? '' : '';
+
+      let score = 0;
+      parts.forEach(part => {
+        this.expandTerms(part, expansions).forEach(term => {
+          const tf = this.postings.get(term)?.get(id);
+          if (tf) score += this.scoreTerm(term, tf, doc.length);
+        });
+      });
+      const lowerName = doc.name.toLowerCase();
+      if (needles.some(needle => lowerName.includes(needle.text))) score *= 2;
+
+      hits.push({
+        path: doc.path,
+        name: doc.name,
+        score,
+        snippets: this.buildSnippets(content, needles, regexes)
+      });
+    }
+
+    // Pure filter queries (tag:, updated:, ...) have nothing to rank by, so show recent notes first
+    if (parts.length === 0 && regexes.length === 0) {
+      const updatedOf = (hit: SearchHit) => this.documents.get(this.pathToId.get(hit.path)!)!.meta.updated;
+      return hits.sort((a, b) => updatedOf(b).localeCompare(updatedOf(a)) || a.name.localeCompare(b.name));
+    }
+    return hits.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Indexed notes that contain every term of at least one of the phrases.
+   * A cheap pre-filter for callers that scan the text themselves (unlinked mentions).
+   */
+  async documentsContaining(phrases: string[]): Promise<Array<{ path: string; name: string; content: string }>> {
+    const config = await configService.getConfig();
+    await this.open(config.repoPath);
+
+    const ids = new Set<number>();
+    for (const phrase of phrases) {
+      let docs: Set<number> | null = null;
+      for (const part of this.toQueryParts(phrase)) {
+        // Whole words only: a mention of "note" should not pull in every note mentioning "notebook"
+        const terms = part.isCjk ? this.expandTerms(part, new Map()) : [part.text];
+        for (const term of terms) {
+          const found = new Set(this.postings.get(term)?.keys());
+          docs = docs ? this.intersect(docs, found) : found;
+        }
+      }
+      docs?.forEach(id => ids.add(id));
+    }
+
+    await this.loadTexts(ids);
+    return Array.from(ids).flatMap(id => {
+      const doc = this.documents.get(id);
+      const content = this.texts.get(id);
+      return doc && content !== undefined ? [{ path: doc.path, name: doc.name, content }] : [];
+    });
+  }
+
+  /**
+   * Re-index a single file if it changed since it was indexed
+   */
+  async updateFile(filePath: string): Promise<void> {
+    await this.ready;
+    if (!this.isIndexable(filePath)) return;
+
+    try {
+      const stat = await fs.stat(filePath);
+      const existingId = this.pathToId.get(filePath);
+      if (existingId !== undefined && this.documents.get(existingId)!.mtimeMs === stat.mtimeMs) return;
+
+      const content = await fs.readFile(filePath, 'utf-8');
+      this.indexDocument(filePath, content, stat.mtimeMs);
+      this.scheduleSave();
+    } catch {
+      // The file disappeared before we could read it
+      this.removePath(filePath);
+    }
+  }
+
+  // Drop a file, or every file inside a folder
+  removePath(targetPath: string) {
+    let changed = false;
+    for (const [docPath, id] of Array.from(this.pathToId)) {
+      if (this.isWithin(docPath, targetPath)) {
+        this.removeDocument(id);
+        changed = true;
+      }
+    }
+    if (changed) this.scheduleSave();
+  }
+
+  // Follow a renamed / moved file or folder; notes whose text is not in memory are read again at their new path
+  async renamePath(oldPath: string, newPath: string) {
+    let changed = false;
+    for (const [docPath, id] of Array.from(this.pathToId)) {
+      if (!this.isWithin(docPath, oldPath)) continue;
+      const doc = this.documents.get(id)!;
+      const text = this.texts.get(id);
+      const movedPath = newPath + docPath.slice(oldPath.length);
+      this.removeDocument(id);
+      const content = this.isIndexable(movedPath) ? text ?? await this.readContent(movedPath) : null;
+      if (content !== null) {
+        this.indexDocument(movedPath, content, doc.mtimeMs);
+      }
+      changed = true;
+    }
+    if (changed) this.scheduleSave();
+  }
+
+  // Apply a batch of watcher events
+  async applyFileChanges(events: FileChangeEvent[]): Promise<void> {
+    await this.ready;
+    for (const event of events) {
+      if (!this.rootPath || !this.isWithin(event.path, this.rootPath)) continue;
+      switch (event.type) {
+        case 'remove':
+          this.removePath(event.path);
+          break;
+        case 'rename':
+          if (event.oldPath) await this.renamePath(event.oldPath, event.path);
+          break;
+        case 'add':
+          if (event.node?.type === 'directory') {
+            for (const filePath of await this.collectMarkdownFiles(event.path)) {
+              await this.updateFile(filePath);
+            }
+          } else {
+            await this.updateFile(event.path);
+          }
+          break;
+        case 'change':
+          await this.updateFile(event.path);
+          break;
+      }
+    }
+    this.notify();
+  }
+
+  // Write pending changes to disk right away (synchronously, so it also works while quitting)
+  flush() {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+
+    try {
+      const indexPath = this.getIndexPath(this.rootPath);
+      fs.ensureDirSync(path.dirname(indexPath));
+      fs.writeJsonSync(`${indexPath}.tmp`, this.serialize());
+      fs.moveSync(`${indexPath}.tmp`, indexPath, { overwrite: true });
+    } catch (error) {
+      logError(`Failed to save search index: ${error}`);
+    }
+  }
+
+  // --- Index maintenance ---
+
+  private indexDocument(filePath: string, content: string, mtimeMs: number) {
+    const existingId = this.pathToId.get(filePath);
+    if (existingId !== undefined) this.removeDocument(existingId, false);
+
+    const name = path.basename(filePath);
+    const frequencies = this.termFrequencies(name, content);
+    let length = 0;
+    frequencies.forEach(tf => { length += tf; });
+
+    const id = this.nextId++;
+    this.documents.set(id, { path: filePath, name, mtimeMs, length, meta: this.buildMeta(filePath, content, mtimeMs) });
+    this.pathToId.set(filePath, id);
+    this.documentTerms.set(id, Array.from(frequencies.keys()));
+    this.texts.set(id, content);
+    this.totalLength += length;
+
+    frequencies.forEach((tf, term) => {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+        this.vocabulary = null;
+      }
+      posting.set(id, tf);
+    });
+    this.emitDocumentChange({ path: filePath, content, mtimeMs });
+  }
+
+  // notify is false when the document is about to be re-indexed under the same path
+  private removeDocument(id: number, notify = true) {
+    const doc = this.documents.get(id);
+    if (!doc) return;
+
+    this.documentTerms.get(id)?.forEach(term => {
+      const posting = this.postings.get(term);
+      if (!posting) return;
+      posting.delete(id);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+        this.vocabulary = null;
+      }
+    });
+
+    this.totalLength -= doc.length;
+    this.documents.delete(id);
+    this.documentTerms.delete(id);
+    this.texts.delete(id);
+    this.pathToId.delete(doc.path);
+    if (notify) this.emitDocumentChange({ path: doc.path, content: null, mtimeMs: doc.mtimeMs });
+  }
+
+  private termFrequencies(name: string, content: string): Map<string, number> {
+    const frequencies = new Map<string, number>();
+    tokenize(name.replace(/\.md$/i, '')).forEach(term => {
+      frequencies.set(term, (frequencies.get(term) || 0) + NAME_WEIGHT);
+    });
+    tokenize(content).forEach(term => {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    });
+    return frequencies;
+  }
+
+  // Bring a freshly loaded index in line with what is on disk
+  private async reconcile(rootPath: string) {
+    const files = await this.collectMarkdownFiles(rootPath);
+    const seen = new Set(files);
+    let changed = 0;
+
+    for (const [docPath, id] of Array.from(this.pathToId)) {
+      if (!seen.has(docPath)) {
+        this.removeDocument(id);
+        changed++;
+      }
+    }
+
+    for (const filePath of files) {
+      if (this.rootPath !== rootPath) return; // Another notebook was opened meanwhile
+      try {
+        const stat = await fs.stat(filePath);
+        const id = this.pathToId.get(filePath);
+        if (id !== undefined && this.documents.get(id)!.mtimeMs === stat.mtimeMs) continue;
+        this.indexDocument(filePath, await fs.readFile(filePath, 'utf-8'), stat.mtimeMs);
+        changed++;
+      } catch (error) {
+        logError(`Failed to index ${filePath}: ${error}`);
+      }
+    }
+
+    log(`Search index ready: ${this.documents.size} notes, ${changed} updated`);
+    if (changed > 0) this.scheduleSave();
+  }
+
+  private async collectMarkdownFiles(dirPath: string): Promise<string[]> {
+    const files: string[] = [];
+    const walk = async (current: string) => {
+      const items = await fs.readdir(current, { withFileTypes: true }).catch(() => []);
+      for (const item of items) {
+        if (IGNORED_NAMES.includes(item.name)) continue;
+        const itemPath = path.join(current, item.name);
+        if (item.isDirectory()) {
+          await walk(itemPath);
+        } else if (item.name.endsWith('.md')) {
+          files.push(itemPath);
+        }
+      }
+    };
+    await walk(dirPath);
+    return files;
+  }
+
+  // --- Querying ---
+
+  private toQueryParts(text: string): QueryPart[] {
+    const parts: QueryPart[] = [];
+    for (const match of text.toLowerCase().matchAll(TOKEN_REGEX)) {
+      const run = match[0];
+      parts.push({ text: run, isCjk: CJK_REGEX.test(run), terms: tokenize(run) });
+    }
+    return parts;
+  }
+
+  // Terms to look up for one query part; words also match as prefixes so results show up while typing
+  private expandTerms(part: QueryPart, expansions: Map<string, string[]>): string[] {
+    if (part.isCjk) {
+      // Bigrams are enough to find candidates, single characters only for one-character queries
+      return part.terms.length === 1 ? part.terms : part.terms.filter(term => Array.from(term).length === 2);
+    }
+
+    const cached = expansions.get(part.text);
+    if (cached) return cached;
+
+    // Terms starting with the word sit next to each other in the sorted vocabulary, from where the word would be
+    const vocabulary = this.getVocabulary();
+    const expanded = [part.text];
+    for (let i = this.lowerBound(vocabulary, part.text); i < vocabulary.length && vocabulary[i].startsWith(part.text); i++) {
+      if (vocabulary[i] !== part.text) expanded.push(vocabulary[i]);
+    }
+    expansions.set(part.text, expanded);
+    return expanded;
+  }
+
+  private getVocabulary(): string[] {
+    if (!this.vocabulary) {
+      this.vocabulary = Array.from(this.postings.keys()).sort();
+    }
+    return this.vocabulary;
+  }
+
+  // Index of the first term not below the given one
+  private lowerBound(terms: string[], term: string): number {
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (terms[middle] < term) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  }
+
+  // Whether a query needs the text of the notes, not just the index: phrases, regexes and CJK runs
+  private needsContent(node: SearchQueryNode): boolean {
+    switch (node.type) {
+      case 'and':
+      case 'or':
+        return node.children.some(child => this.needsContent(child));
+      case 'not':
+        return this.needsContent(node.child);
+      case 'term':
+        return this.toQueryParts(node.value).some(part => part.isCjk);
+      case 'phrase':
+      case 'regex':
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  // Read the text of documents not in memory yet, READ_CONCURRENCY files at a time
+  private async loadTexts(ids: Iterable<number>): Promise<void> {
+    const missing = Array.from(ids).filter(id => !this.texts.has(id));
+    let next = 0;
+    const readNext = async () => {
+      while (next < missing.length) {
+        const id = missing[next++];
+        const doc = this.documents.get(id);
+        if (!doc) continue;
+        try {
+          const content = await fs.readFile(doc.path, 'utf-8');
+          // Unless the note was re-indexed or removed meanwhile
+          if (this.documents.get(id) === doc) this.texts.set(id, content);
+        } catch {
+          // Gone since it was indexed: left out until the watcher catches up
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(READ_CONCURRENCY, missing.length) }, readNext));
+  }
+
+  private docsWithAny(terms: string[]): Set<number> {
+    const docs = new Set<number>();
+    terms.forEach(term => this.postings.get(term)?.forEach((_tf, id) => docs.add(id)));
+    return docs;
+  }
+
+  // Narrow the documents to look at using the index; null means "no restriction"
+  private candidatesFor(node: SearchQueryNode, expansions: Map<string, string[]>): Set<number> | null {
+    switch (node.type) {
+      case 'term':
+      case 'phrase': {
+        let result: Set<number> | null = null;
+        for (const part of this.toQueryParts(node.value)) {
+          // Phrase words are taken literally, plain terms may be unfinished words
+          const terms = node.type === 'term' || part.isCjk ? this.expandTerms(part, expansions) : [part.text];
+          const docs = this.docsWithAny(terms);
+          result = result ? this.intersect(result, docs) : docs;
+        }
+        return result;
+      }
+      case 'and': {
+        let result: Set<number> | null = null;
+        for (const child of node.children) {
+          const docs = this.candidatesFor(child, expansions);
+          if (docs) result = result ? this.intersect(result, docs) : docs;
+        }
+        return result;
+      }
+      case 'or': {
+        const result = new Set<number>();
+        for (const child of node.children) {
+          const docs = this.candidatesFor(child, expansions);
+          if (!docs) return null;
+          docs.forEach(id => result.add(id));
+        }
+        return result;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private matches(node: SearchQueryNode, context: MatchContext, expansions: Map<string, string[]>): boolean {
+    switch (node.type) {
+      case 'and':
+        return node.children.every(child => this.matches(child, context, expansions));
+      case 'or':
+        return node.children.some(child => this.matches(child, context, expansions));
+      case 'not':
+        return !this.matches(node.child, context, expansions);
+      case 'term':
+        return this.toQueryParts(node.value).every(part => {
+          // Bigrams can match apart from each other, so CJK runs must appear verbatim
+          if (part.isCjk) {
+            return context.lowerContent.includes(part.text) || context.lowerName.includes(part.text);
+          }
+          return this.expandTerms(part, expansions).some(term => this.postings.get(term)?.has(context.id));
+        });
+      case 'phrase': {
+        const phrase = node.value.toLowerCase();
+        return context.lowerContent.includes(phrase) || context.lowerName.includes(phrase);
+      }
+      case 'regex': {
+        const regex = this.compileRegex(node.pattern, node.flags, false);
+        return regex.test(context.content) || regex.test(context.doc.name);
+      }
+      case 'field': {
+        const { meta } = context.doc;
+        const value = node.value.toLowerCase();
+        switch (node.field) {
+          case 'tag':
+            // Nested tags: tag:work also matches work/meeting
+            return meta.tags.some(tag => {
+              const lowerTag = tag.toLowerCase();
+              return lowerTag === value || lowerTag.startsWith(`${value}/`);
+            });
+          case 'path':
+            return meta.relativePath.toLowerCase().includes(value.replace(/\\/g, '/'));
+          case 'name':
+            return context.lowerName.includes(value);
+          case 'notebook':
+            return meta.notebook.toLowerCase().includes(value);
+        }
+        return false;
+      }
+      case 'date': {
+        const date = context.doc.meta[node.field];
+        return !!date && compareQueryDate(date, node.op, node.value);
+      }
+    }
+  }
+
+  // Words, phrases and regexes that are not negated: they drive ranking and highlighting
+  private collectPositive(root: SearchQueryNode) {
+    const parts: QueryPart[] = [];
+    const needles: Needle[] = [];
+    const regexes: RegExp[] = [];
+
+    const walk = (node: SearchQueryNode) => {
+      switch (node.type) {
+        case 'and':
+        case 'or':
+          node.children.forEach(walk);
+          break;
+        case 'term':
+          this.toQueryParts(node.value).forEach(part => {
+            parts.push(part);
+            needles.push({ text: part.text, wordStart: !part.isCjk });
+          });
+          break;
+        case 'phrase':
+          parts.push(...this.toQueryParts(node.value));
+          needles.push({ text: node.value.toLowerCase(), wordStart: false });
+          break;
+        case 'regex':
+          regexes.push(this.compileRegex(node.pattern, node.flags, true));
+          break;
+      }
+    };
+    walk(root);
+
+    return { parts, needles, regexes };
+  }
+
+  // "^" and "$" work per line; the g flag is only wanted when collecting highlight ranges
+  private compileRegex(pattern: string, flags: string, global: boolean): RegExp {
+    let normalized = flags.replace(/[gy]/g, '');
+    if (!normalized.includes('m')) normalized += 'm';
+    if (global) normalized += 'g';
+    return new RegExp(pattern, normalized);
+  }
+
+  private buildMeta(filePath: string, content: string, mtimeMs: number): DocumentMeta {
+    const frontmatter = parseFrontmatter(content);
+    const text = (value: string | string[] | undefined) => (Array.isArray(value) ? value.join(', ') : value || '');
+
+    return {
+      relativePath: path.relative(this.rootPath, filePath).split(path.sep).join('/'),
+      notebook: text(frontmatter['笔记本']) || path.basename(path.dirname(filePath)),
+      created: this.normalizeDate(text(frontmatter['创建时间'])),
+      // Notes saved without metadata still have a modification time
+      updated: this.normalizeDate(text(frontmatter['更新时间'])) || this.formatDateTime(new Date(mtimeMs)),
+      tags: parseTags(content)
+    };
+  }
+
+  // 2026/1/5 9:30 -> 2026-01-05 9:30, so dates compare as strings
+  private normalizeDate(value: string): string {
+    const match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(.*)$/);
+    if (!match) return '';
+    return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}${match[4]}`;
+  }
+
+  private formatDateTime(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  }
+
+  private scoreTerm(term: string, tf: number, docLength: number): number {
+    const docCount = this.documents.size;
+    const docFrequency = this.postings.get(term)?.size || 0;
+    const idf = Math.log(1 + (docCount - docFrequency + 0.5) / (docFrequency + 0.5));
+    const avgLength = docCount > 0 ? this.totalLength / docCount : 1;
+    return idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * docLength / avgLength));
+  }
+
+  // Every line that contains a query word, phrase or regex match, with the hit ranges marked
+  private buildSnippets(content: string, needles: Needle[], regexes: RegExp[]): SearchSnippet[] {
+    const snippets: SearchSnippet[] = [];
+    const lines = content.split('\n');
+
+    lines.forEach((line, index) => {
+      const lowerLine = line.toLowerCase();
+      const ranges: SearchHighlight[] = [];
+
+      for (const needle of needles) {
+        let from = lowerLine.indexOf(needle.text);
+        while (from !== -1) {
+          const isBoundary = !needle.wordStart || from === 0 || !WORD_CHAR_REGEX.test(lowerLine.charAt(from - 1));
+          if (isBoundary) ranges.push({ start: from, end: from + needle.text.length });
+          from = lowerLine.indexOf(needle.text, from + needle.text.length);
+        }
+      }
+
+      for (const regex of regexes) {
+        regex.lastIndex = 0;
+        for (const match of line.matchAll(regex)) {
+          // Zero-width matches (e.g. /^/) have nothing to highlight
+          if (match[0].length > 0) {
+            ranges.push({ start: match.index!, end: match.index! + match[0].length });
+          }
+        }
+      }
+      if (ranges.length === 0) return;
+
+      snippets.push({ line: index + 1, ...this.clipLine(line, this.mergeRanges(ranges)) });
+    });
+
+    return snippets;
+  }
+
+  private mergeRanges(ranges: SearchHighlight[]): SearchHighlight[] {
+    const sorted = [...ranges].sort((a, b) => a.start - b.start);
+    const merged: SearchHighlight[] = [];
+    for (const range of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+    }
+    return merged;
+  }
+
+  // Cut long lines down to a window around the first hit
+  private clipLine(line: string, highlights: SearchHighlight[]): { text: string; highlights: SearchHighlight[] } {
+    const trimmedStart = line.length - line.trimStart().length;
+    const start = Math.max(trimmedStart, highlights[0].start - SNIPPET_RADIUS);
+    let end = Math.min(line.trimEnd().length, highlights[0].end + SNIPPET_RADIUS);
+    if (end < start) end = start;
+
+    const prefix = start > trimmedStart ? '…' : '';
+    const suffix = end < line.trimEnd().length ? '…' : '';
+    const shift = prefix.length - start;
+
+    return {
+      text: prefix + line.slice(start, end) + suffix,
+      highlights: highlights
+        .filter(h => h.start >= start && h.end <= end)
+        .map(h => ({ start: h.start + shift, end: h.end + shift }))
+    };
+  }
+
+  // --- Persistence ---
+
+  private getIndexPath(rootPath: string): string {
+    return path.join(configService.getProjectIndexDir(rootPath), INDEX_FILE_NAME);
+  }
+
+  private async load(rootPath: string) {
+    this.documents = new Map();
+    this.pathToId = new Map();
+    this.postings = new Map();
+    this.documentTerms = new Map();
+    this.vocabulary = null;
+    this.texts = new Map();
+    this.nextId = 1;
+    this.totalLength = 0;
+
+    const indexPath = this.getIndexPath(rootPath);
+    if (!await fs.pathExists(indexPath)) return;
+
+    try {
+      const data: PersistedIndex = await fs.readJson(indexPath);
+      if (data.version !== INDEX_FORMAT_VERSION || data.rootPath !== rootPath) return;
+
+      Object.entries(data.documents).forEach(([id, doc]) => {
+        this.documents.set(Number(id), doc);
+        this.pathToId.set(doc.path, Number(id));
+        this.totalLength += doc.length;
+      });
+      Object.entries(data.postings).forEach(([term, posting]) => {
+        this.postings.set(term, new Map(Object.entries(posting).map(([id, tf]) => [Number(id), tf])));
+        Object.keys(posting).forEach(id => {
+          const terms = this.documentTerms.get(Number(id));
+          if (terms) terms.push(term);
+          else this.documentTerms.set(Number(id), [term]);
+        });
+      });
+      this.nextId = data.nextId;
+    } catch (error) {
+      // A corrupt index is simply rebuilt by reconcile()
+      logError(`Failed to load search index, rebuilding: ${error}`);
+      this.documents = new Map();
+      this.pathToId = new Map();
+      this.postings = new Map();
+      this.documentTerms = new Map();
+      this.nextId = 1;
+      this.totalLength = 0;
+    }
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch(error => logError(`Failed to save search index: ${error}`));
+    }, SAVE_DELAY_MS);
+  }
+
+  private serialize(): PersistedIndex {
+    const data: PersistedIndex = {
+      version: INDEX_FORMAT_VERSION,
+      rootPath: this.rootPath,
+      nextId: this.nextId,
+      documents: Object.fromEntries(this.documents),
+      postings: {}
+    };
+    this.postings.forEach((posting, term) => {
+      data.postings[term] = Object.fromEntries(posting);
+    });
+    return data;
+  }
+
+  private async save() {
+    if (!this.rootPath) return;
+
+    const data = this.serialize();
+    // Write to a temp file first so a crash never leaves a half-written index behind
+    const indexPath = this.getIndexPath(this.rootPath);
+    const tempPath = `${indexPath}.tmp`;
+    await fs.ensureDir(path.dirname(indexPath));
+    await fs.writeJson(tempPath, data);
+    await fs.move(tempPath, indexPath, { overwrite: true });
+  }
+
+  // --- Helpers ---
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        logError(`Search index listener failed: ${error}`);
+      }
+    });
+  }
+
+  private emitDocumentChange(change: DocumentChange) {
+    this.documentListeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        logError(`Document change listener failed: ${error}`);
+      }
+    });
+  }
+
+  private isIndexable(filePath: string): boolean {
+    if (!this.rootPath || !filePath.endsWith('.md') || !this.isWithin(filePath, this.rootPath)) return false;
+    const relativePath = path.relative(this.rootPath, filePath);
+    return !relativePath.split(path.sep).some(part => IGNORED_NAMES.includes(part));
+  }
+
+  private intersect(a: Set<number>, b: Set<number>): Set<number> {
+    const result = new Set<number>();
+    a.forEach(id => {
+      if (b.has(id)) result.add(id);
+    });
+    return result;
+  }
+
+  private isWithin(target: string, base: string): boolean {
+    return target === base || target.startsWith(base + path.sep);
+  }
+}
+
+export const searchIndexService = new SearchIndexService();
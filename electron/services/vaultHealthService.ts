@@ -0,0 +1,201 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { configService } from './configService';
+import { fileService, IGNORED_NAMES } from './fileService';
+import { searchIndexService } from './searchIndexService';
+import { linkIndexService } from './linkIndexService';
+import { log } from './logService';
+import { BrokenReference, VaultHealthReport } from '../../src/types';
+import { createNoteResolver, extractWikilinks, isNoteTarget, resolveAttachment } from '../../src/utils/wikilink';
+
+const ATTACHMENT_DIR = 'files';
+const FENCE_REGEX = /^\s*(```|~~~)/;
+// ![alt](files/a.png "title") and [text](../note.md); <...> allows spaces in the url
+const MARKDOWN_LINK_REGEX = /!?\[[^\]]*\]\((<[^>]+>|[^)\s]+)[^)]*\)/g;
+const HTML_SRC_REGEX = /<(?:img|video|audio|source)\b[^>]*?\bsrc=["']([^"']+)["'][^>]*>/gi;
+// Urls with a scheme (http:, data:, media:, ...), anchors and absolute paths are not checked
+const EXTERNAL_URL_REGEX = /^([a-z][a-z0-9+.-]*:|#|\/)/i;
+
+/**
+ * Vault health report: links and references that point nowhere (or to more
+ * than one note), notes no one links to and attachments no note uses.
+ *
+ * Wikilinks come from the link index (which leaves fenced code out) and are
+ * resolved exactly like the renderer does; relative markdown / html paths
+ * outside fenced code are checked against the files of the notebook.
+ */
+export class VaultHealthService {
+  async check(): Promise<VaultHealthReport> {
+    const { repoPath } = await configService.getConfig();
+    searchIndexService.open(repoPath);
+    const [{ notes }, documents, files] = await Promise.all([
+      linkIndexService.getSnapshot(),
+      searchIndexService.getDocuments(),
+      this.collectFiles(repoPath)
+    ]);
+
+    const contents = new Map(await Promise.all(documents.map(async doc =>
+      [doc.path, await searchIndexService.readContent(doc.path) ?? ''] as const
+    )));
+    const notePaths = Object.keys(notes);
+    const existing = new Set([...files, ...notePaths]);
+    const resolver = createNoteResolver(notePaths, notePath => notes[notePath].aliases, repoPath);
+
+    const linkedNotes = new Set<string>();
+    const usedFiles = new Set<string>();
+    const brokenLinks: BrokenReference[] = [];
+    const ambiguousLinks: BrokenReference[] = [];
+    const missingFiles: BrokenReference[] = [];
+
+    for (const [notePath, { links }] of Object.entries(notes)) {
+      const content = contents.get(notePath) ?? '';
+      for (const link of links) {
+        // [[#Heading]] points into the note itself
+        if (!link.target) continue;
+
+        // Show embeds as written, with their "!"
+        const start = content.charAt(link.position.start - 1) === '!' ? link.position.start - 1 : link.position.start;
+        const reference: BrokenReference = {
+          path: notePath,
+          offset: start,
+          text: content.slice(start, link.position.end),
+          target: link.target,
+          line: this.lineAt(content, start)
+        };
+        if (isNoteTarget(link.target)) {
+          const { path: resolved, candidates, isAmbiguous } = resolver.lookup(link.target, notePath);
+          if (!resolved) brokenLinks.push(reference);
+          else if (resolved !== notePath) linkedNotes.add(resolved);
+          if (isAmbiguous) ambiguousLinks.push({ ...reference, candidates });
+        } else {
+          const resolved = resolveAttachment(link.target, notePath, files);
+          if (resolved) usedFiles.add(resolved);
+          else missingFiles.push(reference);
+        }
+      }
+
+      for (const reference of this.findPathReferences(content, notePath)) {
+        const resolved = this.resolveRelativePath(reference.target, notePath);
+        if (resolved === null) continue;
+        if (!existing.has(resolved)) {
+          missingFiles.push(reference);
+        } else if (resolved.endsWith('.md')) {
+          if (resolved !== notePath) linkedNotes.add(resolved);
+        } else {
+          usedFiles.add(resolved);
+        }
+      }
+    }
+
+    const byPosition = (a: BrokenReference, b: BrokenReference) => a.path.localeCompare(b.path) || a.offset - b.offset;
+    const report: VaultHealthReport = {
+      brokenLinks: brokenLinks.sort(byPosition),
+      ambiguousLinks: ambiguousLinks.sort(byPosition),
+      missingFiles: missingFiles.sort(byPosition),
+      orphanNotes: notePaths.filter(notePath => !linkedNotes.has(notePath)).sort(),
+      unusedAttachments: files
+        .filter(filePath => !usedFiles.has(filePath) && this.isAttachment(filePath, repoPath))
+        .sort()
+    };
+    log(`Vault health: ${brokenLinks.length} broken links, ${ambiguousLinks.length} ambiguous links, ` +
+      `${missingFiles.length} missing files, ` +
+      `${report.orphanNotes.length} orphan notes, ${report.unusedAttachments.length} unused attachments`);
+    return report;
+  }
+
+  /**
+   * Point a broken or ambiguous wikilink at another note, keeping its heading / alias
+   */
+  async fixLink(filePath: string, reference: Pick<BrokenReference, 'offset' | 'text'>, target: string): Promise<void> {
+    const { content, version } = await fileService.readFileWithVersion(filePath);
+    const end = reference.offset + reference.text.length;
+    if (content.slice(reference.offset, end) !== reference.text) {
+      throw new Error('笔记已被修改, 请刷新后重试');
+    }
+    // Only real links are rewritten, never [[...]] shown in a code sample
+    if (!extractWikilinks(content).some(link => link.position.end === end)) {
+      throw new Error('该位置不是笔记链接');
+    }
+
+    const fixed = reference.text.replace(/^(!?\[\[)[^\]|#]*/, (_match, open: string) => `${open}${target}`);
+    await fileService.saveFile(filePath, content.slice(0, reference.offset) + fixed + content.slice(end), version);
+    await searchIndexService.updateFile(filePath);
+    log(`Fixed link ${reference.text} -> ${fixed} in ${filePath}`);
+  }
+
+  // Relative paths of markdown links / images and html media outside fenced code
+  private findPathReferences(content: string, notePath: string): BrokenReference[] {
+    const references: BrokenReference[] = [];
+    let lineStart = 0;
+    let inCode = false;
+
+    content.split('\n').forEach((line, index) => {
+      const offset = lineStart;
+      lineStart += line.length + 1;
+      if (FENCE_REGEX.test(line)) {
+        inCode = !inCode;
+        return;
+      }
+      if (inCode) return;
+
+      for (const regex of [MARKDOWN_LINK_REGEX, HTML_SRC_REGEX]) {
+        for (const match of line.matchAll(regex)) {
+          const url = match[1].replace(/^<(.*)>$/, '$1');
+          if (EXTERNAL_URL_REGEX.test(url)) continue;
+          references.push({ path: notePath, offset: offset + match.index!, text: match[0], target: url, line: index + 1 });
+        }
+      }
+    });
+
+    return references;
+  }
+
+  // Absolute path of a relative url, or null when it only points inside the note
+  private resolveRelativePath(url: string, notePath: string): string | null {
+    const rawPath = url.replace(/[?#].*$/, '');
+    if (!rawPath) return null;
+
+    let decodedPath = rawPath;
+    try {
+      decodedPath = decodeURI(rawPath);
+    } catch {
+      // Not valid percent-encoding: treat the url as written
+    }
+    return path.resolve(path.dirname(notePath), decodedPath);
+  }
+
+  // Non-note files kept in a files/ folder
+  private isAttachment(filePath: string, rootPath: string): boolean {
+    if (filePath.endsWith('.md')) return false;
+    return path.relative(rootPath, path.dirname(filePath)).split(path.sep).includes(ATTACHMENT_DIR);
+  }
+
+  private lineAt(content: string, offset: number): number {
+    let line = 1;
+    for (let index = content.indexOf('\n'); index !== -1 && index < offset; index = content.indexOf('\n', index + 1)) {
+      line++;
+    }
+    return line;
+  }
+
+  // Every file of the notebook, skipping hidden and internal entries
+  private async collectFiles(rootPath: string): Promise<string[]> {
+    const files: string[] = [];
+    const walk = async (current: string) => {
+      const items = await fs.readdir(current, { withFileTypes: true }).catch(() => []);
+      for (const item of items) {
+        if (IGNORED_NAMES.includes(item.name) || item.name.startsWith('.')) continue;
+        const itemPath = path.join(current, item.name);
+        if (item.isDirectory()) {
+          await walk(itemPath);
+        } else {
+          files.push(itemPath);
+        }
+      }
+    };
+    await walk(rootPath);
+    return files;
+  }
+}
+
+export const vaultHealthService = new VaultHealthService();
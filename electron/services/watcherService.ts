@@ -0,0 +1,232 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { fileService, IGNORED_NAMES } from './fileService';
+import { log, logError } from './logService';
+import { FileChangeEvent } from '../../src/types';
+
+const FLUSH_DELAY_MS = 150;
+
+interface EntryInfo {
+  ino: number;
+  isDirectory: boolean;
+  mtimeMs: number;
+}
+
+type ChangeListener = (events: FileChangeEvent[]) => void;
+
+/**
+ * Watches the notebook root and turns raw fs.watch notifications into
+ * incremental add / remove / rename / change events.
+ *
+ * fs.watch only tells us "something happened to this name", so every touched
+ * path is stat'ed after a short debounce and compared against a snapshot of
+ * the tree. A removal and an addition sharing the same inode within one batch
+ * are reported as a rename.
+ */
+export class WatcherService {
+  private rootPath: string = '';
+  private watcher: fs.FSWatcher | null = null;
+  private entries: Map<string, EntryInfo> = new Map();
+  private pending: Set<string> = new Set();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private isFlushing: boolean = false;
+  private listeners: Set<ChangeListener> = new Set();
+
+  subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getRootPath(): string {
+    return this.rootPath;
+  }
+
+  /**
+   * Start watching the given root. Calling it again with the same root is a no-op,
+   * so it is safe to call whenever the tree is (re)loaded.
+   */
+  async watch(rootPath: string): Promise<void> {
+    if (!rootPath) return;
+    if (this.watcher && this.rootPath === rootPath) return;
+
+    this.stop();
+    this.rootPath = rootPath;
+
+    try {
+      await this.snapshot(rootPath);
+      this.watcher = fs.watch(rootPath, { recursive: true }, (_eventType, fileName) => {
+        if (!fileName) return;
+        const relativePath = fileName.toString();
+        if (this.isIgnored(relativePath)) return;
+        this.pending.add(path.join(rootPath, relativePath));
+        this.scheduleFlush();
+      });
+      this.watcher.on('error', (error) => {
+        logError(`File watcher error: ${error}`);
+      });
+      log(`File watcher started: ${rootPath}`);
+    } catch (error) {
+      logError(`Failed to start file watcher: ${error}`);
+      this.stop();
+    }
+  }
+
+  stop(): void {
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.pending.clear();
+    this.entries.clear();
+    this.rootPath = '';
+  }
+
+  private isIgnored(relativePath: string): boolean {
+    return relativePath.split(/[\\/]/).some(part => IGNORED_NAMES.includes(part));
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, FLUSH_DELAY_MS);
+  }
+
+  private async snapshot(dirPath: string): Promise<void> {
+    const items = await fs.readdir(dirPath, { withFileTypes: true });
+    for (const item of items) {
+      if (IGNORED_NAMES.includes(item.name)) continue;
+      const itemPath = path.join(dirPath, item.name);
+      try {
+        const stat = await fs.stat(itemPath);
+        this.entries.set(itemPath, {
+          ino: stat.ino,
+          isDirectory: stat.isDirectory(),
+          mtimeMs: stat.mtimeMs
+        });
+        if (stat.isDirectory()) {
+          await this.snapshot(itemPath);
+        }
+      } catch {
+        // Entry vanished while walking, the watcher will report it
+      }
+    }
+  }
+
+  private forgetSubtree(dirPath: string) {
+    const prefix = dirPath + path.sep;
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+
+  private async flush(): Promise<void> {
+    // Keep batches ordered: if a flush is still running, try again shortly
+    if (this.isFlushing) {
+      this.scheduleFlush();
+      return;
+    }
+    this.isFlushing = true;
+
+    const touched = Array.from(this.pending);
+    this.pending.clear();
+
+    const removed: Array<{ path: string; info: EntryInfo }> = [];
+    const added: Array<{ path: string; info: EntryInfo }> = [];
+    const changed: string[] = [];
+
+    try {
+      for (const itemPath of touched) {
+        const known = this.entries.get(itemPath);
+        const stat = await fs.stat(itemPath).catch(() => null);
+
+        if (!stat) {
+          if (known) removed.push({ path: itemPath, info: known });
+          continue;
+        }
+
+        const info: EntryInfo = { ino: stat.ino, isDirectory: stat.isDirectory(), mtimeMs: stat.mtimeMs };
+        if (!known) {
+          added.push({ path: itemPath, info });
+        } else if (known.isDirectory !== info.isDirectory) {
+          removed.push({ path: itemPath, info: known });
+          added.push({ path: itemPath, info });
+        } else if (!info.isDirectory && known.mtimeMs !== info.mtimeMs) {
+          changed.push(itemPath);
+          this.entries.set(itemPath, info);
+        }
+      }
+
+      const events: FileChangeEvent[] = [];
+
+      // Only report the top-most removed path, descendants go with it
+      const removedPaths = new Set(removed.map(r => r.path));
+      const topRemoved = removed.filter(r => !this.hasAncestorIn(r.path, removedPaths));
+      for (const r of removed) this.entries.delete(r.path);
+      for (const r of topRemoved) {
+        if (r.info.isDirectory) this.forgetSubtree(r.path);
+      }
+
+      const addedPaths = new Set(added.map(a => a.path));
+      const topAdded = added.filter(a => !this.hasAncestorIn(a.path, addedPaths));
+
+      for (const a of topAdded) {
+        let node;
+        try {
+          node = await fileService.buildNode(a.path);
+        } catch {
+          continue; // Gone again before we could read it
+        }
+        if (a.info.isDirectory) await this.snapshot(a.path).catch(() => undefined);
+        this.entries.set(a.path, a.info);
+
+        const renamedFrom = topRemoved.findIndex(r => r.info.ino === a.info.ino && r.info.isDirectory === a.info.isDirectory);
+        if (renamedFrom !== -1) {
+          const [source] = topRemoved.splice(renamedFrom, 1);
+          events.push({ type: 'rename', oldPath: source.path, path: a.path, parentPath: path.dirname(a.path), node });
+        } else {
+          events.push({ type: 'add', path: a.path, parentPath: path.dirname(a.path), node });
+        }
+      }
+
+      for (const r of topRemoved) {
+        events.push({ type: 'remove', path: r.path, parentPath: path.dirname(r.path) });
+      }
+
+      for (const itemPath of changed) {
+        if (addedPaths.has(itemPath)) continue;
+        events.push({ type: 'change', path: itemPath, parentPath: path.dirname(itemPath) });
+      }
+
+      if (events.length > 0) {
+        this.listeners.forEach(listener => {
+          try {
+            listener(events);
+          } catch (error) {
+            logError(`File watcher listener failed: ${error}`);
+          }
+        });
+      }
+    } catch (error) {
+      logError(`Failed to process file system changes: ${error}`);
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  private hasAncestorIn(itemPath: string, candidates: Set<string>): boolean {
+    let dir = path.dirname(itemPath);
+    while (dir.length >= this.rootPath.length && dir !== path.dirname(dir)) {
+      if (candidates.has(dir)) return true;
+      dir = path.dirname(dir);
+    }
+    return false;
+  }
+}
+
+export const watcherService = new WatcherService();
@@ -6,6 +6,11 @@ import { ToastContainer } from './components/Toast';
 import { KeyboardShortcuts } from './components/KeyboardShortcuts';
 import { HelpDialog } from './components/HelpDialog';
 import { ErrorDialog } from './components/ErrorDialog';
+import { FileConflictDialog } from './components/FileConflictDialog';
+import { LinkRewriteDialog } from './components/LinkRewriteDialog';
+import { ReplaceDialog } from './components/ReplaceDialog';
+import { GraphView } from './components/GraphView';
+import { VaultHealthDialog } from './components/VaultHealth';
 import { SchedulePanel } from './components/Schedule';
 import { DrinkReminderDialog } from './components/DrinkReminder';
 import { PasswordManager } from './components/PasswordManager';
@@ -20,11 +25,14 @@ const Welcome = lazy(() => import('./components/Welcome').then(m => ({ default:
 
 // Inner App Component (wrapped by ErrorBoundary)
 const AppContent = observer(() => {
-  const { uiStore, fileStore } = useStore();
+  const { uiStore, fileStore, keyboardShortcutStore } = useStore();
   const [showShortcuts, setShowShortcuts] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
   const [showSchedule, setShowSchedule] = useState(false);
   const [showPasswordManager, setShowPasswordManager] = useState(false);
+  const [showReplace, setShowReplace] = useState(false);
+  const [showGraph, setShowGraph] = useState(false);
+  const [showVaultHealth, setShowVaultHealth] = useState(false);
 
   useEffect(() => {
     uiStore.initTheme();
@@ -33,6 +41,9 @@ const AppContent = observer(() => {
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Keys taken by the editor's Vim / Emacs bindings
+      if (!keyboardShortcutStore.isAvailableForApp(e)) return;
+
       const isMod = e.metaKey || e.ctrlKey;
 
       // Cmd+/ or Ctrl+/ to show shortcuts
@@ -47,6 +58,18 @@ const AppContent = observer(() => {
         setShowHelp(prev => !prev);
       }
 
+      // Cmd+Shift+H to open vault-wide find / replace
+      if (isMod && e.shiftKey && e.key.toLowerCase() === 'h') {
+        e.preventDefault();
+        setShowReplace(true);
+      }
+
+      // Cmd+G to toggle the knowledge graph
+      if (isMod && e.key === 'g') {
+        e.preventDefault();
+        setShowGraph(prev => !prev);
+      }
+
       // Cmd+D to open schedule panel
       if (isMod && e.key === 'd') {
         e.preventDefault();
@@ -108,7 +131,7 @@ const AppContent = observer(() => {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [uiStore, fileStore]);
+  }, [uiStore, fileStore, keyboardShortcutStore]);
 
   // Warn before closing if there are unsaved changes
   useEffect(() => {
@@ -148,6 +171,9 @@ const AppContent = observer(() => {
             onHelpClick={() => setShowHelp(true)}
             onScheduleClick={() => setShowSchedule(true)}
             onPasswordManagerClick={() => setShowPasswordManager(true)}
+            onReplaceClick={() => setShowReplace(true)}
+            onGraphClick={() => setShowGraph(true)}
+            onVaultHealthClick={() => setShowVaultHealth(true)}
           />
           <div className="flex-1 flex overflow-hidden">
             <Sidebar />
@@ -166,6 +192,11 @@ const AppContent = observer(() => {
         details={uiStore.errorDialog.details}
         onClose={() => uiStore.closeErrorDialog()}
       />
+      <FileConflictDialog />
+      <LinkRewriteDialog />
+      <ReplaceDialog isOpen={showReplace} onClose={() => setShowReplace(false)} />
+      <GraphView isOpen={showGraph} onClose={() => setShowGraph(false)} />
+      <VaultHealthDialog isOpen={showVaultHealth} onClose={() => setShowVaultHealth(false)} />
       <DrinkReminderDialog />
 
       {/* Password Manager Modal */}
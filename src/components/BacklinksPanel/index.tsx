@@ -1,18 +1,79 @@
 import { observer } from 'mobx-react-lite';
 import { useStore } from '../../store';
-import { Link2, ChevronDown, ChevronUp, FileText } from 'lucide-react';
-import { useState, memo } from 'react';
+import { Link2, ChevronDown, ChevronUp, FileText, Unlink, Loader2 } from 'lucide-react';
+import { useState, useEffect, memo } from 'react';
+import { findSection } from '../../utils/wikilink';
+import { getAliases } from '../../utils/frontmatter';
+import type { Backlink } from '../../store/BacklinkStore';
+import type { UnlinkedMentionFile } from '../../types';
+import { HighlightedSnippet } from '../HighlightedSnippet';
 
-export const BacklinksPanel = memo(observer(() => {
-  const { fileStore, backlinkStore } = useStore();
+// Lines of a referenced section shown under the backlink
+const SECTION_PREVIEW_LINES = 3;
+
+const UnlinkedMentionItem = observer(({ file }: { file: UnlinkedMentionFile }) => {
+  const { fileStore, mentionStore } = useStore();
+
+  return (
+    <div className="px-3 py-1.5">
+      <button
+        className="w-full flex items-center gap-2 text-sm text-left group"
+        onClick={() => fileStore.openFileByPath(file.path)}
+      >
+        <FileText size={14} className="text-gray-400 shrink-0" />
+        <span className="flex-1 truncate text-gray-600 dark:text-gray-300 group-hover:text-primary transition-colors">
+          {file.name.replace('.md', '')}
+        </span>
+        <span className="text-xs text-gray-400 shrink-0">{file.mentions.length}</span>
+      </button>
+      {file.mentions.map(mention => {
+        const key = `${file.path}:${mention.offset}`;
+        const isLinking = mentionStore.linkingKey === key;
+        return (
+          <div key={key} className="flex items-start gap-2 mt-1 ml-[22px] group/mention">
+            <div className="flex-1 min-w-0 pl-2 border-l-2 border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400 break-all">
+              <HighlightedSnippet snippet={mention.snippet} />
+            </div>
+            <button
+              disabled={!!mentionStore.linkingKey}
+              onClick={() => mentionStore.linkMention(file, mention)}
+              className="shrink-0 flex items-center gap-1 px-1.5 py-0.5 text-xs rounded text-primary hover:bg-primary/10 opacity-0 group-hover/mention:opacity-100 focus:opacity-100 transition-opacity disabled:opacity-50"
+              title={`将「${mention.text}」转换为 [[双链]]`}
+            >
+              {isLinking ? <Loader2 size={12} className="animate-spin" /> : <Link2 size={12} />}
+              链接
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+});
+
+export const BacklinksPanel = memo(observer(function BacklinksPanel() {
+  const { fileStore, backlinkStore, mentionStore } = useStore();
   const [isExpanded, setIsExpanded] = useState(true);
+  const [showMentions, setShowMentions] = useState(false);
+
+  const currentPath = fileStore.currentFile?.path;
+  const fileName = fileStore.currentFile?.name.replace('.md', '') ?? '';
+  // Aliases come from the note as edited, so the list follows frontmatter changes before saving
+  const aliasKey = getAliases(fileStore.currentContent).join('\n');
+
+  useEffect(() => {
+    if (!currentPath) {
+      mentionStore.clear();
+      return;
+    }
+    mentionStore.load(currentPath, [fileName, ...(aliasKey ? aliasKey.split('\n') : [])]);
+  }, [mentionStore, currentPath, fileName, aliasKey]);
 
   if (!fileStore.currentFile) return null;
 
-  const fileName = fileStore.currentFile.name.replace('.md', '');
-  const backlinks = backlinkStore.getBacklinks(fileName);
+  const backlinks = backlinkStore.getBacklinks(fileStore.currentFile.path);
+  const mentionCount = mentionStore.mentionCount;
 
-  if (backlinks.length === 0) return null;
+  if (backlinks.length === 0 && mentionCount === 0) return null;
 
   const handleBacklinkClick = (sourcePath: string) => {
     const findNode = (nodes: any[], targetPath: string): any => {
@@ -32,6 +93,14 @@ export const BacklinksPanel = memo(observer(() => {
     }
   };
 
+  // The part of this note a [[Note#Heading]] / [[Note#^block]] backlink points to
+  const getReferencedSection = (backlink: Backlink): string | null => {
+    if (!backlink.heading && !backlink.blockId) return null;
+    const section = findSection(fileStore.currentContent, { note: '', heading: backlink.heading, blockId: backlink.blockId });
+    if (!section) return null;
+    return section.text.split('\n').slice(0, SECTION_PREVIEW_LINES).join('\n');
+  };
+
   const getSourceFileName = (sourcePath: string): string => {
     const parts = sourcePath.split('/');
     const name = parts[parts.length - 1] || sourcePath;
@@ -40,43 +109,96 @@ export const BacklinksPanel = memo(observer(() => {
 
   return (
     <div className="border-t border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900/80 backdrop-blur-sm">
-      <button
-        className="w-full px-4 py-2 flex items-center justify-between text-sm hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
-        onClick={() => setIsExpanded(!isExpanded)}
-      >
-        <div className="flex items-center gap-2">
-          <Link2 size={16} className="text-primary" />
-          <span className="font-medium text-gray-700 dark:text-gray-200">
-            反向链接 ({backlinks.length})
-          </span>
-        </div>
-        {isExpanded ? (
-          <ChevronUp size={16} className="text-gray-400" />
-        ) : (
-          <ChevronDown size={16} className="text-gray-400" />
-        )}
-      </button>
+      {backlinks.length > 0 && (
+        <>
+          <button
+            className="w-full px-4 py-2 flex items-center justify-between text-sm hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+            onClick={() => setIsExpanded(!isExpanded)}
+          >
+            <div className="flex items-center gap-2">
+              <Link2 size={16} className="text-primary" />
+              <span className="font-medium text-gray-700 dark:text-gray-200">
+                反向链接 ({backlinks.length})
+              </span>
+            </div>
+            {isExpanded ? (
+              <ChevronUp size={16} className="text-gray-400" />
+            ) : (
+              <ChevronDown size={16} className="text-gray-400" />
+            )}
+          </button>
 
-      {isExpanded && (
-        <div className="px-4 pb-3 space-y-1">
-          {backlinks.map((backlink, idx) => (
-            <button
-              key={idx}
-              className="w-full flex items-center gap-2 px-3 py-1.5 text-sm rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors text-left group"
-              onClick={() => handleBacklinkClick(backlink.sourcePath)}
-            >
-              <FileText size={14} className="text-gray-400 shrink-0" />
-              <span className="flex-1 truncate text-gray-600 dark:text-gray-300 group-hover:text-primary dark:group-hover:text-primary transition-colors">
-                {getSourceFileName(backlink.sourcePath)}
+          {isExpanded && (
+            <div className="px-4 pb-3 space-y-1">
+              {backlinks.map((backlink, idx) => {
+                const subpath = backlink.heading ? `#${backlink.heading}` : backlink.blockId ? `^${backlink.blockId}` : null;
+                const section = getReferencedSection(backlink);
+                return (
+                  <button
+                    key={idx}
+                    className="w-full px-3 py-1.5 text-sm rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors text-left group"
+                    onClick={() => handleBacklinkClick(backlink.sourcePath)}
+                  >
+                    <div className="flex items-center gap-2">
+                      <FileText size={14} className="text-gray-400 shrink-0" />
+                      <span className="flex-1 truncate text-gray-600 dark:text-gray-300 group-hover:text-primary dark:group-hover:text-primary transition-colors">
+                        {getSourceFileName(backlink.sourcePath)}
+                      </span>
+                      {subpath && (
+                        <span
+                          className={`text-xs truncate max-w-[40%] shrink-0 ${section ? 'text-primary/80' : 'text-amber-500 line-through'}`}
+                          title={section ? subpath : `${subpath} (未找到)`}
+                        >
+                          {subpath}
+                        </span>
+                      )}
+                      {backlink.alias && (
+                        <span className="text-xs text-gray-400 shrink-0">
+                          via {backlink.alias}
+                        </span>
+                      )}
+                    </div>
+                    {section && (
+                      <div className="mt-1 ml-[22px] pl-2 border-l-2 border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400 whitespace-pre-wrap line-clamp-3">
+                        {section}
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+
+      {mentionCount > 0 && (
+        <>
+          <button
+            className="w-full px-4 py-2 flex items-center justify-between text-sm hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+            onClick={() => setShowMentions(!showMentions)}
+          >
+            <div className="flex items-center gap-2">
+              <Unlink size={16} className="text-gray-400" />
+              <span className="font-medium text-gray-700 dark:text-gray-200">
+                未链接的提及 ({mentionCount})
               </span>
-              {backlink.alias && (
-                <span className="text-xs text-gray-400 shrink-0">
-                  via {backlink.alias}
-                </span>
-              )}
-            </button>
-          ))}
-        </div>
+              {mentionStore.isLoading && <Loader2 size={12} className="animate-spin text-gray-400" />}
+            </div>
+            {showMentions ? (
+              <ChevronUp size={16} className="text-gray-400" />
+            ) : (
+              <ChevronDown size={16} className="text-gray-400" />
+            )}
+          </button>
+
+          {showMentions && (
+            <div className="px-1 pb-3 max-h-64 overflow-y-auto custom-scrollbar">
+              {mentionStore.files.map(file => (
+                <UnlinkedMentionItem key={file.path} file={file} />
+              ))}
+            </div>
+          )}
+        </>
       )}
     </div>
   );
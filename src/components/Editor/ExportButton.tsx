@@ -5,12 +5,14 @@ import { Download, FileText, File, FileImage } from 'lucide-react';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
 import { marked, Renderer } from 'marked';
 import { ExportProgressDialog, useExportProgressDialog } from '../ExportProgressDialog';
+import { getMarkdownExportStyles, registerMarkdownExtensions } from '../../utils/markdownExtensions';
 
 // Configure marked
 marked.use({
   breaks: true,
   gfm: true,
 });
+registerMarkdownExtensions();
 
 export const ExportButton = observer(() => {
   const { fileStore } = useStore();
@@ -56,7 +58,12 @@ export const ExportButton = observer(() => {
       return `<img src="${src}" alt="${text}" title="${title || ''}" style="${style}" />`;
     };
 
-    return await marked.parse(markdown, { renderer }) as string;
+    // Inline ![[...]] embeds the same way Preview shows them
+    const expanded = fileStore.currentFile
+      ? (await fileStore.expandEmbeds(markdown, fileStore.currentFile.path)).content
+      : markdown;
+    const html = await marked.parse(expanded, { renderer }) as string;
+    return getMarkdownExportStyles(html) + html;
   };
 
   const getFileName = (filePath: string) => {
@@ -0,0 +1,160 @@
+import { useEffect, useRef, useState } from 'react';
+import type { EditorState } from '@codemirror/state';
+import type { EditorView } from '@codemirror/view';
+import {
+  SearchQuery,
+  closeSearchPanel,
+  findNext,
+  findPrevious,
+  getSearchQuery,
+  replaceAll,
+  replaceNext,
+  setSearchQuery
+} from '@codemirror/search';
+import { ArrowDown, ArrowUp, CaseSensitive, ChevronRight, Regex, Replace, ReplaceAll, WholeWord, X } from 'lucide-react';
+import { useStore } from '../../store';
+import { cn } from '../../utils/cn';
+import { getMatchInfo } from './codemirror';
+
+const INPUT_CLASS = 'flex-1 min-w-0 px-2 py-1 text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded focus:outline-none focus:ring-1 focus:ring-primary';
+const BUTTON_CLASS = 'p-1 rounded text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40 disabled:pointer-events-none transition-colors';
+
+interface FindReplaceBarProps {
+  view: EditorView;
+  state: EditorState;  // Latest state of the view, so the bar re-renders on every edit / cursor move
+  onReveal: (from: number, to: number) => void;
+}
+
+/**
+ * Find / replace bar of the current note, rendered into the search panel of the editor.
+ * The query lives in the editor state, so every tab keeps its own.
+ */
+export function FindReplaceBar({ view, state, onReveal }: FindReplaceBarProps) {
+  const { toastStore } = useStore();
+  const searchRef = useRef<HTMLInputElement>(null);
+  const query = getSearchQuery(state);
+  const [showReplace, setShowReplace] = useState(query.replace !== '');
+
+  useEffect(() => {
+    searchRef.current?.focus();
+    searchRef.current?.select();
+  }, []);
+
+  const info = getMatchInfo(state, query);
+  const hasMatches = info.count > 0;
+  const total = `${info.count}${info.isCapped ? '+' : ''}`;
+
+  const updateQuery = (changes: Partial<ConstructorParameters<typeof SearchQuery>[0]>) => {
+    view.dispatch({ effects: setSearchQuery.of(new SearchQuery({ ...query, ...changes })) });
+  };
+
+  const revealSelection = () => {
+    const { from, to } = view.state.selection.main;
+    onReveal(from, to);
+  };
+
+  const goNext = () => {
+    if (findNext(view)) revealSelection();
+  };
+
+  const goPrevious = () => {
+    if (findPrevious(view)) revealSelection();
+  };
+
+  const handleReplace = () => {
+    if (replaceNext(view)) revealSelection();
+  };
+
+  const handleReplaceAll = () => {
+    // One transaction, so a single undo brings every match back
+    if (replaceAll(view)) toastStore.success(`已替换 ${total} 处`);
+  };
+
+  const close = () => {
+    closeSearchPanel(view);
+    view.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, onEnter: () => void) => {
+    if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      onEnter();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  const toggle = (active: boolean) => cn(BUTTON_CLASS, active && 'bg-primary/10 text-primary hover:bg-primary/20 dark:hover:bg-primary/20');
+
+  let status = '';
+  if (query.search && !query.valid) status = '正则无效';
+  else if (query.search && !hasMatches) status = '无结果';
+  else if (hasMatches) status = info.current ? `${info.current}/${total}` : `${total} 个`;
+
+  return (
+    <div className="flex items-start gap-1 px-2 py-1.5 bg-gray-50 dark:bg-gray-800/60 text-gray-700 dark:text-gray-200">
+      <button
+        className={BUTTON_CLASS}
+        onClick={() => setShowReplace(!showReplace)}
+        title={showReplace ? '隐藏替换' : '显示替换'}
+      >
+        <ChevronRight size={16} className={cn('transition-transform', showReplace && 'rotate-90')} />
+      </button>
+
+      <div className="flex-1 min-w-0 flex flex-col gap-1">
+        <div className="flex items-center gap-1">
+          <input
+            ref={searchRef}
+            // Focused again by Mod-f while the bar is open
+            main-field="true"
+            value={query.search}
+            onChange={(e) => updateQuery({ search: e.target.value })}
+            onKeyDown={(e) => handleKeyDown(e, e.shiftKey ? goPrevious : goNext)}
+            placeholder="查找"
+            className={INPUT_CLASS}
+          />
+          <span className={cn('w-16 text-xs text-center shrink-0 tabular-nums', query.valid ? 'text-gray-400' : 'text-red-500')}>
+            {status}
+          </span>
+          <button className={toggle(query.caseSensitive)} onClick={() => updateQuery({ caseSensitive: !query.caseSensitive })} title="区分大小写">
+            <CaseSensitive size={16} />
+          </button>
+          <button className={toggle(query.wholeWord)} onClick={() => updateQuery({ wholeWord: !query.wholeWord })} title="全字匹配">
+            <WholeWord size={16} />
+          </button>
+          <button className={toggle(query.regexp)} onClick={() => updateQuery({ regexp: !query.regexp })} title="使用正则表达式">
+            <Regex size={16} />
+          </button>
+          <button className={BUTTON_CLASS} onClick={goPrevious} disabled={!hasMatches} title="上一个 (Shift+Enter)">
+            <ArrowUp size={16} />
+          </button>
+          <button className={BUTTON_CLASS} onClick={goNext} disabled={!hasMatches} title="下一个 (Enter)">
+            <ArrowDown size={16} />
+          </button>
+          <button className={BUTTON_CLASS} onClick={close} title="关闭 (Esc)">
+            <X size={16} />
+          </button>
+        </div>
+
+        {showReplace && (
+          <div className="flex items-center gap-1">
+            <input
+              value={query.replace}
+              onChange={(e) => updateQuery({ replace: e.target.value })}
+              onKeyDown={(e) => handleKeyDown(e, handleReplace)}
+              placeholder={query.regexp ? '替换 ($1 引用分组)' : '替换'}
+              className={INPUT_CLASS}
+            />
+            <button className={BUTTON_CLASS} onClick={handleReplace} disabled={!hasMatches} title="替换">
+              <Replace size={16} />
+            </button>
+            <button className={BUTTON_CLASS} onClick={handleReplaceAll} disabled={!hasMatches} title="全部替换">
+              <ReplaceAll size={16} />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { marked } from 'marked';
+import hljs from 'highlight.js';
+import { observer } from 'mobx-react-lite';
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { FileText, Loader2 } from 'lucide-react';
+import { useStore } from '../../store';
+import { findSection, renderWikilinks, type WikilinkTarget } from '../../utils/wikilink';
+import { parseTags, stripFrontmatter } from '../../utils/frontmatter';
+import { rebaseImages } from '../../utils/embed';
+import { getBaseName, getParentPath } from '../../utils/path';
+import type { HoveredLink } from './useLinkHoverPreview';
+
+const PREVIEW_WIDTH = 420;
+const PREVIEW_MAX_HEIGHT = 360;
+const GAP = 6;
+
+interface NotePreview {
+  html: string;
+  tags: string[];
+  mtimeMs: number | null;
+  sectionMissing: boolean;  // The heading / block was not found, so the whole note is shown
+}
+
+// [[Note#Heading]] names the heading as written, ./note.md#heading usually as a slug
+const findLinkedSection = (content: string, target: WikilinkTarget) => {
+  const section = findSection(content, target);
+  if (section || !target.heading) return section;
+  return findSection(content, { ...target, heading: target.heading.replace(/-/g, ' ') });
+};
+
+interface LinkHoverPreviewProps {
+  link: HoveredLink;
+  onMouseEnter: () => void;
+  onMouseLeave: () => void;
+}
+
+/**
+ * Floating, scrollable rendering of the note (or section) a hovered link points to
+ */
+export const LinkHoverPreview = observer(function LinkHoverPreview({ link, onMouseEnter, onMouseLeave }: LinkHoverPreviewProps) {
+  const { fileStore, tagStore, uiStore } = useStore();
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const [preview, setPreview] = useState<NotePreview | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  const { path, target: { note, heading, blockId } } = link;
+  const revision = fileStore.getFileRevision(path);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPreview(null);
+    setFailed(false);
+
+    (async () => {
+      const result = await fileStore.readNote(path);
+      if (cancelled) return;
+      if (!result) {
+        setFailed(true);
+        return;
+      }
+
+      let body = stripFrontmatter(result.content);
+      let sectionMissing = false;
+      if (heading || blockId) {
+        const section = findLinkedSection(result.content, { note, heading, blockId });
+        if (section) body = section.text;
+        else sectionMissing = true;
+      }
+
+      // Images are relative to the previewed note, not to the one being edited
+      const expanded = await fileStore.expandEmbeds(rebaseImages(body, getParentPath(path)), path);
+      if (cancelled) return;
+      setPreview({
+        html: renderWikilinks(marked.parse(expanded.content, { async: false }) as string),
+        tags: parseTags(result.content),
+        mtimeMs: result.mtimeMs,
+        sectionMissing
+      });
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path, note, heading, blockId, revision, fileStore]);
+
+  useEffect(() => {
+    bodyRef.current?.querySelectorAll('pre code').forEach((block) => {
+      hljs.highlightElement(block as HTMLElement);
+    });
+  }, [preview]);
+
+  // Below the link, or above it when there is not enough room
+  const { rect } = link;
+  const placeAbove = rect.bottom + GAP + PREVIEW_MAX_HEIGHT > window.innerHeight && rect.top > window.innerHeight - rect.bottom;
+  const style = {
+    width: PREVIEW_WIDTH,
+    maxHeight: PREVIEW_MAX_HEIGHT,
+    left: Math.max(GAP, Math.min(rect.left, window.innerWidth - PREVIEW_WIDTH - GAP)),
+    top: placeAbove ? undefined : rect.bottom + GAP,
+    bottom: placeAbove ? window.innerHeight - rect.top + GAP : undefined,
+    '--md-primary-color': uiStore.themeColor,
+    '--md-primary-bg-color': `${uiStore.themeColor}15`
+  } as React.CSSProperties;
+
+  const subpath = heading || (blockId ? `^${blockId}` : '');
+  const title = getBaseName(path).replace(/\.md$/, '') + (subpath ? ` › ${subpath}` : '');
+
+  return createPortal(
+    <div
+      className="fixed z-50 flex flex-col bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl overflow-hidden animate-in fade-in duration-150"
+      style={style}
+      onMouseEnter={onMouseEnter}
+      onMouseLeave={onMouseLeave}
+    >
+      <div className="px-3 py-2 border-b border-gray-100 dark:border-gray-700 shrink-0">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-800 dark:text-gray-100">
+          <FileText size={14} className="shrink-0 text-gray-400" />
+          <button onClick={() => fileStore.openFileByPath(path)} className="truncate hover:text-primary" title="打开笔记">
+            {title}
+          </button>
+          {preview?.mtimeMs && (
+            <span className="ml-auto pl-2 text-xs font-normal text-gray-400 shrink-0">
+              {new Date(preview.mtimeMs).toLocaleString('zh-CN', { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' })}
+            </span>
+          )}
+        </div>
+        {preview && preview.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-1.5">
+            {preview.tags.map(tag => {
+              const color = tagStore.getTagColor(tag);
+              return (
+                <span key={tag} className="px-1.5 py-0.5 text-xs rounded-full" style={{ backgroundColor: `${color}20`, color }}>
+                  #{tag}
+                </span>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar px-4 py-3">
+        {failed ? (
+          <div className="text-xs text-gray-400">无法读取笔记</div>
+        ) : !preview ? (
+          <div className="flex items-center text-xs text-gray-400">
+            <Loader2 size={14} className="animate-spin mr-2" />
+            加载中...
+          </div>
+        ) : (
+          <>
+            {preview.sectionMissing && (
+              <div className="mb-2 text-xs text-amber-600 dark:text-amber-400">
+                未找到{heading ? `标题「${heading}」` : `块「^${blockId}」`}，显示整篇笔记
+              </div>
+            )}
+            {preview.html.trim() ? (
+              <div
+                ref={bodyRef}
+                className="prose prose-sm dark:prose-invert max-w-none"
+                dangerouslySetInnerHTML={{ __html: preview.html }}
+              />
+            ) : (
+              <div className="text-xs text-gray-400">空白笔记</div>
+            )}
+          </>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+});
@@ -1,17 +1,24 @@
 import { marked } from 'marked';
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { memo } from 'react';
 import mermaid from 'mermaid';
 import hljs from 'highlight.js';
 import 'highlight.js/styles/github-dark.css';
 import { observer } from 'mobx-react-lite';
 import { useStore } from '../../store';
-import type { Wikilink } from '../../store/BacklinkStore';
+import { normalizeHeading, renderWikilinks, BLOCK_ID_REGEX } from '../../utils/wikilink';
+import type { ExpandedContent } from '../../utils/embed';
+import { useLinkHoverPreview } from './useLinkHoverPreview';
+import { bindTaskCheckboxes } from './previewTasks';
+import { injectMarkdownExtensionStyles, registerMarkdownExtensions } from '../../utils/markdownExtensions';
+import { LinkHoverPreview } from './LinkHoverPreview';
 
 marked.use({
   breaks: true,
   gfm: true,
 });
+registerMarkdownExtensions();
+injectMarkdownExtensionStyles();
 
 const renderer = new marked.Renderer();
 
@@ -66,32 +73,11 @@ export const setWikilinkClickHandler = (handler: ((event: MouseEvent, target: st
   handleWikilinkClick = handler;
 };
 
-// Parse wikilinks from content
-export const parseWikilinks = (content: string): Wikilink[] => {
-  const links: Wikilink[] = [];
-  const regex = /\[\[([^\]]+)(?:\|([^\]]+))?\]\]/g;
-  let match;
-
-  while ((match = regex.exec(content)) !== null) {
-    const fullMatch = match[0];
-    const target = match[1];
-    const alias = match[2];
-
-    if (!fullMatch.startsWith('\\')) {
-      links.push({
-        target,
-        alias,
-        position: { start: match.index, end: match.index + fullMatch.length }
-      });
-    }
-  }
-
-  return links;
-};
-
 export const Preview = memo(observer(function Preview({ content }: { content: string }) {
   const { uiStore, fileStore, backlinkStore } = useStore();
   const ref = useRef<HTMLDivElement>(null);
+  // Hovering a link shows the note it points to
+  const linkHover = useLinkHoverPreview(ref);
 
   // Check if current file is JSON or TEXT
   const getFileType = () => {
@@ -103,23 +89,32 @@ export const Preview = memo(observer(function Preview({ content }: { content: st
   };
 
   const fileType = getFileType();
+  const filePath = fileStore.currentFile?.path;
 
-  // Update backlinks when content changes
-  useEffect(() => {
-    if (fileType === 'markdown' && fileStore.currentFile) {
-      const fileName = fileStore.currentFile.name.replace('.md', '');
+  // Content with its ![[...]] embeds expanded, rebuilt when the note or an embedded note changes
+  const [expanded, setExpanded] = useState<(ExpandedContent & { source: string }) | null>(null);
+  const embedRevision = expanded?.paths.map(path => fileStore.getFileRevision(path)).join(',') ?? '';
+  const hasEmbeds = fileType === 'markdown' && content.includes('![[');
 
-      // Get old links to remove
-      const oldLinks = backlinkStore.getLinks(fileName);
+  useEffect(() => {
+    if (!hasEmbeds || !filePath) {
+      setExpanded(null);
+      return;
+    }
 
-      // Parse new links
-      const newLinks = backlinkStore.extractLinksFromFile(fileName, content);
+    let cancelled = false;
+    fileStore.expandEmbeds(content, filePath).then(result => {
+      if (!cancelled) setExpanded({ ...result, source: content });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [content, hasEmbeds, filePath, embedRevision, fileStore]);
 
-      // Update backlink index
-      if (oldLinks.length > 0) {
-        backlinkStore.removeBacklinks(fileStore.currentFile.path, oldLinks);
-      }
-      backlinkStore.addBacklinks(fileStore.currentFile.path, newLinks);
+  // Update backlinks when content changes
+  useEffect(() => {
+    if (fileType === 'markdown' && fileStore.currentFile) {
+      backlinkStore.updateFileLinks(fileStore.currentFile.path, content);
     }
   }, [content, fileType, fileStore.currentFile, backlinkStore]);
 
@@ -150,7 +145,10 @@ export const Preview = memo(observer(function Preview({ content }: { content: st
       return;
     }
 
-    // Handle Markdown files
+    // Handle Markdown files; with embeds, wait until they are expanded instead of flashing the raw ![[...]]
+    if (hasEmbeds && expanded?.source !== content) return;
+    const markdown = hasEmbeds && expanded ? expanded.content : content;
+
     const customRenderer = new marked.Renderer();
 
     // Preserve existing link renderer logic
@@ -213,21 +211,36 @@ export const Preview = memo(observer(function Preview({ content }: { content: st
 
     if (ref.current) {
       // 1. Markdown Parsing
-      const html = marked.parse(content || '', { async: false }) as string;
+      const html = marked.parse(markdown || '', { async: false }) as string;
 
       // 2. Post-process HTML to replace wikilinks with clickable spans
-      const processedHtml = html.replace(
-        /\[\[([^\]]+)(?:\|([^\]]+))?\]\]/g,
-        (match: string, target: string, alias: string) => {
-          // Skip escaped links
-          if (match.startsWith('\\')) return match.substring(1);
-          const displayText = alias || target;
-          return `<span class="wikilink" data-wikilink="${target}" style="color: var(--md-primary-color, #0969da); cursor: pointer; font-weight: 500; background: var(--md-primary-bg-color, rgba(9, 105, 218, 0.1)); padding: 0 2px; border-radius: 3px;">${displayText}</span>`;
-        }
-      );
+      const processedHtml = renderWikilinks(html);
 
       ref.current.innerHTML = processedHtml;
 
+      // Anchors for [[Note#Heading]] / [[Note#^block]] links; the "^id" marker itself is hidden
+      ref.current.querySelectorAll<HTMLElement>('h1, h2, h3, h4, h5, h6').forEach((heading) => {
+        heading.dataset.heading = normalizeHeading(heading.textContent || '');
+      });
+      const walker = document.createTreeWalker(ref.current, NodeFilter.SHOW_TEXT);
+      const blockMarkers: Text[] = [];
+      while (walker.nextNode()) {
+        const textNode = walker.currentNode as Text;
+        // The marker ends its line: nothing but a line break or a nested list may follow
+        const next = textNode.nextSibling?.nodeName;
+        const endsLine = !next || next === 'BR' || next === 'UL' || next === 'OL';
+        if (endsLine && BLOCK_ID_REGEX.test(textNode.data) && !textNode.parentElement?.closest('pre, code')) {
+          blockMarkers.push(textNode);
+        }
+      }
+      blockMarkers.forEach((textNode) => {
+        const match = textNode.data.match(BLOCK_ID_REGEX);
+        const block = textNode.parentElement?.closest<HTMLElement>('p, li, td, blockquote') || textNode.parentElement;
+        if (!match || !block) return;
+        textNode.data = textNode.data.slice(0, match.index);
+        block.dataset.blockId = match[1];
+      });
+
       // 3. Syntax Highlighting
       ref.current.querySelectorAll('pre code').forEach((block) => {
         hljs.highlightElement(block as HTMLElement);
@@ -244,6 +257,28 @@ export const Preview = memo(observer(function Preview({ content }: { content: st
         });
       });
 
+      // Embed titles open the embedded note
+      ref.current.querySelectorAll<HTMLElement>('.markdown-embed-title').forEach((titleEl) => {
+        titleEl.addEventListener('click', (e) => {
+          const target = titleEl.parentElement?.dataset.embed;
+          if (target && handleWikilinkClick) {
+            handleWikilinkClick(e as MouseEvent, target);
+          }
+        });
+      });
+
+      // Footnote references and back-references scroll within the preview
+      ref.current.querySelectorAll<HTMLAnchorElement>('.footnote-ref a, .footnote-backref').forEach((anchor) => {
+        anchor.addEventListener('click', (e) => {
+          e.preventDefault();
+          const target = ref.current?.querySelector(anchor.getAttribute('href') || '');
+          target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        });
+      });
+
+      // Task list checkboxes tick the task off in the note
+      bindTaskCheckboxes(ref.current, content);
+
       // 4. Mermaid Rendering
       const mermaidBlocks = ref.current.querySelectorAll('code.language-mermaid');
       const mermaidDivs: HTMLElement[] = [];
@@ -281,7 +316,7 @@ export const Preview = memo(observer(function Preview({ content }: { content: st
         });
       }
     }
-  }, [content, fileType]);
+  }, [content, fileType, hasEmbeds, expanded]);
 
   const getThemeClass = () => {
     if (!uiStore.markdownTheme || uiStore.markdownTheme === 'default') {
@@ -293,13 +328,19 @@ export const Preview = memo(observer(function Preview({ content }: { content: st
   const themeStyles = {
     '--md-primary-color': uiStore.themeColor,
     '--md-primary-bg-color': `${uiStore.themeColor}15`, // 15 is hex alpha ~8%
+    counterReset: 'katexEqnNo mmlEqnNo', // Equation numbers start over in every note
   } as React.CSSProperties;
 
   return (
-    <div 
-      className={getThemeClass()} 
-      style={themeStyles}
-      ref={ref} 
-    />
+    <>
+      <div 
+        className={getThemeClass()} 
+        style={themeStyles}
+        ref={ref} 
+      />
+      {linkHover.link && (
+        <LinkHoverPreview link={linkHover.link} onMouseEnter={linkHover.keepOpen} onMouseLeave={linkHover.release} />
+      )}
+    </>
   );
 }));
@@ -0,0 +1,49 @@
+import { useEffect, useRef } from 'react';
+import { cn } from '../../utils/cn';
+import type { SlashCommand } from './slashCommands';
+import type { SlashMenuState } from './useSlashMenu';
+
+interface SlashMenuListProps {
+  state: SlashMenuState;
+  onSelect: (item: SlashCommand) => void;
+}
+
+export const SlashMenuList = ({ state, onSelect }: SlashMenuListProps) => {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the item chosen with the arrow keys in view
+  useEffect(() => {
+    listRef.current?.children[state.selectedIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [state.selectedIndex]);
+
+  return (
+    <div
+      ref={listRef}
+      className="absolute z-20 w-72 max-h-72 overflow-y-auto custom-scrollbar bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg py-1"
+      style={{ top: state.top, left: state.left }}
+    >
+      {state.items.map((item, index) => (
+        <button
+          key={item.id}
+          // Keep focus (and the cursor) in the editor
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(item);
+          }}
+          className={cn(
+            'w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left transition-colors',
+            index === state.selectedIndex
+              ? 'bg-primary/10 text-primary'
+              : 'text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'
+          )}
+        >
+          <item.icon size={14} className="shrink-0 text-gray-400" />
+          <span className="truncate">{item.label}</span>
+          {item.detail && (
+            <span className="ml-auto pl-2 text-xs text-gray-400 truncate max-w-[45%] shrink-0">{item.detail}</span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import {
+  ArrowDown, ArrowLeft, ArrowRight, ArrowUp, BetweenHorizontalEnd, BetweenHorizontalStart, BetweenVerticalEnd,
+  BetweenVerticalStart, TextAlignCenter, TextAlignEnd, TextAlignStart, Trash2, type LucideIcon
+} from 'lucide-react';
+import { Fragment } from 'react';
+import {
+  insertColumn, insertRow, moveColumn, moveRow, removeColumn, removeRow, setColumnAlignment, type ColumnAlignment
+} from '../../utils/markdownTable';
+import { cn } from '../../utils/cn';
+import type { TableOperation, TableToolbarState } from './useTableToolbar';
+
+interface TableAction {
+  icon: LucideIcon;
+  label: string;
+  operation: TableOperation;
+  isDisabled?: (state: TableToolbarState) => boolean;
+  isActive?: (state: TableToolbarState) => boolean;
+}
+
+const alignAction = (icon: LucideIcon, label: string, alignment: ColumnAlignment): TableAction => ({
+  icon,
+  label,
+  // Clicking the current alignment again goes back to the default
+  operation: (table, row, column) => ({
+    table: setColumnAlignment(table, column, table.alignments[column] === alignment ? null : alignment),
+    row,
+    column
+  }),
+  isActive: state => state.alignment === alignment
+});
+
+const ACTION_GROUPS: TableAction[][] = [
+  [
+    {
+      icon: BetweenHorizontalStart,
+      label: '在上方插入行',
+      operation: (table, row, column) => ({ table: insertRow(table, row), row, column }),
+      isDisabled: state => state.row === 0
+    },
+    {
+      icon: BetweenHorizontalEnd,
+      label: '在下方插入行',
+      operation: (table, row, column) => ({ table: insertRow(table, row + 1), row: row + 1, column })
+    },
+    {
+      icon: ArrowUp,
+      label: '上移行',
+      operation: (table, row, column) => ({ table: moveRow(table, row, -1), row: row - 1, column }),
+      isDisabled: state => state.row <= 1
+    },
+    {
+      icon: ArrowDown,
+      label: '下移行',
+      operation: (table, row, column) => ({ table: moveRow(table, row, 1), row: row + 1, column }),
+      isDisabled: state => state.row === 0 || state.row === state.rowCount - 1
+    },
+    {
+      icon: Trash2,
+      label: '删除行',
+      operation: (table, row, column) => ({ table: removeRow(table, row), row: Math.min(row, table.rows.length - 2), column }),
+      isDisabled: state => state.row === 0
+    }
+  ],
+  [
+    {
+      icon: BetweenVerticalStart,
+      label: '在左侧插入列',
+      operation: (table, row, column) => ({ table: insertColumn(table, column), row, column })
+    },
+    {
+      icon: BetweenVerticalEnd,
+      label: '在右侧插入列',
+      operation: (table, row, column) => ({ table: insertColumn(table, column + 1), row, column: column + 1 })
+    },
+    {
+      icon: ArrowLeft,
+      label: '左移列',
+      operation: (table, row, column) => ({ table: moveColumn(table, column, -1), row, column: column - 1 }),
+      isDisabled: state => state.column === 0
+    },
+    {
+      icon: ArrowRight,
+      label: '右移列',
+      operation: (table, row, column) => ({ table: moveColumn(table, column, 1), row, column: column + 1 }),
+      isDisabled: state => state.column === state.columnCount - 1
+    },
+    {
+      icon: Trash2,
+      label: '删除列',
+      operation: (table, row, column) => ({ table: removeColumn(table, column), row, column: Math.min(column, table.alignments.length - 2) }),
+      isDisabled: state => state.columnCount === 1
+    }
+  ],
+  [
+    alignAction(TextAlignStart, '左对齐', 'left'),
+    alignAction(TextAlignCenter, '居中', 'center'),
+    alignAction(TextAlignEnd, '右对齐', 'right')
+  ]
+];
+
+interface TableToolbarProps {
+  state: TableToolbarState;
+  onApply: (operation: TableOperation) => void;
+}
+
+/**
+ * Row / column / alignment controls over the table the cursor is in
+ */
+export const TableToolbar = ({ state, onApply }: TableToolbarProps) => (
+  <div
+    className="absolute z-10 flex items-center gap-0.5 p-0.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-md"
+    style={{ top: state.top, left: state.left }}
+  >
+    {ACTION_GROUPS.map((actions, groupIndex) => (
+      <Fragment key={groupIndex}>
+        {groupIndex > 0 && <div className="w-px h-4 bg-gray-200 dark:bg-gray-700 mx-0.5" />}
+        {actions.map(action => {
+          const isDisabled = action.isDisabled?.(state) ?? false;
+          return (
+            <button
+              key={action.label}
+              disabled={isDisabled}
+              // Keep focus (and the cursor) in the editor
+              onMouseDown={(e) => {
+                e.preventDefault();
+                if (!isDisabled) onApply(action.operation);
+              }}
+              className={cn(
+                'p-1 rounded transition-colors disabled:opacity-30 disabled:cursor-default',
+                action.isActive?.(state)
+                  ? 'bg-primary/10 text-primary'
+                  : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:hover:bg-transparent'
+              )}
+              title={action.label}
+            >
+              <action.icon size={14} />
+            </button>
+          );
+        })}
+      </Fragment>
+    ))}
+  </div>
+);
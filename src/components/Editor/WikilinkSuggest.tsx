@@ -0,0 +1,43 @@
+import { FilePlus, FileText, Hash, Link2, Quote } from 'lucide-react';
+import { cn } from '../../utils/cn';
+import type { SuggestState, WikilinkSuggestion } from './useWikilinkSuggest';
+
+interface WikilinkSuggestListProps {
+  state: SuggestState;
+  onSelect: (item: WikilinkSuggestion) => void;
+}
+
+export const WikilinkSuggestList = ({ state, onSelect }: WikilinkSuggestListProps) => (
+  <div
+    className="absolute z-20 w-72 max-h-64 overflow-y-auto custom-scrollbar bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg py-1"
+    style={{ top: state.top, left: state.left }}
+  >
+    {state.items.map((item, index) => (
+      <button
+        key={`${item.kind}-${item.insert}-${index}`}
+        // Keep focus (and the cursor) in the textarea
+        onMouseDown={(e) => {
+          e.preventDefault();
+          onSelect(item);
+        }}
+        className={cn(
+          'w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left transition-colors',
+          index === state.selectedIndex
+            ? 'bg-primary/10 text-primary'
+            : 'text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'
+        )}
+        style={item.level ? { paddingLeft: `${12 + (item.level - 1) * 10}px` } : undefined}
+      >
+        {item.kind === 'note' && <FileText size={14} className="shrink-0 text-gray-400" />}
+        {item.kind === 'alias' && <Link2 size={14} className="shrink-0 text-gray-400" />}
+        {item.kind === 'heading' && <Hash size={14} className="shrink-0 text-gray-400" />}
+        {item.kind === 'block' && <Quote size={14} className="shrink-0 text-gray-400" />}
+        {item.kind === 'create' && <FilePlus size={14} className="shrink-0 text-primary" />}
+        <span className="truncate">{item.label}</span>
+        {item.detail && (
+          <span className="ml-auto pl-2 text-xs text-gray-400 truncate max-w-[50%] shrink-0">{item.detail}</span>
+        )}
+      </button>
+    ))}
+  </div>
+);
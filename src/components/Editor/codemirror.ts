@@ -0,0 +1,288 @@
+import { Annotation, Compartment, EditorSelection, EditorState, Facet, Prec, type Extension } from '@codemirror/state';
+import {
+  EditorView, ViewPlugin, crosshairCursor, drawSelection, dropCursor, highlightActiveLine, highlightSpecialChars,
+  keymap, placeholder, rectangularSelection, type KeyBinding, type Panel, type ViewUpdate
+} from '@codemirror/view';
+import { defaultKeymap, history, historyKeymap, indentWithTab } from '@codemirror/commands';
+import { HighlightStyle, bracketMatching, indentOnInput, syntaxHighlighting, syntaxTree } from '@codemirror/language';
+import { highlightSelectionMatches, search, searchKeymap, type SearchQuery } from '@codemirror/search';
+import { closeBrackets, closeBracketsKeymap, snippet } from '@codemirror/autocomplete';
+import { markdown, markdownLanguage } from '@codemirror/lang-markdown';
+import { yamlFrontmatter } from '@codemirror/lang-yaml';
+import { languages } from '@codemirror/language-data';
+import { tags } from '@lezer/highlight';
+import { Vim, getCM, vim } from '@replit/codemirror-vim';
+import { EmacsHandler, emacs } from '@replit/codemirror-emacs';
+import type { EditorKeymap } from '../../types';
+import { tableEditing } from './tableEditing';
+
+// Pairs closed automatically while typing markdown ("'" is left out, it is mostly an apostrophe)
+const MARKDOWN_PAIRS = ['(', '[', '{', '"', '`', '*', '_', '~'];
+// Counting stops here, so huge notes with a common query stay responsive
+const MAX_COUNTED_MATCHES = 9999;
+// Syntax nodes whose text is not markdown prose
+const CODE_NODES = new Set(['FencedCode', 'CodeBlock', 'Frontmatter']);
+// Editor bindings that would shadow app shortcuts (Mod-/: shortcut list, Mod-d: schedule, Mod-g: graph)
+const APP_RESERVED_KEYS = ['Mod-/', 'Mod-d', 'Mod-g'];
+
+/**
+ * Marks transactions that bring in content changed outside of the editor
+ * (reloads from disk, link rewrites, ...), which are not reported back as edits
+ */
+export const externalChange = Annotation.define<boolean>();
+
+export interface EditorEventHandlers {
+  onChange: (content: string) => void;
+  onUpdate?: (update: ViewUpdate) => void;
+  // Run before the editor's own key bindings; returning true consumes the event
+  onKeyDown?: (event: KeyboardEvent, view: EditorView) => boolean;
+  onPaste?: (event: ClipboardEvent, view: EditorView) => boolean;
+  onScroll?: (view: EditorView) => void;
+  onBlur?: (view: EditorView) => void;
+  // Vim's :w and Emacs' C-x C-s
+  onSave?: () => void;
+  // The find / replace bar was opened (to be rendered into panel) or closed (null)
+  onFindPanel?: (panel: HTMLElement | null, view: EditorView) => void;
+}
+
+const saveCommand = Facet.define<() => void>();
+const runSave = (view: EditorView) => view.state.facet(saveCommand).forEach(save => save());
+
+Vim.defineEx('write', 'w', cm => runSave(cm.cm6));
+EmacsHandler.bindKey('C-x C-s', runSave);
+
+const emacsExtension = emacs();
+// Holds the Emacs key chain state (C-x ..., C-u 4 ...)
+const emacsPlugin = (emacsExtension as Extension[])
+  .find(extension => extension instanceof ViewPlugin) as ViewPlugin<{ em: EmacsHandler }> | undefined;
+
+// Vim / Emacs bindings, switched without rebuilding the editor state
+const keymapCompartment = new Compartment();
+
+const keymapExtension = (mode: EditorKeymap): Extension => {
+  if (mode === 'vim') return vim({ status: true });
+  if (mode === 'emacs') return emacsExtension;
+  return [];
+};
+
+const markdownHighlightStyle = HighlightStyle.define([
+  { tag: tags.heading1, fontSize: '1.5em', fontWeight: 'bold' },
+  { tag: tags.heading2, fontSize: '1.3em', fontWeight: 'bold' },
+  { tag: tags.heading3, fontSize: '1.15em', fontWeight: 'bold' },
+  { tag: [tags.heading4, tags.heading5, tags.heading6], fontWeight: 'bold' },
+  { tag: tags.strong, fontWeight: 'bold' },
+  { tag: tags.emphasis, fontStyle: 'italic' },
+  { tag: tags.strikethrough, textDecoration: 'line-through' },
+  { tag: tags.link, color: 'var(--color-primary)' },
+  { tag: tags.url, color: 'var(--cm-muted)', textDecoration: 'underline' },
+  { tag: tags.monospace, color: 'var(--cm-code)' },
+  { tag: tags.quote, color: 'var(--cm-muted)', fontStyle: 'italic' },
+  // Markup characters: # * > - ``` and the frontmatter fences
+  { tag: [tags.processingInstruction, tags.contentSeparator, tags.meta], color: 'var(--cm-muted)' },
+  // Fenced code and frontmatter
+  { tag: [tags.keyword, tags.operatorKeyword, tags.modifier], color: 'var(--cm-keyword)' },
+  { tag: [tags.string, tags.special(tags.string), tags.regexp], color: 'var(--cm-string)' },
+  { tag: [tags.number, tags.bool, tags.null, tags.atom], color: 'var(--cm-number)' },
+  { tag: [tags.comment, tags.lineComment, tags.blockComment], color: 'var(--cm-muted)', fontStyle: 'italic' },
+  { tag: [tags.typeName, tags.className, tags.tagName], color: 'var(--cm-type)' },
+  { tag: [tags.propertyName, tags.attributeName, tags.definition(tags.variableName)], color: 'var(--cm-property)' },
+  { tag: tags.invalid, color: 'var(--cm-invalid)' }
+]);
+
+const editorTheme = EditorView.theme({
+  '&': { height: '100%', backgroundColor: 'transparent', fontSize: '1rem' },
+  '&.cm-focused': { outline: 'none' },
+  '.cm-scroller': {
+    fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace',
+    lineHeight: '1.625'
+  },
+  '.cm-content': { padding: 'var(--cm-padding) 0', caretColor: 'currentColor' },
+  '.cm-line': { padding: '0 var(--cm-padding)' },
+  '.cm-cursor, .cm-dropCursor': { borderLeftColor: 'currentColor' },
+  '&.cm-focused > .cm-scroller > .cm-selectionLayer .cm-selectionBackground, .cm-selectionBackground, .cm-content ::selection': {
+    backgroundColor: 'var(--cm-selection)'
+  },
+  '.cm-activeLine': { backgroundColor: 'var(--cm-active-line)' },
+  '.cm-selectionMatch': { backgroundColor: 'var(--cm-selection-match)' },
+  '.cm-searchMatch': { backgroundColor: 'var(--cm-search-match)', borderRadius: '2px' },
+  '.cm-searchMatch.cm-searchMatch-selected': { backgroundColor: 'var(--cm-search-match-selected)' },
+  '&.cm-focused .cm-matchingBracket': { backgroundColor: 'var(--cm-selection-match)' },
+  '.cm-placeholder': { color: 'var(--cm-muted)' },
+  '.cm-panels': { backgroundColor: 'var(--bg-app)', color: 'inherit' },
+  '.cm-panels.cm-panels-top': { borderBottom: '1px solid var(--border-color)' }
+});
+
+// Empty panel of the search extension; the find / replace bar is rendered into it from React
+const createFindPanel = (view: EditorView, getHandlers: () => EditorEventHandlers): Panel => {
+  const dom = document.createElement('div');
+  return {
+    dom,
+    top: true,
+    mount: () => getHandlers().onFindPanel?.(dom, view),
+    destroy: () => getHandlers().onFindPanel?.(null, view)
+  };
+};
+
+const withoutAppShortcuts = (bindings: readonly KeyBinding[]) =>
+  bindings.filter(binding => !binding.key || !APP_RESERVED_KEYS.includes(binding.key));
+
+/**
+ * Extensions of the note editor: markdown highlighting (with fenced code and
+ * frontmatter), table editing, undo history, multi-cursor, auto-pairing and search
+ * @param getHandlers Returns the current handlers, so they can change without rebuilding the state
+ */
+export const createEditorExtensions = (
+  isMarkdown: boolean,
+  keymapMode: EditorKeymap,
+  getHandlers: () => EditorEventHandlers
+): Extension[] => [
+  // Vim / Emacs go first so their bindings win over the default ones
+  keymapCompartment.of(keymapExtension(keymapMode)),
+  saveCommand.of(() => getHandlers().onSave?.()),
+  highlightSpecialChars(),
+  history(),
+  drawSelection(),
+  dropCursor(),
+  EditorState.allowMultipleSelections.of(true),
+  indentOnInput(),
+  bracketMatching(),
+  closeBrackets(),
+  rectangularSelection(),
+  crosshairCursor(),
+  highlightActiveLine(),
+  highlightSelectionMatches(),
+  search({ top: true, createPanel: view => createFindPanel(view, getHandlers) }),
+  EditorView.lineWrapping,
+  placeholder('Start writing...'),
+  Prec.highest(EditorView.domEventHandlers({
+    keydown: (event, view) => getHandlers().onKeyDown?.(event, view) ?? false,
+    paste: (event, view) => getHandlers().onPaste?.(event, view) ?? false
+  })),
+  EditorView.domEventObservers({
+    scroll: (_event, view) => getHandlers().onScroll?.(view),
+    blur: (_event, view) => getHandlers().onBlur?.(view)
+  }),
+  keymap.of([
+    ...closeBracketsKeymap,
+    ...withoutAppShortcuts(defaultKeymap),
+    ...withoutAppShortcuts(searchKeymap),
+    ...historyKeymap,
+    indentWithTab
+  ]),
+  isMarkdown ? [
+    yamlFrontmatter({ content: markdown({ base: markdownLanguage, codeLanguages: languages }) }),
+    markdownLanguage.data.of({ closeBrackets: { brackets: MARKDOWN_PAIRS } }),
+    syntaxHighlighting(markdownHighlightStyle),
+    tableEditing()
+  ] : [],
+  editorTheme,
+  EditorView.updateListener.of(update => {
+    const handlers = getHandlers();
+    const isExternal = update.transactions.some(tr => tr.annotation(externalChange));
+    if (update.docChanged && !isExternal) handlers.onChange(update.state.doc.toString());
+    handlers.onUpdate?.(update);
+  })
+];
+
+/**
+ * Switch an editor to the default, Vim or Emacs key bindings
+ */
+export const setEditorKeymap = (view: EditorView, mode: EditorKeymap) => {
+  view.dispatch({ effects: keymapCompartment.reconfigure(keymapExtension(mode)) });
+};
+
+/**
+ * Whether the Vim / Emacs bindings are in the middle of a key sequence
+ * (an operator or count waiting for its motion, a register, a C-x prefix, ...)
+ */
+export const isKeySequencePending = (view: EditorView): boolean => {
+  const inputState = getCM(view)?.state.vim?.inputState;
+  if (inputState) {
+    return inputState.keyBuffer.length > 0 || !!inputState.operator
+      || inputState.prefixRepeat.length > 0 || !!inputState.registerName;
+  }
+  const emacsData = emacsPlugin && view.plugin(emacsPlugin)?.em.$data;
+  return !!emacsData && (!!emacsData.keyChain || !!emacsData.count);
+};
+
+/**
+ * Number of matches of a search query, and which of them (1-based) is selected
+ */
+export const getMatchInfo = (state: EditorState, query: SearchQuery) => {
+  const { from, to } = state.selection.main;
+  let count = 0;
+  let current: number | null = null;
+  if (query.valid) {
+    const cursor = query.getCursor(state);
+    for (let next = cursor.next(); !next.done && count < MAX_COUNTED_MATCHES; next = cursor.next()) {
+      count++;
+      if (next.value.from === from && next.value.to === to) current = count;
+    }
+  }
+  return { count, current, isCapped: count === MAX_COUNTED_MATCHES };
+};
+
+/**
+ * Replace the whole document, as a single change of the part that differs so
+ * the selection and the rest of the history survive
+ * @param isExternal The content comes from outside the editor and is not reported as an edit
+ */
+export const replaceDocument = (view: EditorView, content: string, isExternal: boolean = false) => {
+  const current = view.state.doc.toString();
+  if (current === content) return;
+
+  const maxLength = Math.min(current.length, content.length);
+  let start = 0;
+  while (start < maxLength && current.charCodeAt(start) === content.charCodeAt(start)) start++;
+  let end = 0;
+  while (end < maxLength - start
+    && current.charCodeAt(current.length - 1 - end) === content.charCodeAt(content.length - 1 - end)) end++;
+
+  view.dispatch({
+    changes: { from: start, to: current.length - end, insert: content.slice(start, content.length - end) },
+    annotations: isExternal ? [externalChange.of(true)] : [],
+    userEvent: isExternal ? undefined : 'input.format'
+  });
+};
+
+/**
+ * Put prefix / suffix around every selection, keeping the selected text selected
+ */
+export const wrapSelections = (view: EditorView, prefix: string, suffix: string) => {
+  view.dispatch({
+    ...view.state.changeByRange(range => ({
+      changes: [{ from: range.from, insert: prefix }, { from: range.to, insert: suffix }],
+      range: EditorSelection.range(range.from + prefix.length, range.to + prefix.length)
+    })),
+    scrollIntoView: true,
+    userEvent: 'input'
+  });
+  view.focus();
+};
+
+/**
+ * Replace every selection with text, leaving the cursor after it
+ */
+export const insertText = (view: EditorView, text: string) => {
+  view.dispatch({ ...view.state.replaceSelection(text), scrollIntoView: true, userEvent: 'input' });
+  view.focus();
+};
+
+/**
+ * Replace from - to with a template. ${1:name} / ${name} placeholders become tab stops
+ * (Tab / Shift-Tab move between them), ${0} is where the cursor ends up
+ */
+export const insertSnippet = (view: EditorView, template: string, from: number, to: number) => {
+  snippet(template)(view, null, from, to);
+  view.focus();
+};
+
+// Whether a position is inside a code block or the frontmatter
+export const isInCode = (state: EditorState, pos: number) => {
+  let node = syntaxTree(state).resolveInner(pos, -1);
+  while (!CODE_NODES.has(node.name)) {
+    if (!node.parent) return false;
+    node = node.parent;
+  }
+  return true;
+};
@@ -1,33 +1,40 @@
 import { observer } from 'mobx-react-lite';
 import { useStore } from '../../store';
 import { Preview, setWikilinkClickHandler } from './Preview';
+import { setTaskToggleHandler } from './previewTasks';
+import { useWikilinkSuggest } from './useWikilinkSuggest';
+import { useSlashMenu } from './useSlashMenu';
+import { useTableToolbar } from './useTableToolbar';
+import { useCodeMirror } from './useCodeMirror';
+import { insertText, isInCode, isKeySequencePending, replaceDocument, wrapSelections } from './codemirror';
+import { getTableContext, insertTable } from './tableEditing';
+import { WikilinkSuggestList } from './WikilinkSuggest';
+import { SlashMenuList } from './SlashMenu';
+import { TableToolbar } from './TableToolbar';
 import { EditorToolbar } from './EditorToolbar';
+import { FindReplaceBar } from './FindReplaceBar';
+import { clearPreviewMatch, revealPreviewMatch } from './previewMatch';
 import { TabBar } from '../TabBar';
 import { BacklinksPanel } from '../BacklinksPanel';
+import { OutlinePanel } from '../OutlinePanel';
+import { SnippetManager } from '../SnippetManager';
 import { useEffect, useRef, useState, useCallback } from 'react';
+import { createPortal } from 'react-dom';
 import * as prettier from "prettier/standalone";
 import * as prettierPluginMarkdown from "prettier/plugins/markdown";
-
-// 撤销/重做历史栈
-const MAX_HISTORY = 50;
-
-interface HistoryState {
-  content: string;
-  cursorStart: number;
-  cursorEnd: number;
-}
+import { EditorView } from '@codemirror/view';
+import type { EditorState } from '@codemirror/state';
+import { getSearchQuery, openSearchPanel } from '@codemirror/search';
+import { parseWikilinkTarget, findSection, findPreviewAnchor, normalizeHeading, type WikilinkTarget } from '../../utils/wikilink';
+import type { OutlineItem } from '../../utils/outline';
+import { detectDelimitedTable, tableFromCells } from '../../utils/markdownTable';
+import { setTaskChecked } from '../../utils/taskList';
 
 export const Editor = observer(() => {
-  const { fileStore, uiStore, backlinkStore, keyboardShortcutStore, tagStore } = useStore();
+  const { fileStore, uiStore, backlinkStore, keyboardShortcutStore, tagStore, toastStore } = useStore();
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
   const previewRef = useRef<HTMLDivElement>(null);
 
-  // 撤销/重做状态
-  const historyRef = useRef<HistoryState[]>([]);
-  const historyIndexRef = useRef<number>(-1);
-  const isUndoRedoRef = useRef(false);
-
   // Split Pane State
   const [splitRatio, setSplitRatio] = useState(50); // percentage
   const isResizing = useRef(false);
@@ -35,6 +42,17 @@ export const Editor = observer(() => {
   // Sync Scroll State
   const isScrolling = useRef(false);
 
+  // Heading / block a clicked wikilink points to, scrolled to once the target note is rendered
+  const [pendingAnchor, setPendingAnchor] = useState<{ target: WikilinkTarget; requestedAt: number } | null>(null);
+
+  // Open find / replace bar: the editor panel it is rendered into, and the editor state it shows
+  const [find, setFind] = useState<{ panel: HTMLElement; view: EditorView; state: EditorState } | null>(null);
+
+  // Cursor line of the note, for the outline to highlight the section being edited
+  const [cursor, setCursor] = useState<{ fileId: string; line: number } | null>(null);
+
+  const [isSnippetManagerOpen, setIsSnippetManagerOpen] = useState(false);
+
   const triggerSave = useCallback(() => {
     if (saveTimeoutRef.current) {
       clearTimeout(saveTimeoutRef.current);
@@ -43,175 +61,113 @@ export const Editor = observer(() => {
     fileStore.saveCurrentFile(true);
   }, [fileStore]);
 
-  // 保存当前状态到历史记录
-  const saveToHistory = useCallback((content: string, cursorStart: number, cursorEnd: number) => {
-    const history = historyRef.current;
-    const index = historyIndexRef.current;
-
-    // 如果正在执行撤销/重做，不保存
-    if (isUndoRedoRef.current) return;
-
-    // 如果是新文件或没有历史，初始化
-    if (index === -1 || history.length === 0) {
-      historyRef.current = [{ content, cursorStart, cursorEnd }];
-      historyIndexRef.current = 0;
-      return;
-    }
-
-    // 如果在中间位置进行了编辑，清除后面的历史
-    if (index < history.length - 1) {
-      historyRef.current = history.slice(0, index + 1);
-    }
-
-    // 检查内容是否真的改变了
-    const lastState = history[index];
-    if (lastState && lastState.content === content) {
-      return;
-    }
-
-    // 添加新状态
-    history.push({ content, cursorStart, cursorEnd });
-
-    // 限制历史记录数量
-    if (history.length > MAX_HISTORY) {
-      history.shift();
-    } else {
-      historyIndexRef.current = index + 1;
+  // Debounced Auto Save
+  const scheduleSave = useCallback(() => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
     }
-  }, []);
-
-  // 撤销
-  const undo = useCallback(() => {
-    const history = historyRef.current;
-    const index = historyIndexRef.current;
-
-    if (index <= 0) return; // 没有更多历史可以撤销
-
-    const prevState = history[index - 1];
-    isUndoRedoRef.current = true;
-
-    fileStore.updateContent(prevState.content);
-    historyIndexRef.current = index - 1;
-
-    setTimeout(() => {
-      isUndoRedoRef.current = false;
-      // 恢复光标位置
-      if (textareaRef.current) {
-        textareaRef.current.focus();
-        textareaRef.current.setSelectionRange(prevState.cursorStart, prevState.cursorEnd);
-      }
-    }, 0);
+    saveTimeoutRef.current = setTimeout(() => {
+      fileStore.saveCurrentFile();
+    }, 1000);
   }, [fileStore]);
 
-  // 重做
-  const redo = useCallback(() => {
-    const history = historyRef.current;
-    const index = historyIndexRef.current;
-
-    if (index >= history.length - 1) return; // 没有更多历史可以重做
-
-    const nextState = history[index + 1];
-    isUndoRedoRef.current = true;
-
-    fileStore.updateContent(nextState.content);
-    historyIndexRef.current = index + 1;
-
-    setTimeout(() => {
-      isUndoRedoRef.current = false;
-      // 恢复光标位置
-      if (textareaRef.current) {
-        textareaRef.current.focus();
-        textareaRef.current.setSelectionRange(nextState.cursorStart, nextState.cursorEnd);
+  const { setParent: setEditorParent, viewRef } = useCodeMirror({
+    onChange: (content) => {
+      fileStore.updateContent(content);
+      scheduleSave();
+    },
+    onUpdate: (update) => {
+      // Typing opens / refines the wikilink suggestions and the slash menu, anything else that moves the cursor closes them
+      const isTyping = update.transactions.some(tr => tr.isUserEvent('input.type') || tr.isUserEvent('delete'));
+      if (isTyping) {
+        wikilinkSuggest.update();
+        slashMenu.update();
+      } else if (update.selectionSet || update.docChanged) {
+        wikilinkSuggest.close();
+        slashMenu.close();
       }
-    }, 0);
-  }, [fileStore]);
-
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Cmd/Ctrl + Z 撤销
-      if ((e.metaKey || e.ctrlKey) && e.key === 'z' && !e.shiftKey) {
-        e.preventDefault();
-        undo();
-        return;
+      if (update.selectionSet || update.docChanged || update.geometryChanged) tableToolbar.update();
+      setFind(current => current && { ...current, state: update.state });
+      const fileId = fileStore.currentFile?.id;
+      if (uiStore.isOutlineOpen && fileId && (update.selectionSet || update.docChanged)) {
+        const { doc, selection } = update.state;
+        setCursor({ fileId, line: doc.lineAt(selection.main.head).number - 1 });
       }
+    },
+    onKeyDown: (e, view) => {
+      // Keys finishing a Vim / Emacs sequence (the 'w' of "dw", C-s after C-x) are not app shortcuts
+      if (isKeySequencePending(view)) keyboardShortcutStore.markEditorSequenceKey(e);
+      return slashMenu.handleKeyDown(e) || wikilinkSuggest.handleKeyDown(e);
+    },
+    onPaste: (e, view) => handlePaste(e, view),
+    onScroll: (view) => handleScroll(view),
+    onBlur: () => {
+      wikilinkSuggest.close();
+      slashMenu.close();
+      tableToolbar.close();
+    },
+    onSave: () => triggerSave(),
+    onFindPanel: (panel, view) => {
+      setFind(panel && { panel, view, state: view.state });
+      if (!panel) clearPreviewMatch();
+    }
+  });
 
-      // Cmd/Ctrl + Shift + Z 或 Cmd/Ctrl + Y 重做
-      if ((e.metaKey || e.ctrlKey) && (e.key === 'Z' && e.shiftKey || e.key === 'y')) {
-        e.preventDefault();
-        redo();
-        return;
-      }
+  const wikilinkSuggest = useWikilinkSuggest(viewRef);
+  const slashMenu = useSlashMenu(viewRef, () => setIsSnippetManagerOpen(true));
+  const tableToolbar = useTableToolbar(viewRef);
 
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
       // Check for save shortcut (customizable)
       if (keyboardShortcutStore.matchesShortcut('save', e)) {
         e.preventDefault();
         triggerSave();
       }
+      // The editor handles it itself while focused
+      if (keyboardShortcutStore.matchesShortcut('find', e) && viewRef.current) {
+        e.preventDefault();
+        openSearchPanel(viewRef.current);
+      }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [triggerSave, keyboardShortcutStore, undo, redo]);
-
-  // 初始化历史记录 - 文件切换时重置历史栈
-  useEffect(() => {
-    if (fileStore.currentFile) {
-      // 重置历史记录
-      historyRef.current = [];
-      historyIndexRef.current = -1;
-
-      // 保存初始状态
-      const content = fileStore.currentContent;
-      const textarea = textareaRef.current;
-      const cursorStart = textarea?.selectionStart || 0;
-      const cursorEnd = textarea?.selectionEnd || 0;
-
-      historyRef.current = [{ content, cursorStart, cursorEnd }];
-      historyIndexRef.current = 0;
-    }
-  }, [fileStore.currentFile?.id]);
-
-  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const textarea = e.target;
-    const content = textarea.value;
-    const cursorStart = textarea.selectionStart;
-    const cursorEnd = textarea.selectionEnd;
-
-    fileStore.updateContent(content);
-
-    // 保存到历史记录（使用 requestAnimationFrame 避免频繁触发）
-    requestAnimationFrame(() => {
-      saveToHistory(content, cursorStart, cursorEnd);
-    });
-
-    // Debounced Auto Save
-    if (saveTimeoutRef.current) {
-      clearTimeout(saveTimeoutRef.current);
-    }
-
-    saveTimeoutRef.current = setTimeout(() => {
-      fileStore.saveCurrentFile();
-    }, 1000);
-  };
+  }, [triggerSave, keyboardShortcutStore, viewRef]);
 
   // Sync Scroll Handler
-  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+  const handleScroll = (view: EditorView) => {
+    wikilinkSuggest.close();
+    slashMenu.close();
+    tableToolbar.update();
     if (!previewRef.current || isScrolling.current) return;
 
-    const textarea = e.currentTarget;
-    const percentage = textarea.scrollTop / (textarea.scrollHeight - textarea.clientHeight);
+    const scroller = view.scrollDOM;
+    const percentage = scroller.scrollTop / (scroller.scrollHeight - scroller.clientHeight);
     const preview = previewRef.current;
     
     preview.scrollTop = percentage * (preview.scrollHeight - preview.clientHeight);
   };
 
+  // Show the match the find bar moved to in the preview too (the editor scrolls to it by itself)
+  const revealMatch = (view: EditorView, from: number, to: number) => {
+    if (!previewRef.current) return;
+    const { doc } = view.state;
+    // Keep the sync-scroll handler from moving the preview back to the editor position
+    isScrolling.current = true;
+    revealPreviewMatch(previewRef.current, doc.sliceString(from, to), (doc.lineAt(from).number - 1) / doc.lines, getSearchQuery(view.state).caseSensitive);
+    setTimeout(() => {
+      isScrolling.current = false;
+    }, 500);
+  };
+
   // Paste Handler - 支持粘贴文件
-  const handlePaste = async (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
-    if (!fileStore.currentFile) return;
+  const handlePaste = (e: ClipboardEvent, view: EditorView): boolean => {
+    if (!fileStore.currentFile) return false;
 
     const clipboardData = e.clipboardData;
     const items = clipboardData?.items;
 
-    if (!items) return;
+    if (!items) return false;
 
     // 检查是否有文件
     const files: File[] = [];
@@ -225,18 +181,14 @@ export const Editor = observer(() => {
       }
     }
 
-    // 如果有文件，阻止默认粘贴行为
-    if (files.length > 0) {
-      e.preventDefault();
+    // 没有文件时交给编辑器处理普通文本粘贴 (从表格软件复制的单元格除外)
+    if (files.length === 0) return handleTablePaste(clipboardData.getData('text/plain'), view);
 
-      const textarea = textareaRef.current;
-      if (!textarea) return;
-
-      const start = textarea.selectionStart;
-      const end = textarea.selectionEnd;
-      const text = textarea.value;
+    e.preventDefault();
+    const notePath = fileStore.currentFile.path;
 
-      // 处理每个粘贴的文件
+    // 处理每个粘贴的文件
+    (async () => {
       for (const file of files) {
         try {
           // 将文件转为 Uint8Array
@@ -247,7 +199,7 @@ export const Editor = observer(() => {
           const result = await window.electronAPI.savePastedFile(
             file.name,
             uint8Array,
-            fileStore.currentFile.path
+            notePath
           );
 
           if (result.success && result.data) {
@@ -255,21 +207,13 @@ export const Editor = observer(() => {
             const isImage = /\.(jpg|jpeg|png|gif|webp|svg|bmp|ico)$/i.test(file.name);
 
             // 构建插入的 markdown
-            const before = text.substring(0, start);
-            const after = text.substring(end);
-            const insertText = isImage
+            const markdownText = isImage
               ? `![${file.name}](${relativePath})`
               : `[${file.name}](${relativePath})`;
 
-            // 更新内容
-            fileStore.updateContent(before + insertText + after);
-
-            // 设置光标位置到插入内容之后
-            setTimeout(() => {
-              textarea.focus();
-              const newCursorPos = start + insertText.length;
-              textarea.setSelectionRange(newCursorPos, newCursorPos);
-            }, 0);
+            // 插入到光标处 (切换了笔记时不再插入)
+            if (viewRef.current !== view || fileStore.currentFile?.path !== notePath) return;
+            insertText(view, markdownText);
 
             // 触发保存
             triggerSave();
@@ -280,41 +224,50 @@ export const Editor = observer(() => {
           console.error('Paste error:', error);
         }
       }
+    })();
+    return true;
+  };
+
+  // Cells copied from a spreadsheet (tab-separated) are pasted as a markdown table
+  const handleTablePaste = (text: string, view: EditorView): boolean => {
+    const cells = detectDelimitedTable(text);
+    const { head } = view.state.selection.main;
+    if (!cells || !fileStore.currentFile?.name.toLowerCase().endsWith('.md')) return false;
+    // Inside code or a table the text is kept as it is
+    if (isInCode(view.state, head) || getTableContext(view.state, head)) return false;
+    insertTable(view, tableFromCells(cells), 'input.paste');
+    return true;
+  };
+
+  const handleInsertTable = (rows: number, columns: number) => {
+    if (!viewRef.current) return;
+    insertTable(viewRef.current, {
+      rows: Array.from({ length: rows }, (_, row) => Array.from({ length: columns }, (_, column) => row === 0 ? `列 ${column + 1}` : '')),
+      alignments: Array(columns).fill(null)
+    });
+  };
+
+  // CSV or TSV text in the clipboard as a table
+  const handlePasteTable = async () => {
+    const view = viewRef.current;
+    if (!view) return;
+    try {
+      const cells = detectDelimitedTable(await navigator.clipboard.readText(), true);
+      if (!cells) {
+        toastStore.warning('剪贴板中没有 CSV / TSV 表格数据');
+        return;
+      }
+      if (viewRef.current !== view) return;
+      insertTable(view, tableFromCells(cells), 'input.paste');
+    } catch (error) {
+      console.error('Failed to read clipboard:', error);
+      toastStore.error('读取剪贴板失败');
     }
   };
 
   const handleInsert = (prefix: string, suffix: string) => {
-    if (!textareaRef.current) return;
-    
-    const textarea = textareaRef.current;
-    const start = textarea.selectionStart;
-    const end = textarea.selectionEnd;
-    const text = textarea.value;
-    
-    const before = text.substring(0, start);
-    const selection = text.substring(start, end);
-    const after = text.substring(end);
-    
-    const newText = before + prefix + selection + suffix + after;
-    
-    fileStore.updateContent(newText);
-    
-    // Debounced Auto Save
-    if (saveTimeoutRef.current) {
-      clearTimeout(saveTimeoutRef.current);
-    }
-    saveTimeoutRef.current = setTimeout(() => {
-      fileStore.saveCurrentFile();
-    }, 1000);
-    
-    // Restore cursor / focus
-    setTimeout(() => {
-      textarea.focus();
-      textarea.setSelectionRange(
-        start + prefix.length,
-        end + prefix.length
-      );
-    }, 0);
+    if (!viewRef.current) return;
+    wrapSelections(viewRef.current, prefix, suffix);
   };
 
   const handleUpload = async (type: 'image' | 'file' = 'file') => {
@@ -350,13 +303,50 @@ export const Editor = observer(() => {
     }
   };
 
+  // Outline edits go through the editor, so they can be undone
+  const handleOutlineEdit = (content: string) => {
+    if (viewRef.current) {
+      replaceDocument(viewRef.current, content);
+    } else {
+      fileStore.updateContent(content);
+      scheduleSave();
+    }
+  };
+
+  // Jump to a heading of the outline in both the editor and the preview
+  const revealHeading = (item: OutlineItem, occurrence: number) => {
+    const view = viewRef.current;
+    if (view && item.line < view.state.doc.lines) {
+      const line = view.state.doc.line(item.line + 1);
+      isScrolling.current = true;
+      view.dispatch({
+        selection: { anchor: line.from },
+        effects: EditorView.scrollIntoView(line.from, { y: 'start' })
+      });
+      view.focus();
+      setTimeout(() => {
+        isScrolling.current = false;
+      }, 100);
+    }
+
+    // Headings of embedded notes are not part of this note
+    const anchors = Array.from(previewRef.current?.querySelectorAll<HTMLElement>(`[data-heading="${CSS.escape(normalizeHeading(item.text))}"]`) ?? [])
+      .filter(anchor => !anchor.closest('.markdown-embed'));
+    anchors[occurrence]?.scrollIntoView({ block: 'start', behavior: 'smooth' });
+  };
+
   const handleFormat = async () => {
     try {
       const formatted = await prettier.format(fileStore.currentContent, {
         parser: "markdown",
         plugins: [prettierPluginMarkdown],
       });
-      fileStore.updateContent(formatted);
+      // Through the editor, so formatting can be undone
+      if (viewRef.current) {
+        replaceDocument(viewRef.current, formatted);
+      } else {
+        fileStore.updateContent(formatted);
+      }
       triggerSave();
     } catch (error) {
       console.error('Formatting failed:', error);
@@ -405,11 +395,24 @@ export const Editor = observer(() => {
 
   // Set up wikilink click handler
   useEffect(() => {
-    const handleWikilinkClick = (_event: MouseEvent, target: string) => {
+    const handleWikilinkClick = async (_event: MouseEvent, rawTarget: string) => {
+      const target = parseWikilinkTarget(rawTarget);
+      const hasAnchor = !!(target.heading || target.blockId);
+
+      // [[#Heading]] points into the current note
+      if (!target.note) {
+        if (hasAnchor) setPendingAnchor({ target, requestedAt: Date.now() });
+        return;
+      }
+
       // Resolve the wikilink to a file path
-      const resolvedPath = backlinkStore.resolveLink(target, fileStore.fileTree);
+      const { path: resolvedPath, candidates, isAmbiguous } = backlinkStore.lookupLink(target.note, fileStore.currentFile?.path);
 
       if (resolvedPath) {
+        if (isAmbiguous) {
+          const relativePath = resolvedPath.replace(fileStore.rootPath, '').replace(/^[\\/]/, '');
+          toastStore.warning(`「${target.note}」对应 ${candidates.length} 个笔记，已打开 ${relativePath}，可写成 [[文件夹/笔记]] 以明确指向`);
+        }
         // Find the file node in the tree
         const findNode = (nodes: any[], targetPath: string): any => {
           for (const node of nodes) {
@@ -424,11 +427,12 @@ export const Editor = observer(() => {
 
         const node = findNode(fileStore.fileTree, resolvedPath);
         if (node) {
-          fileStore.selectFile(node);
+          await fileStore.selectFile(node);
+          if (hasAnchor) setPendingAnchor({ target, requestedAt: Date.now() });
         }
       } else {
         // File doesn't exist - ask to create it
-        const fileName = target.endsWith('.md') ? target : `${target}.md`;
+        const fileName = target.note.endsWith('.md') ? target.note : `${target.note}.md`;
         if (confirm(`文件 "${fileName}" 不存在，是否创建？`)) {
           fileStore.createFile(fileStore.currentFile?.path ? fileStore.currentFile.path.split('/').slice(0, -1).join('/') : fileStore.rootPath, fileName);
         }
@@ -440,9 +444,65 @@ export const Editor = observer(() => {
     return () => {
       setWikilinkClickHandler(null);
     };
-  }, [fileStore, backlinkStore]);
+  }, [fileStore, backlinkStore, toastStore]);
+
+  // A task ticked in the preview is edited like typed text: undoable, marks the tab modified and autosaves
+  useEffect(() => {
+    setTaskToggleHandler((offset, checked) => {
+      const content = setTaskChecked(fileStore.currentContent, offset, checked);
+      if (content === null) return;
+      const view = viewRef.current;
+      if (view) {
+        view.dispatch({ changes: { from: offset + 1, to: offset + 2, insert: checked ? 'x' : ' ' }, userEvent: 'input' });
+      } else {
+        // Preview only: there is no editor to report the change
+        fileStore.updateContent(content);
+        scheduleSave();
+      }
+    });
+
+    return () => {
+      setTaskToggleHandler(null);
+    };
+  }, [fileStore, viewRef, scheduleSave]);
 
-  // Build backlink and tag index when file tree is loaded
+  // Scroll editor and preview to the referenced heading / block
+  // Runs after Preview's own effect, so the target note is already rendered
+  useEffect(() => {
+    if (!pendingAnchor) return;
+    setPendingAnchor(null);
+
+    const { target } = pendingAnchor;
+    const content = fileStore.currentContent;
+    const section = findSection(content, target);
+    if (!section) {
+      toastStore.warning(target.heading ? `未找到标题「${target.heading}」` : `未找到块「^${target.blockId}」`);
+      return;
+    }
+
+    const view = viewRef.current;
+    if (view && section.startLine < view.state.doc.lines) {
+      const line = view.state.doc.line(section.startLine + 1);
+      // Keep the sync-scroll handler from dragging the preview along
+      isScrolling.current = true;
+      view.dispatch({
+        selection: { anchor: line.from, head: line.to },
+        effects: EditorView.scrollIntoView(line.from, { y: 'start' })
+      });
+      setTimeout(() => {
+        isScrolling.current = false;
+      }, 100);
+    }
+
+    const anchor = previewRef.current && findPreviewAnchor(previewRef.current, target);
+    if (anchor) {
+      anchor.scrollIntoView({ block: 'start', behavior: 'smooth' });
+      anchor.classList.add('wikilink-target');
+      anchor.addEventListener('animationend', () => anchor.classList.remove('wikilink-target'), { once: true });
+    }
+  }, [pendingAnchor, fileStore, toastStore, viewRef]);
+
+  // Load the backlink index and build the tag index when the file tree is loaded
   useEffect(() => {
     if (fileStore.fileTree.length > 0 && !backlinkStore.isLoading) {
       const readFile = async (path: string): Promise<string> => {
@@ -452,10 +512,10 @@ export const Editor = observer(() => {
         }
         throw new Error(result.error || 'Failed to read file');
       };
-      backlinkStore.buildIndex(fileStore.fileTree, readFile);
+      backlinkStore.load(fileStore.rootPath);
       tagStore?.buildIndex(fileStore.fileTree, readFile);
     }
-  }, [fileStore.fileTree]); // Only re-run when fileTree changes
+  }, [fileStore.fileTree, fileStore.rootPath, backlinkStore, tagStore]);
 
   if (!fileStore.currentFile) {
     return (
@@ -519,7 +579,8 @@ export const Editor = observer(() => {
   const showEditor = uiStore.viewMode === 'editor' || uiStore.viewMode === 'split';
   const showPreview = uiStore.viewMode === 'preview' || uiStore.viewMode === 'split';
   const showResizer = uiStore.viewMode === 'split';
-  const showToolbar = uiStore.viewMode !== 'preview' && fileName.endsWith('.md'); // Only show toolbar for Markdown files
+  const isMarkdown = fileName.endsWith('.md');
+  const showToolbar = uiStore.viewMode !== 'preview' && isMarkdown; // Only show toolbar for Markdown files
 
   // Calculate preview width
   const previewWidth = showResizer ? `${100 - splitRatio}%` : '100%';
@@ -532,62 +593,88 @@ export const Editor = observer(() => {
 
       {/* Toolbar Area */}
       {showToolbar && (
-        <EditorToolbar onInsert={handleInsert} onUpload={handleUpload} onFormat={handleFormat} />
+        <EditorToolbar
+          onInsert={handleInsert}
+          onUpload={handleUpload}
+          onFormat={handleFormat}
+          onManageSnippets={() => setIsSnippetManagerOpen(true)}
+          onInsertTable={handleInsertTable}
+          onPasteTable={handlePasteTable}
+        />
       )}
 
-      {/* Split Pane Area */}
-      <div id="editor-container" className="flex-1 flex overflow-hidden relative">
-        {/* Editor */}
-        {showEditor && (
-          <div
-              style={{ width: editorWidth }}
-              className="h-full border-r border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900 relative group"
-          >
-             <textarea
-               ref={textareaRef}
-               className="w-full h-full resize-none p-6 md:p-10 lg:p-12 outline-none bg-transparent text-gray-800 dark:text-gray-200 font-mono text-base leading-relaxed custom-scrollbar"
-               value={fileStore.currentContent}
-               onChange={handleChange}
-               onScroll={handleScroll}
-               onPaste={handlePaste}
-               placeholder="Start writing..."
-               spellCheck={false}
-             />
-             {fileStore.isSaving && (
-               <div className="absolute top-2 right-2 text-xs text-gray-400 animate-pulse">
-                 Saving...
-               </div>
-             )}
-          </div>
-        )}
-        
-        {/* Resizer Handle */}
-        {showResizer && (
-          <div 
-            className="w-1 bg-gray-100 dark:bg-gray-800 cursor-col-resize z-10 flex items-center justify-center transition-colors hover:bg-[var(--color-primary)]"
-            onMouseDown={startResize}
-          >
-            {/* Visual indicator */}
-            <div className="w-0.5 h-8 bg-gray-300 dark:bg-gray-600 rounded-full" />
-          </div>
-        )}
+      <div className="flex-1 flex overflow-hidden">
+        {/* Split Pane Area */}
+        <div id="editor-container" className="flex-1 flex overflow-hidden relative">
+          {/* Editor */}
+          {showEditor && (
+            <div
+                style={{ width: editorWidth }}
+                className="h-full border-r border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900 relative group"
+            >
+               <div
+                 ref={setEditorParent}
+                 className="w-full h-full text-gray-800 dark:text-gray-200"
+               />
+               {find && createPortal(
+                 <FindReplaceBar view={find.view} state={find.state} onReveal={(from, to) => revealMatch(find.view, from, to)} />,
+                 find.panel
+               )}
+               {tableToolbar.state && (
+                 <TableToolbar state={tableToolbar.state} onApply={tableToolbar.apply} />
+               )}
+               {slashMenu.state && (
+                 <SlashMenuList state={slashMenu.state} onSelect={slashMenu.select} />
+               )}
+               {wikilinkSuggest.state && (
+                 <WikilinkSuggestList state={wikilinkSuggest.state} onSelect={wikilinkSuggest.select} />
+               )}
+               {fileStore.isSaving && (
+                 <div className="absolute top-2 right-2 text-xs text-gray-400 animate-pulse">
+                   Saving...
+                 </div>
+               )}
+            </div>
+          )}
+          
+          {/* Resizer Handle */}
+          {showResizer && (
+            <div 
+              className="w-1 bg-gray-100 dark:bg-gray-800 cursor-col-resize z-10 flex items-center justify-center transition-colors hover:bg-[var(--color-primary)]"
+              onMouseDown={startResize}
+            >
+              {/* Visual indicator */}
+              <div className="w-0.5 h-8 bg-gray-300 dark:bg-gray-600 rounded-full" />
+            </div>
+          )}
 
-        {/* Preview */}
-        {showPreview && (
-          <div
-              style={{ width: previewWidth }}
-              className="h-full flex flex-col bg-gray-50 dark:bg-gray-900/50"
-          >
+          {/* Preview */}
+          {showPreview && (
             <div
-              ref={previewRef}
-              className="flex-1 overflow-y-auto custom-scrollbar"
+                style={{ width: previewWidth }}
+                className="h-full flex flex-col bg-gray-50 dark:bg-gray-900/50"
             >
-              <Preview content={fileStore.currentContent} />
+              <div
+                ref={previewRef}
+                className="flex-1 overflow-y-auto custom-scrollbar"
+              >
+                <Preview content={fileStore.currentContent} />
+              </div>
+              <BacklinksPanel />
             </div>
-            <BacklinksPanel />
-          </div>
+          )}
+        </div>
+
+        {uiStore.isOutlineOpen && isMarkdown && (
+          <OutlinePanel
+            activeLine={cursor?.fileId === fileStore.currentFile.id ? cursor.line : null}
+            onNavigate={revealHeading}
+            onEdit={handleOutlineEdit}
+          />
         )}
       </div>
+
+      <SnippetManager isOpen={isSnippetManagerOpen} onClose={() => setIsSnippetManagerOpen(false)} />
     </div>
   );
 });
@@ -0,0 +1,81 @@
+// Name of the CSS custom highlight, styled with ::highlight(find-match)
+const HIGHLIGHT_NAME = 'find-match';
+// Occurrences looked at when picking the one that corresponds to the editor position
+const MAX_CANDIDATES = 500;
+
+// Range over [start, end) of the text of nodes laid end to end
+const createRange = (nodes: Text[], starts: number[], start: number, end: number): Range => {
+  const locate = (offset: number) => {
+    let low = 0;
+    let high = nodes.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (starts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { node: nodes[low], offset: offset - starts[low] };
+  };
+
+  const range = document.createRange();
+  const from = locate(start);
+  const to = locate(end);
+  range.setStart(from.node, from.offset);
+  range.setEnd(to.node, Math.min(to.offset, to.node.length));
+  return range;
+};
+
+// The rendered occurrence of text whose position in the preview is closest to ratio
+const findClosestOccurrence = (container: HTMLElement, text: string, ratio: number, caseSensitive: boolean): Range | null => {
+  const nodes: Text[] = [];
+  const starts: number[] = [];
+  let combined = '';
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    nodes.push(node);
+    starts.push(combined.length);
+    combined += node.data;
+  }
+
+  const haystack = caseSensitive ? combined : combined.toLowerCase();
+  const needle = caseSensitive ? text : text.toLowerCase();
+  const contentTop = container.getBoundingClientRect().top - container.scrollTop;
+  const target = ratio * container.scrollHeight;
+
+  let best: Range | null = null;
+  let bestDistance = Infinity;
+  let index = haystack.indexOf(needle);
+  for (let found = 0; index !== -1 && found < MAX_CANDIDATES; found++) {
+    const range = createRange(nodes, starts, index, index + needle.length);
+    const distance = Math.abs(range.getBoundingClientRect().top - contentTop - target);
+    if (distance < bestDistance) {
+      best = range;
+      bestDistance = distance;
+    }
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return best;
+};
+
+/**
+ * Scroll the rendered preview to a match of the editor and highlight it
+ * @param text The matched source text
+ * @param ratio Relative position of the match in the note (0 - 1), used to pick among repeated
+ * occurrences and as the scroll target when the text is not rendered as is (markdown syntax, ...)
+ */
+export const revealPreviewMatch = (container: HTMLElement, text: string, ratio: number, caseSensitive: boolean) => {
+  clearPreviewMatch();
+  const range = text.trim() ? findClosestOccurrence(container, text, ratio, caseSensitive) : null;
+  if (!range) {
+    container.scrollTo({ top: ratio * (container.scrollHeight - container.clientHeight), behavior: 'smooth' });
+    return;
+  }
+
+  const top = range.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
+  container.scrollTo({ top: top - container.clientHeight / 3, behavior: 'smooth' });
+  CSS.highlights?.set(HIGHLIGHT_NAME, new Highlight(range));
+};
+
+export const clearPreviewMatch = () => {
+  CSS.highlights?.delete(HIGHLIGHT_NAME);
+};
@@ -0,0 +1,30 @@
+import { findTaskMarkers } from '../../utils/taskList';
+
+// Task checkbox click handler: offset of the task's "[ ]" marker in the note, and its new state
+let handleTaskToggle: ((offset: number, checked: boolean) => void) | null = null;
+
+export const setTaskToggleHandler = (handler: ((offset: number, checked: boolean) => void) | null) => {
+  handleTaskToggle = handler;
+};
+
+/**
+ * Let the task checkboxes rendered from a note tick the task off in its source.
+ * Checkboxes of embedded notes stay read-only, and so do all of them when
+ * they cannot be matched one to one with the task lines of the note
+ */
+export const bindTaskCheckboxes = (container: HTMLElement, content: string) => {
+  const markers = findTaskMarkers(content);
+  const checkboxes = Array.from(container.querySelectorAll<HTMLInputElement>('input[type="checkbox"]'))
+    .filter(checkbox => !checkbox.closest('.markdown-embed'));
+  if (checkboxes.length !== markers.length) return;
+
+  checkboxes.forEach((checkbox, index) => {
+    checkbox.disabled = false;
+    checkbox.classList.add('task-list-checkbox');
+    checkbox.addEventListener('change', () => {
+      // The preview re-renders once the note has changed
+      if (handleTaskToggle) handleTaskToggle(markers[index], checkbox.checked);
+      else checkbox.checked = !checkbox.checked;
+    });
+  });
+};
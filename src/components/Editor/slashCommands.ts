@@ -0,0 +1,92 @@
+import {
+  Braces, Calendar, Clock, Code, Heading1, Heading2, Heading3, Info, Lightbulb, Link, List, ListChecks, ListOrdered,
+  MessageSquareWarning, Minus, Network, OctagonAlert, Quote, Settings2, Sigma, Table, TriangleAlert, type LucideIcon
+} from 'lucide-react';
+import { MERMAID_TEMPLATES } from '../../constants/mermaid';
+import type { Snippet } from '../../store';
+
+export interface SlashCommand {
+  id: string;
+  label: string;
+  detail?: string;
+  keywords: string;     // More words the command is found by
+  icon: LucideIcon;
+  template?: string;    // Snippet template (see insertSnippet / expandSnippetVariables)
+  action?: 'manageSnippets';
+}
+
+const CALLOUTS: Array<{ type: string; label: string; icon: LucideIcon }> = [
+  { type: 'NOTE', label: '提示块 · 备注', icon: Info },
+  { type: 'TIP', label: '提示块 · 技巧', icon: Lightbulb },
+  { type: 'IMPORTANT', label: '提示块 · 重要', icon: MessageSquareWarning },
+  { type: 'WARNING', label: '提示块 · 警告', icon: TriangleAlert },
+  { type: 'CAUTION', label: '提示块 · 危险', icon: OctagonAlert }
+];
+
+const BUILTIN_COMMANDS: SlashCommand[] = [
+  { id: 'h1', label: '一级标题', keywords: 'h1 heading title', icon: Heading1, template: '# ${}' },
+  { id: 'h2', label: '二级标题', keywords: 'h2 heading', icon: Heading2, template: '## ${}' },
+  { id: 'h3', label: '三级标题', keywords: 'h3 heading', icon: Heading3, template: '### ${}' },
+  { id: 'bullet', label: '无序列表', keywords: 'ul bullet list', icon: List, template: '- ${}' },
+  { id: 'ordered', label: '有序列表', keywords: 'ol ordered number list', icon: ListOrdered, template: '1. ${}' },
+  { id: 'task', label: '任务列表', keywords: 'todo task checkbox', icon: ListChecks, template: '- [ ] ${}' },
+  { id: 'quote', label: '引用', keywords: 'quote blockquote', icon: Quote, template: '> ${}' },
+  { id: 'code', label: '代码块', keywords: 'code fence', icon: Code, template: '```${1:language}\n${2}\n```\n${0}' },
+  {
+    id: 'table',
+    label: '表格',
+    keywords: 'table grid',
+    icon: Table,
+    template: '| ${1:列 1} | ${2:列 2} |\n| --- | --- |\n| ${3} | ${4} |\n${0}'
+  },
+  { id: 'math', label: '公式块', detail: '$$', keywords: 'math latex katex formula equation', icon: Sigma, template: '$$\n${}\n$$\n' },
+  {
+    id: 'equation',
+    label: '编号公式',
+    detail: 'equation',
+    keywords: 'math latex katex formula equation numbered',
+    icon: Sigma,
+    template: '$$\n\\begin{equation}\n${}\n\\end{equation}\n$$\n'
+  },
+  { id: 'link', label: '链接', keywords: 'link url', icon: Link, template: '[${1:文本}](${2:https://})' },
+  { id: 'divider', label: '分割线', keywords: 'hr divider rule', icon: Minus, template: '---\n${}' },
+  ...CALLOUTS.map(({ type, label, icon }) => ({
+    id: `callout-${type.toLowerCase()}`,
+    label,
+    detail: `[!${type}]`,
+    keywords: `callout admonition ${type.toLowerCase()}`,
+    icon,
+    template: `> [!${type}]\n> \${}`
+  })),
+  ...Object.entries(MERMAID_TEMPLATES).map(([key, { label, template }]) => ({
+    id: `mermaid-${key}`,
+    label: `Mermaid ${label}`,
+    keywords: `mermaid diagram chart ${key}`,
+    icon: Network,
+    template: `${template}\n\${0}`
+  })),
+  { id: 'date', label: '今天日期', detail: '{{date}}', keywords: 'date today', icon: Calendar, template: '{{date}}' },
+  { id: 'datetime', label: '当前时间', detail: '{{datetime}}', keywords: 'time now datetime', icon: Clock, template: '{{datetime}}' }
+];
+
+const MANAGE_COMMAND: SlashCommand = {
+  id: 'manage-snippets',
+  label: '管理代码片段...',
+  keywords: 'snippet template manage',
+  icon: Settings2,
+  action: 'manageSnippets'
+};
+
+// Everything the slash menu offers: user snippets first, then the built-in commands
+export const getSlashCommands = (snippets: Snippet[]): SlashCommand[] => [
+  ...snippets.map(snippet => ({
+    id: snippet.id,
+    label: snippet.name,
+    detail: snippet.description || '代码片段',
+    keywords: 'snippet',
+    icon: Braces,
+    template: snippet.body
+  })),
+  ...BUILTIN_COMMANDS,
+  MANAGE_COMMAND
+];
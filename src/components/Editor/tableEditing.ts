@@ -0,0 +1,175 @@
+import { EditorSelection, EditorState, Prec, StateEffect, StateField, type Extension, type TransactionSpec } from '@codemirror/state';
+import { keymap, type EditorView } from '@codemirror/view';
+import { syntaxTree } from '@codemirror/language';
+import { formatTable, getCellIndex, getCellRange, insertRow, parseTable, type MarkdownTable } from '../../utils/markdownTable';
+
+export interface TableContext {
+  from: number;         // Start of the header line
+  to: number;           // End of the last row
+  table: MarkdownTable;
+  row: number;          // Row of the cursor (0 = header, also on the delimiter line)
+  column: number;
+}
+
+const findTableNode = (state: EditorState, pos: number) => {
+  for (const side of [-1, 1] as const) {
+    let node = syntaxTree(state).resolveInner(pos, side);
+    while (node.name !== 'Table' && node.parent) node = node.parent;
+    if (node.name === 'Table') return node;
+  }
+  return null;
+};
+
+/**
+ * The GFM table a position is in, and the cell it is in
+ */
+export const getTableContext = (state: EditorState, pos: number): TableContext | null => {
+  const node = findTableNode(state, pos);
+  if (!node) return null;
+
+  const { doc } = state;
+  const first = doc.lineAt(node.from);
+  const last = doc.lineAt(Math.max(node.from, node.to - 1));
+  const line = doc.lineAt(pos);
+  if (line.number < first.number || line.number > last.number) return null;
+  // Tables in blockquotes are left alone
+  const table = parseTable(doc.sliceString(first.from, last.to));
+  if (!table) return null;
+
+  const index = line.number - first.number;
+  return {
+    from: first.from,
+    to: last.to,
+    table,
+    row: index < 2 ? 0 : index - 1,
+    column: Math.min(getCellIndex(line.text, pos - line.from), table.alignments.length - 1)
+  };
+};
+
+// The table with aligned pipes, indented like the one it replaces (tables in list items)
+const formatTableAt = (state: EditorState, context: TableContext, table: MarkdownTable) => {
+  const indent = state.doc.lineAt(context.from).text.match(/^\s*/)?.[0] ?? '';
+  return formatTable(table).split('\n').map(line => indent + line).join('\n');
+};
+
+// Selection of a cell's content in formatted table text starting at from
+const selectCell = (text: string, from: number, row: number, column: number) => {
+  const lines = text.split('\n');
+  const index = Math.min(row === 0 ? 0 : row + 1, lines.length - 1);
+  const start = from + lines.slice(0, index).reduce((length, line) => length + line.length + 1, 0);
+  const cell = getCellRange(lines[index], column);
+  return EditorSelection.single(start + cell.from, start + cell.to);
+};
+
+/**
+ * Write a changed table in place of the one around the cursor, realigned,
+ * and select the content of a cell of it
+ */
+export const replaceTable = (view: EditorView, context: TableContext, table: MarkdownTable, row: number, column: number) => {
+  const text = formatTableAt(view.state, context, table);
+  view.dispatch({
+    changes: { from: context.from, to: context.to, insert: text },
+    selection: selectCell(text, context.from, row, column),
+    scrollIntoView: true,
+    userEvent: 'input.format'
+  });
+  view.focus();
+};
+
+/**
+ * Insert a table in place of the selection, on lines of its own, with the first header cell selected
+ */
+export const insertTable = (view: EditorView, table: MarkdownTable, userEvent: string = 'input') => {
+  const { doc, selection } = view.state;
+  const { from, to } = selection.main;
+  const startLine = doc.lineAt(from);
+  const endLine = doc.lineAt(to);
+  const before = startLine.text.slice(0, from - startLine.from).trim() ? '\n\n' : '';
+  const after = endLine.text.slice(to - endLine.from).trim() ? '\n\n' : '';
+  const text = formatTable(table);
+
+  view.dispatch({
+    changes: { from, to, insert: before + text + after },
+    selection: selectCell(text, from + before.length, 0, 0),
+    scrollIntoView: true,
+    userEvent
+  });
+  view.focus();
+};
+
+// Tab / Shift-Tab: realign and go to the next / previous cell; Tab in the last cell adds a row
+const moveToCell = (direction: 1 | -1) => (view: EditorView): boolean => {
+  const { selection } = view.state;
+  if (selection.ranges.length > 1) return false;
+  const context = getTableContext(view.state, selection.main.head);
+  if (!context) return false;
+
+  const columnCount = context.table.alignments.length;
+  let { table } = context;
+  let row = context.row;
+  let column = context.column + direction;
+  if (column >= columnCount) {
+    column = 0;
+    row++;
+  } else if (column < 0) {
+    column = columnCount - 1;
+    row--;
+  }
+  if (row < 0) {
+    row = 0;
+    column = 0;
+  }
+  if (row >= table.rows.length) table = insertRow(table, row);
+
+  replaceTable(view, context, table, row, column);
+  return true;
+};
+
+const clearPendingRealign = StateEffect.define<null>();
+
+/**
+ * Position in a table typed in, realigned once the cursor leaves it (realigning
+ * while typing would eat the spaces being typed at the end of a cell)
+ */
+const pendingRealign = StateField.define<number | null>({
+  create: () => null,
+  update: (value, tr) => {
+    if (tr.effects.some(effect => effect.is(clearPendingRealign))) return null;
+    if (tr.docChanged && (tr.isUserEvent('input') || tr.isUserEvent('delete'))) {
+      const { head } = tr.newSelection.main;
+      if (tr.newDoc.lineAt(head).text.includes('|')) return head;
+    }
+    return value === null ? null : tr.changes.mapPos(value);
+  }
+});
+
+const realignOnLeave = EditorState.transactionFilter.of(tr => {
+  const pending = tr.startState.field(pendingRealign, false);
+  if (pending === null || pending === undefined || tr.docChanged || !tr.selection) return tr;
+
+  const context = getTableContext(tr.startState, pending);
+  const { head } = tr.selection.main;
+  if (context && head >= context.from && head <= context.to) return tr;
+
+  const specs: TransactionSpec[] = [tr, { effects: clearPendingRealign.of(null) }];
+  if (context) {
+    const text = formatTableAt(tr.startState, context, context.table);
+    if (text !== tr.startState.doc.sliceString(context.from, context.to)) {
+      specs.push({ changes: { from: context.from, to: context.to, insert: text }, sequential: true });
+    }
+  }
+  return specs;
+});
+
+/**
+ * Table editing in markdown: Tab / Shift-Tab between cells, and tables typed in
+ * realigned when the cursor leaves them
+ */
+export const tableEditing = (): Extension => [
+  pendingRealign,
+  realignOnLeave,
+  Prec.high(keymap.of([
+    { key: 'Tab', run: moveToCell(1) },
+    { key: 'Shift-Tab', run: moveToCell(-1) }
+  ]))
+];
@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { EditorState, type StateEffect } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { useStore } from '../../store';
+import { createEditorExtensions, replaceDocument, setEditorKeymap, type EditorEventHandlers } from './codemirror';
+
+interface SavedEditor {
+  state: EditorState;
+  scroll: StateEffect<unknown>;
+}
+
+/**
+ * CodeMirror view showing the current note. Every open tab keeps its own
+ * editor state (undo history, selections) and scroll position while it is
+ * in the background; the view follows content changed elsewhere in the store.
+ * @returns A callback ref for the element to mount the editor into, and the view
+ */
+export const useCodeMirror = (handlers: EditorEventHandlers) => {
+  const { fileStore, uiStore } = useStore();
+  const [parent, setParent] = useState<HTMLDivElement | null>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  // Note shown in the view, and the saved editors of the other open notes by file id
+  const fileIdRef = useRef<string | null>(null);
+  const savedRef = useRef<Map<string, SavedEditor>>(new Map());
+  // Last content the editor reported, so store updates caused by typing are not pushed back
+  const reportedRef = useRef<string | null>(null);
+
+  const fileId = fileStore.currentFile?.id ?? null;
+  const content = fileStore.currentContent;
+  const keymapMode = uiStore.editorKeymap;
+
+  const getHandlers = useCallback((): EditorEventHandlers => ({
+    ...handlersRef.current,
+    onChange: (value) => {
+      reportedRef.current = value;
+      handlersRef.current.onChange(value);
+    }
+  }), []);
+
+  const save = useCallback((view: EditorView) => {
+    if (!fileIdRef.current) return;
+    savedRef.current.set(fileIdRef.current, { state: view.state, scroll: view.scrollSnapshot() });
+  }, []);
+
+  // Bring back the saved editor of the current note, or start a fresh one
+  const restore = useCallback((view: EditorView) => {
+    const file = fileStore.currentFile;
+    fileIdRef.current = file?.id ?? null;
+    if (!file) return;
+
+    const saved = savedRef.current.get(file.id);
+    savedRef.current.delete(file.id);
+    reportedRef.current = null;
+    if (saved) {
+      view.setState(saved.state);
+      view.dispatch({ effects: saved.scroll });
+      // The key bindings may have been switched meanwhile
+      setEditorKeymap(view, uiStore.editorKeymap);
+      // The note may have been reloaded or rewritten while it was in the background
+      replaceDocument(view, fileStore.currentContent, true);
+    } else {
+      view.setState(EditorState.create({
+        doc: fileStore.currentContent,
+        extensions: createEditorExtensions(file.name.toLowerCase().endsWith('.md'), uiStore.editorKeymap, getHandlers)
+      }));
+    }
+
+    // Closed tabs do not need their history any more
+    const openIds = new Set(fileStore.tabStore.openTabs.map(tab => tab.file.id));
+    savedRef.current.forEach((_saved, id) => {
+      if (!openIds.has(id)) savedRef.current.delete(id);
+    });
+  }, [fileStore, uiStore, getHandlers]);
+
+  useEffect(() => {
+    if (!parent) return;
+    const view = new EditorView({ parent });
+    viewRef.current = view;
+    restore(view);
+
+    return () => {
+      save(view);
+      view.destroy();
+      viewRef.current = null;
+      fileIdRef.current = null;
+    };
+  }, [parent, save, restore]);
+
+  // Switching tabs
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || fileIdRef.current === fileId) return;
+    save(view);
+    restore(view);
+  }, [fileId, save, restore]);
+
+  useEffect(() => {
+    if (viewRef.current) setEditorKeymap(viewRef.current, keymapMode);
+  }, [keymapMode]);
+
+  // Content changed outside of the editor
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || content === reportedRef.current) return;
+    replaceDocument(view, content, true);
+  }, [content]);
+
+  return { setParent, viewRef };
+};
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useStore } from '../../store';
+import { parseWikilinkTarget, type WikilinkTarget } from '../../utils/wikilink';
+import { getParentPath, resolveRelativePath } from '../../utils/path';
+
+const SHOW_DELAY_MS = 400;
+// Time to move the pointer from the link onto the preview
+const HIDE_DELAY_MS = 200;
+// Urls with a scheme (http:, media:, ...), anchors and absolute paths do not point at notes of the notebook
+const EXTERNAL_URL_REGEX = /^([a-z][a-z0-9+.-]*:|#|\/)/i;
+
+export interface HoveredLink {
+  path: string;            // Note the link points to
+  target: WikilinkTarget;  // Heading / block of the note, if any
+  rect: DOMRect;           // Where the link is on screen
+}
+
+/**
+ * Tracks the wikilink or relative .md link hovered in the rendered preview
+ * @param containerRef Element the preview html is rendered into
+ * @returns The hovered link, and handlers keeping it open while the pointer is over its preview
+ */
+export const useLinkHoverPreview = (containerRef: React.RefObject<HTMLDivElement>) => {
+  const { fileStore, backlinkStore } = useStore();
+  const [link, setLink] = useState<HoveredLink | null>(null);
+  const anchorRef = useRef<Element | null>(null);
+  const showTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const hideTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const currentPath = fileStore.currentFile?.path;
+
+  const cancelHide = useCallback(() => {
+    if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+    hideTimerRef.current = null;
+  }, []);
+
+  const scheduleHide = useCallback(() => {
+    cancelHide();
+    hideTimerRef.current = setTimeout(() => {
+      hideTimerRef.current = null;
+      setLink(null);
+    }, HIDE_DELAY_MS);
+  }, [cancelHide]);
+
+  // Note (and section) a link element points to, or null for external links and missing notes
+  const resolve = useCallback((element: Element): Omit<HoveredLink, 'rect'> | null => {
+    if (!currentPath) return null;
+
+    const rawTarget = (element as HTMLElement).dataset.wikilink;
+    if (rawTarget !== undefined) {
+      const target = parseWikilinkTarget(rawTarget);
+      const path = target.note ? backlinkStore.resolveLink(target.note, currentPath) : currentPath;
+      return path ? { path, target } : null;
+    }
+
+    const href = element.getAttribute('href') || '';
+    if (EXTERNAL_URL_REGEX.test(href)) return null;
+    const [rawPath, rawHash = ''] = href.split('#');
+    let notePath = rawPath;
+    let heading = rawHash;
+    try {
+      notePath = decodeURI(rawPath);
+      heading = decodeURIComponent(rawHash);
+    } catch {
+      // Not valid percent-encoding: use the link as written
+    }
+    if (!/\.md$/i.test(notePath)) return null;
+    return {
+      path: resolveRelativePath(getParentPath(currentPath), notePath),
+      target: { note: notePath, heading: heading || undefined }
+    };
+  }, [currentPath, backlinkStore]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleMouseOver = (e: MouseEvent) => {
+      const anchor = (e.target as Element).closest('.wikilink, a[href]');
+      if (!anchor || anchor === anchorRef.current || !container.contains(anchor)) return;
+
+      anchorRef.current = anchor;
+      cancelHide();
+      if (showTimerRef.current) clearTimeout(showTimerRef.current);
+      showTimerRef.current = setTimeout(() => {
+        showTimerRef.current = null;
+        const resolved = resolve(anchor);
+        if (resolved) setLink({ ...resolved, rect: anchor.getBoundingClientRect() });
+      }, SHOW_DELAY_MS);
+    };
+
+    const handleMouseOut = (e: MouseEvent) => {
+      const anchor = anchorRef.current;
+      if (!anchor || !anchor.contains(e.target as Node)) return;
+      // Moving between the children of the link does not leave it
+      if (e.relatedTarget instanceof Node && anchor.contains(e.relatedTarget)) return;
+
+      anchorRef.current = null;
+      if (showTimerRef.current) clearTimeout(showTimerRef.current);
+      showTimerRef.current = null;
+      scheduleHide();
+    };
+
+    // The preview stays where the link was, so scrolling the page closes it (scrolling the preview itself does not)
+    const handleScroll = (e: Event) => {
+      if (e.target instanceof Node && e.target.contains(container)) setLink(null);
+    };
+
+    container.addEventListener('mouseover', handleMouseOver);
+    container.addEventListener('mouseout', handleMouseOut);
+    document.addEventListener('scroll', handleScroll, true);
+    return () => {
+      container.removeEventListener('mouseover', handleMouseOver);
+      container.removeEventListener('mouseout', handleMouseOut);
+      document.removeEventListener('scroll', handleScroll, true);
+      if (showTimerRef.current) clearTimeout(showTimerRef.current);
+      cancelHide();
+    };
+  }, [containerRef, resolve, cancelHide, scheduleHide]);
+
+  // Switching notes re-renders the links
+  useEffect(() => {
+    anchorRef.current = null;
+    setLink(null);
+  }, [currentPath]);
+
+  return { link, keepOpen: cancelHide, release: scheduleHide };
+};
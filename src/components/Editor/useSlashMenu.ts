@@ -0,0 +1,122 @@
+import { useCallback, useState } from 'react';
+import type { EditorView } from '@codemirror/view';
+import { useStore } from '../../store';
+import { fuzzyScore } from '../../utils/fuzzy';
+import { expandSnippetVariables } from '../../utils/snippet';
+import { insertSnippet, isInCode } from './codemirror';
+import { getSlashCommands, type SlashCommand } from './slashCommands';
+
+const MAX_ITEMS = 30;
+// "/que|" at the start of a line (| = cursor), indentation allowed
+const SLASH_CONTEXT_REGEX = /^\s*\/([^\s/]*)$/;
+
+export interface SlashMenuState {
+  items: SlashCommand[];
+  selectedIndex: number;
+  from: number;       // The "/" typed
+  to: number;         // Cursor position
+  top: number;
+  left: number;
+}
+
+/**
+ * Command menu opened by typing "/" at the start of a line: headings, tables,
+ * callouts, diagrams, dates and the snippets of the project
+ * @param onManageSnippets Opens the snippet manager
+ */
+export const useSlashMenu = (viewRef: React.RefObject<EditorView | null>, onManageSnippets: () => void) => {
+  const { fileStore, snippetStore } = useStore();
+  const [state, setState] = useState<SlashMenuState | null>(null);
+
+  const close = useCallback(() => setState(null), []);
+
+  // Re-evaluate after typing
+  const update = useCallback(() => {
+    const view = viewRef.current;
+    const selection = view?.state.selection;
+    if (!view || !selection || selection.ranges.length > 1 || !selection.main.empty) {
+      setState(null);
+      return;
+    }
+
+    const cursor = selection.main.head;
+    const line = view.state.doc.lineAt(cursor);
+    const match = line.text.slice(0, cursor - line.from).match(SLASH_CONTEXT_REGEX);
+    // A "/" in code (paths, comments) is just a slash
+    if (!match || isInCode(view.state, cursor)) {
+      setState(null);
+      return;
+    }
+
+    const query = match[1];
+    const scored: Array<{ item: SlashCommand; score: number }> = [];
+    getSlashCommands(snippetStore.snippets).forEach((item, index) => {
+      const scores = [fuzzyScore(item.label, query), fuzzyScore(item.keywords, query)].filter((score): score is number => score !== null);
+      // Without a query the menu keeps its own order
+      if (scores.length > 0) scored.push({ item, score: query ? Math.max(...scores) : -index });
+    });
+    if (scored.length === 0) {
+      setState(null);
+      return;
+    }
+
+    const coords = view.coordsAtPos(cursor);
+    const box = view.dom.getBoundingClientRect();
+    setState({
+      items: scored.sort((a, b) => b.score - a.score).slice(0, MAX_ITEMS).map(({ item }) => item),
+      selectedIndex: 0,
+      from: cursor - query.length - 1,
+      to: cursor,
+      top: coords ? coords.bottom - box.top : 0,
+      left: coords ? coords.left - box.left : 0
+    });
+  }, [viewRef, snippetStore]);
+
+  const select = useCallback((item: SlashCommand) => {
+    const view = viewRef.current;
+    if (!view || !state) return;
+    setState(null);
+
+    if (item.action === 'manageSnippets') {
+      // The "/query" typed to get here is not meant to stay
+      view.dispatch({ changes: { from: state.from, to: state.to }, userEvent: 'delete' });
+      onManageSnippets();
+      return;
+    }
+
+    const title = fileStore.currentFile?.name.replace(/\.md$/i, '') ?? '';
+    insertSnippet(view, expandSnippetVariables(item.template ?? '', { title, now: new Date() }), state.from, state.to);
+  }, [viewRef, state, fileStore, onManageSnippets]);
+
+  /**
+   * Keyboard navigation while the menu is open
+   * @returns Whether the key was consumed
+   */
+  const handleKeyDown = useCallback((e: KeyboardEvent): boolean => {
+    if (!state || e.isComposing || e.metaKey || e.ctrlKey || e.altKey) return false;
+
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        const count = state.items.length;
+        setState({ ...state, selectedIndex: (state.selectedIndex + step + count) % count });
+        return true;
+      }
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        select(state.items[state.selectedIndex]);
+        return true;
+      case 'Escape':
+        e.preventDefault();
+        setState(null);
+        return true;
+      default:
+        return false;
+    }
+  }, [state, select]);
+
+  return { state, update, close, select, handleKeyDown };
+};
@@ -0,0 +1,68 @@
+import { useCallback, useState } from 'react';
+import type { EditorView } from '@codemirror/view';
+import type { ColumnAlignment, MarkdownTable } from '../../utils/markdownTable';
+import { getTableContext, replaceTable } from './tableEditing';
+
+// Room needed above the table for the toolbar, otherwise it goes below the table
+const TOOLBAR_HEIGHT = 36;
+
+export interface TableToolbarState {
+  row: number;
+  column: number;
+  rowCount: number;       // Header included
+  columnCount: number;
+  alignment: ColumnAlignment;
+  top: number;
+  left: number;
+}
+
+// Edit of the table around the cursor, and the cell the cursor goes to
+export type TableOperation = (table: MarkdownTable, row: number, column: number) => { table: MarkdownTable; row: number; column: number };
+
+const isSameState = (a: TableToolbarState | null, b: TableToolbarState | null) =>
+  a === b || (!!a && !!b && (Object.keys(a) as Array<keyof TableToolbarState>).every(key => a[key] === b[key]));
+
+/**
+ * Toolbar shown over the GFM table the cursor is in: rows, columns and alignment
+ */
+export const useTableToolbar = (viewRef: React.RefObject<EditorView | null>) => {
+  const [state, setState] = useState<TableToolbarState | null>(null);
+
+  // Follow the cursor (and the table while it is scrolled)
+  const update = useCallback(() => {
+    const view = viewRef.current;
+    const selection = view?.state.selection;
+    const context = view && selection?.ranges.length === 1 ? getTableContext(view.state, selection.main.head) : null;
+    const start = context && view?.coordsAtPos(context.from);
+    if (!view || !context || !start) {
+      setState(null);
+      return;
+    }
+
+    const box = view.dom.getBoundingClientRect();
+    const end = view.coordsAtPos(context.to);
+    const top = start.top - box.top >= TOOLBAR_HEIGHT ? start.top - box.top - TOOLBAR_HEIGHT : (end?.bottom ?? start.bottom) - box.top + 4;
+    const next: TableToolbarState = {
+      row: context.row,
+      column: context.column,
+      rowCount: context.table.rows.length,
+      columnCount: context.table.alignments.length,
+      alignment: context.table.alignments[context.column],
+      top,
+      left: start.left - box.left
+    };
+    setState(current => isSameState(current, next) ? current : next);
+  }, [viewRef]);
+
+  const close = useCallback(() => setState(null), []);
+
+  const apply = useCallback((operation: TableOperation) => {
+    const view = viewRef.current;
+    const context = view && getTableContext(view.state, view.state.selection.main.head);
+    if (!view || !context) return;
+    const { table, row, column } = operation(context.table, context.row, context.column);
+    replaceTable(view, context, table, row, column);
+  }, [viewRef]);
+
+  return { state, update, close, apply };
+};
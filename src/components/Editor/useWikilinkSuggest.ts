@@ -0,0 +1,244 @@
+import { useCallback, useRef, useState } from 'react';
+import type { EditorView } from '@codemirror/view';
+import { useStore } from '../../store';
+import { extractBlocks, extractHeadings } from '../../utils/wikilink';
+import { getBaseName, getParentPath } from '../../utils/path';
+import { fuzzyScore } from '../../utils/fuzzy';
+
+const MAX_SUGGESTIONS = 20;
+// [[Note#Head|  or  [[Note#^blo|  (| = cursor), on the current line
+const SUBPATH_CONTEXT_REGEX = /\[\[([^[\]|#\n]*)#(\^?)([^[\]|#\n]*)$/;
+// [[No|
+const TARGET_CONTEXT_REGEX = /\[\[([^[\]|#\n]*)$/;
+// Headings of other notes rank just below notes / aliases that match as well
+const HEADING_SCORE_PENALTY = 10;
+export interface WikilinkSuggestion {
+  label: string;
+  detail?: string;
+  insert: string;
+  // Just the note part of insert, used when the link being edited already has a heading / alias
+  target?: string;
+  kind: 'note' | 'alias' | 'heading' | 'block' | 'create';
+  level?: number;
+}
+
+export interface SuggestState {
+  items: WikilinkSuggestion[];
+  context: 'target' | 'subpath';   // Completing [[Note or [[Note#Sub
+  selectedIndex: number;
+  from: number;       // Start of the text the chosen item replaces
+  to: number;         // Cursor position
+  top: number;
+  left: number;
+}
+
+// Position just below the cursor, relative to the top-left corner of the editor
+const getCaretCoordinates = (view: EditorView, position: number) => {
+  const coords = view.coordsAtPos(position);
+  const box = view.dom.getBoundingClientRect();
+  return coords ? { top: coords.bottom - box.top, left: coords.left - box.left } : { top: 0, left: 0 };
+};
+
+/**
+ * Completes note names, aliases and headings of every note after "[[", and
+ * headings and block ids after "[[Note#" / "[[Note#^" in the editor
+ */
+export const useWikilinkSuggest = (viewRef: React.RefObject<EditorView | null>) => {
+  const { fileStore, backlinkStore } = useStore();
+  const [state, setState] = useState<SuggestState | null>(null);
+  // Last note read from disk, so typing does not re-read it on every key
+  const noteCacheRef = useRef<{ path: string; content: string } | null>(null);
+
+  const close = useCallback(() => setState(null), []);
+
+  const readNote = useCallback(async (noteName: string): Promise<string | null> => {
+    if (!noteName) return fileStore.currentContent;
+
+    const path = backlinkStore.resolveLink(noteName, fileStore.currentFile?.path);
+    if (!path) return null;
+    if (path === fileStore.currentFile?.path) return fileStore.currentContent;
+
+    const openTab = fileStore.tabStore.findTabByPath(path);
+    if (openTab) return openTab.content;
+    if (noteCacheRef.current?.path === path) return noteCacheRef.current.content;
+
+    const res = await window.electronAPI.readFile(path);
+    if (!res.success) return null;
+    noteCacheRef.current = { path, content: res.data || '' };
+    return noteCacheRef.current.content;
+  }, [fileStore, backlinkStore]);
+
+  // Notes, aliases and headings a link can point at, best fuzzy match first
+  const getTargetSuggestions = useCallback((rawQuery: string): WikilinkSuggestion[] => {
+    const query = rawQuery.trim();
+    const rootPath = fileStore.rootPath;
+    const toRelative = (path: string) => path.replace(rootPath, '').replace(/^[\\/]/, '').replace(/\\/g, '/');
+    const paths = Array.from(backlinkStore.linksMap.keys());
+
+    const getName = (path: string) => getBaseName(path).replace(/\.md$/, '');
+
+    const scored: Array<{ item: WikilinkSuggestion; score: number }> = [];
+    const add = (item: WikilinkSuggestion, text: string, penalty: number = 0) => {
+      const score = fuzzyScore(text, query);
+      if (score !== null) scored.push({ item, score: score - penalty });
+    };
+
+    paths.forEach(path => {
+      const name = getName(path);
+      // Notes sharing a name are linked with as much of their path as it takes, so the link cannot be ambiguous
+      const target = backlinkStore.getLinkTarget(path);
+      const folder = toRelative(getParentPath(path));
+      // "folder/na" is matched against the path of the note
+      add({ label: name, detail: folder || undefined, insert: target, target, kind: 'note' },
+        query.includes('/') ? toRelative(path).replace(/\.md$/, '') : name);
+      backlinkStore.getAliases(path).forEach(alias => {
+        add({ label: alias, detail: name, insert: `${target}|${alias}`, target, kind: 'alias' }, alias);
+      });
+      // Headings would drown the notes before anything is typed
+      if (!query) return;
+      new Set(backlinkStore.getHeadings(path)).forEach(heading => {
+        add({ label: heading, detail: name, insert: `${target}#${heading}`, target, kind: 'heading' }, heading, HEADING_SCORE_PENALTY);
+      });
+    });
+
+    const items = scored
+      .sort((a, b) => b.score - a.score || a.item.label.localeCompare(b.item.label))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(({ item }) => item);
+    // Offer to create the note when no note has that name or alias yet
+    if (query && !backlinkStore.resolveLink(query, fileStore.currentFile?.path)) {
+      items.push({ label: query, detail: '新建笔记', insert: query, target: query, kind: 'create' });
+    }
+    return items;
+  }, [fileStore, backlinkStore]);
+
+  // Re-evaluate after typing
+  const update = useCallback(async () => {
+    const view = viewRef.current;
+    const selection = view?.state.selection;
+    if (!view || !selection || selection.ranges.length > 1 || !selection.main.empty) {
+      setState(null);
+      return;
+    }
+
+    const cursor = selection.main.head;
+    const line = view.state.doc.lineAt(cursor);
+    const before = line.text.slice(0, cursor - line.from);
+    const match = before.match(SUBPATH_CONTEXT_REGEX);
+    if (!match) {
+      const targetMatch = before.match(TARGET_CONTEXT_REGEX);
+      const items = targetMatch ? getTargetSuggestions(targetMatch[1]) : [];
+      if (!targetMatch || items.length === 0) {
+        setState(null);
+        return;
+      }
+      const { top, left } = getCaretCoordinates(view, cursor);
+      setState({
+        items,
+        context: 'target',
+        selectedIndex: 0,
+        from: cursor - targetMatch[1].length,
+        to: cursor,
+        top,
+        left
+      });
+      return;
+    }
+
+    const [, noteName, blockPrefix, query] = match;
+    const content = await readNote(noteName.trim());
+    if (content === null) {
+      setState(null);
+      return;
+    }
+
+    const lowerQuery = query.toLowerCase();
+    const items: WikilinkSuggestion[] = blockPrefix
+      ? extractBlocks(content)
+        .filter(block => block.id.toLowerCase().includes(lowerQuery) || block.text.toLowerCase().includes(lowerQuery))
+        .map(block => ({ label: `^${block.id}`, detail: block.text, insert: `^${block.id}`, kind: 'block' }))
+      : extractHeadings(content)
+        .filter(heading => heading.text.toLowerCase().includes(lowerQuery))
+        .map(heading => ({ label: heading.text, detail: `H${heading.level}`, insert: heading.text, kind: 'heading', level: heading.level }));
+
+    // The cursor may have moved on while the note was being read
+    if (viewRef.current !== view || view.state.selection.main.head !== cursor) return;
+    if (items.length === 0) {
+      setState(null);
+      return;
+    }
+
+    const { top, left } = getCaretCoordinates(view, cursor);
+    setState({
+      items: items.slice(0, MAX_SUGGESTIONS),
+      context: 'subpath',
+      selectedIndex: 0,
+      from: cursor - blockPrefix.length - query.length,
+      to: cursor,
+      top,
+      left
+    });
+  }, [viewRef, readNote, getTargetSuggestions]);
+
+  const select = useCallback((item: WikilinkSuggestion) => {
+    const view = viewRef.current;
+    if (!view || !state) return;
+
+    const isTarget = state.context === 'target';
+    // Inside an existing [[Note#Head]] / [[Note#Head|alias]] the rest of the old target / subpath is replaced
+    // (keeping what follows it), otherwise the link is closed
+    const lineEnd = view.state.doc.lineAt(state.to).to;
+    const rest = view.state.sliceDoc(state.to, lineEnd).match(isTarget ? /^([^[\]|#\n]*)(\]\]|\||#)/ : /^([^[\]|\n]*)(\]\]|\|)/);
+    const end = rest ? state.to + rest[1].length : state.to;
+    let inserted = item.insert + ']]';
+    if (rest) {
+      // A link that already has a heading or alias of its own only gets its note replaced
+      inserted = isTarget && rest[2] !== ']]' ? (item.target ?? item.insert) : item.insert;
+    }
+    view.dispatch({
+      changes: { from: state.from, to: end, insert: inserted },
+      selection: { anchor: state.from + inserted.length },
+      userEvent: 'input.complete'
+    });
+    view.focus();
+    setState(null);
+
+    // The new note is created in the background, so writing can go on
+    if (item.kind === 'create' && fileStore.currentFile) {
+      fileStore.createLinkedNote(item.insert, fileStore.currentFile.path, false);
+    }
+  }, [viewRef, state, fileStore]);
+
+  /**
+   * Keyboard navigation while the list is open
+   * @returns Whether the key was consumed
+   */
+  const handleKeyDown = useCallback((e: KeyboardEvent): boolean => {
+    // Keys confirming an IME composition and shortcuts are not meant for the list
+    if (!state || e.isComposing || e.metaKey || e.ctrlKey || e.altKey) return false;
+
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        const count = state.items.length;
+        setState({ ...state, selectedIndex: (state.selectedIndex + step + count) % count });
+        return true;
+      }
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        select(state.items[state.selectedIndex]);
+        return true;
+      case 'Escape':
+        e.preventDefault();
+        setState(null);
+        return true;
+      default:
+        return false;
+    }
+  }, [state, select]);
+
+  return { state, update, close, select, handleKeyDown };
+};
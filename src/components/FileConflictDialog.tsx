@@ -0,0 +1,192 @@
+import { useEffect, useMemo, useState } from 'react';
+import { observer } from 'mobx-react-lite';
+import { X, AlertTriangle } from 'lucide-react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { useStore } from '../store';
+import { buildMergeHunks, applyMergeChoices, type MergeChoice } from '../utils/diff';
+import { cn } from '../utils/cn';
+
+// Unchanged runs longer than this are collapsed to their first / last lines
+const CONTEXT_LINES = 3;
+
+const CHOICE_LABELS: Record<MergeChoice, string> = {
+  mine: '保留我的',
+  theirs: '采用磁盘',
+  both: '两者都保留'
+};
+
+const HunkLines = ({ lines, className }: { lines: string[]; className: string }) => (
+  <pre className={cn('text-xs font-mono whitespace-pre-wrap break-all px-3 py-1.5 min-h-[1.75rem]', className)}>
+    {lines.length > 0 ? lines.join('\n') : <span className="italic opacity-60">(空)</span>}
+  </pre>
+);
+
+export const FileConflictDialog = observer(() => {
+  const { fileStore } = useStore();
+  const conflict = fileStore.fileConflict;
+  const [choices, setChoices] = useState<Record<number, MergeChoice>>({});
+  const [isResolving, setIsResolving] = useState(false);
+
+  const hunks = useMemo(
+    () => (conflict ? buildMergeHunks(conflict.localContent, conflict.diskContent) : []),
+    [conflict]
+  );
+  const conflictCount = hunks.filter(h => h.type === 'conflict').length;
+
+  // Start every new conflict from "keep mine"
+  useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  const resolve = async (content: string) => {
+    setIsResolving(true);
+    try {
+      await fileStore.resolveFileConflict(content);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const setAll = (choice: MergeChoice) => {
+    const next: Record<number, MergeChoice> = {};
+    hunks.forEach((hunk, index) => {
+      if (hunk.type === 'conflict') next[index] = choice;
+    });
+    setChoices(next);
+  };
+
+  if (!conflict) return null;
+
+  return (
+    <Dialog.Root open={!!conflict} onOpenChange={(open) => !open && fileStore.dismissFileConflict()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50 animate-in fade-in duration-200" />
+        <Dialog.Content className="fixed left-[50%] top-[50%] translate-x-[-50%] translate-y-[-50%] bg-white dark:bg-gray-800 rounded-lg shadow-xl z-50 w-[90vw] max-w-5xl max-h-[85vh] overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400">
+                <AlertTriangle className="w-5 h-5" />
+              </div>
+              <div>
+                <Dialog.Title className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                  文件已被外部修改
+                </Dialog.Title>
+                <Dialog.Description className="text-sm text-gray-500 dark:text-gray-400">
+                  「{conflict.file.name}」在打开后被其他程序修改，共 {conflictCount} 处差异。请选择如何处理。
+                </Dialog.Description>
+              </div>
+            </div>
+            <Dialog.Close asChild>
+              <button className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors">
+                <X size={18} className="text-gray-500" />
+              </button>
+            </Dialog.Close>
+          </div>
+
+          {/* Bulk choice */}
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
+            <div className="flex items-center gap-4">
+              <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-sm bg-blue-200 dark:bg-blue-800" />我的修改</span>
+              <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-sm bg-green-200 dark:bg-green-800" />磁盘版本</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <span>全部:</span>
+              {(Object.keys(CHOICE_LABELS) as MergeChoice[]).map(choice => (
+                <button
+                  key={choice}
+                  onClick={() => setAll(choice)}
+                  className="px-2 py-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                >
+                  {CHOICE_LABELS[choice]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Hunks */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-2">
+            {hunks.map((hunk, index) => {
+              if (hunk.type === 'same') {
+                const lines = hunk.lines;
+                if (lines.length <= CONTEXT_LINES * 2) {
+                  return <HunkLines key={index} lines={lines} className="text-gray-500 dark:text-gray-400" />;
+                }
+                return (
+                  <div key={index} className="text-gray-500 dark:text-gray-400">
+                    <HunkLines lines={lines.slice(0, CONTEXT_LINES)} className="" />
+                    <div className="px-3 text-xs italic text-gray-400">… {lines.length - CONTEXT_LINES * 2} 行相同 …</div>
+                    <HunkLines lines={lines.slice(-CONTEXT_LINES)} className="" />
+                  </div>
+                );
+              }
+
+              const choice = choices[index] || 'mine';
+              return (
+                <div key={index} className="border border-amber-300 dark:border-amber-700 rounded-md overflow-hidden">
+                  <div className="grid grid-cols-2 divide-x divide-gray-200 dark:divide-gray-700">
+                    <HunkLines
+                      lines={hunk.mine}
+                      className={cn(
+                        'bg-blue-50 dark:bg-blue-900/20 text-gray-800 dark:text-gray-200',
+                        choice === 'theirs' && 'opacity-40'
+                      )}
+                    />
+                    <HunkLines
+                      lines={hunk.theirs}
+                      className={cn(
+                        'bg-green-50 dark:bg-green-900/20 text-gray-800 dark:text-gray-200',
+                        choice === 'mine' && 'opacity-40'
+                      )}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-1 px-2 py-1 bg-gray-50 dark:bg-gray-900/50 border-t border-gray-200 dark:border-gray-700">
+                    {(Object.keys(CHOICE_LABELS) as MergeChoice[]).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => setChoices(prev => ({ ...prev, [index]: option }))}
+                        className={cn(
+                          'px-2 py-0.5 text-xs rounded transition-colors',
+                          choice === option
+                            ? 'bg-primary text-white'
+                            : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                        )}
+                      >
+                        {CHOICE_LABELS[option]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Footer */}
+          <div className="p-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50 flex justify-end gap-3">
+            <button
+              disabled={isResolving}
+              onClick={() => resolve(conflict.diskContent)}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50"
+            >
+              采用磁盘版本
+            </button>
+            <button
+              disabled={isResolving}
+              onClick={() => resolve(conflict.localContent)}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50"
+            >
+              保留我的版本
+            </button>
+            <button
+              disabled={isResolving}
+              onClick={() => resolve(applyMergeChoices(hunks, choices))}
+              className="px-4 py-2 rounded-md transition-colors bg-primary hover:bg-primary/90 text-white disabled:opacity-50"
+            >
+              保存合并结果
+            </button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+});
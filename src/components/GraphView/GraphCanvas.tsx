@@ -0,0 +1,297 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { ForceLayout, initialPosition, type LayoutNode } from '../../utils/forceLayout';
+import type { LinkGraph } from '../../store';
+
+interface GraphCanvasProps {
+  graph: LinkGraph;
+  currentPath: string | null;
+  primaryColor: string;
+  onOpen: (path: string) => void;
+}
+
+interface View {
+  x: number;
+  y: number;
+  k: number;
+}
+
+type Gesture =
+  | { kind: 'drag'; index: number; startX: number; startY: number; moved: boolean }
+  | { kind: 'pan'; startX: number; startY: number; viewX: number; viewY: number };
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 4;
+// Below this zoom only the hovered / current notes are labelled
+const LABEL_ZOOM = 1.2;
+const ORPHAN_COLOR = '#f59e0b';
+
+const nodeRadius = (linkCount: number) => 3 + Math.sqrt(linkCount) * 1.5;
+
+/**
+ * Canvas renderer for the link graph
+ * Drawing and the layout run outside React so thousands of notes stay smooth;
+ * positions survive filter changes because they are kept per note path
+ */
+export const GraphCanvas = ({ graph, currentPath, primaryColor, onOpen }: GraphCanvasProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const positionsRef = useRef(new Map<string, LayoutNode>());
+  const layoutRef = useRef<ForceLayout | null>(null);
+  const neighboursRef = useRef<Set<number>[]>([]);
+  const viewRef = useRef<View>({ x: 0, y: 0, k: 1 });
+  const hoverRef = useRef(-1);
+  const gestureRef = useRef<Gesture | null>(null);
+  const frameRef = useRef(0);
+  // Latest props for the render loop, which is not re-created on every render
+  const propsRef = useRef({ graph, currentPath, primaryColor, onOpen });
+  propsRef.current = { graph, currentPath, primaryColor, onOpen };
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const layout = layoutRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !layout || !ctx) return;
+
+    const { graph, currentPath, primaryColor } = propsRef.current;
+    const isDark = document.documentElement.classList.contains('dark');
+    const dpr = window.devicePixelRatio || 1;
+    const view = viewRef.current;
+    const hover = hoverRef.current;
+    const highlighted = hover === -1 ? null : neighboursRef.current[hover];
+    const nodes = layout.nodes;
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(dpr * view.k, 0, 0, dpr * view.k, dpr * view.x, dpr * view.y);
+
+    // Edges in one path; the hovered note's edges are drawn again on top
+    ctx.lineWidth = 1 / view.k;
+    ctx.strokeStyle = isDark ? 'rgba(156, 163, 175, 0.25)' : 'rgba(107, 114, 128, 0.25)';
+    ctx.beginPath();
+    for (const [source, target] of graph.edges) {
+      ctx.moveTo(nodes[source].x, nodes[source].y);
+      ctx.lineTo(nodes[target].x, nodes[target].y);
+    }
+    ctx.stroke();
+    if (highlighted) {
+      ctx.strokeStyle = primaryColor;
+      ctx.lineWidth = 1.5 / view.k;
+      ctx.beginPath();
+      for (const [source, target] of graph.edges) {
+        if (source !== hover && target !== hover) continue;
+        ctx.moveTo(nodes[source].x, nodes[source].y);
+        ctx.lineTo(nodes[target].x, nodes[target].y);
+      }
+      ctx.stroke();
+    }
+
+    graph.nodes.forEach((node, index) => {
+      const { x, y } = nodes[index];
+      const isCurrent = node.path === currentPath;
+      ctx.globalAlpha = highlighted && index !== hover && !highlighted.has(index) ? 0.2 : 1;
+      ctx.fillStyle = isCurrent || index === hover
+        ? primaryColor
+        : node.isOrphan ? ORPHAN_COLOR : isDark ? '#9ca3af' : '#6b7280';
+      ctx.beginPath();
+      ctx.arc(x, y, nodeRadius(node.linkCount), 0, Math.PI * 2);
+      ctx.fill();
+      if (isCurrent) {
+        ctx.strokeStyle = primaryColor;
+        ctx.lineWidth = 2 / view.k;
+        ctx.beginPath();
+        ctx.arc(x, y, nodeRadius(node.linkCount) + 3 / view.k, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    });
+
+    // Labels keep the same screen size at every zoom level
+    ctx.font = `${12 / view.k}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = isDark ? '#e5e7eb' : '#374151';
+    graph.nodes.forEach((node, index) => {
+      const isFocused = index === hover || node.path === currentPath || !!highlighted?.has(index);
+      if (!isFocused && (view.k < LABEL_ZOOM || highlighted)) return;
+      ctx.globalAlpha = 1;
+      ctx.fillText(node.name, nodes[index].x, nodes[index].y + nodeRadius(node.linkCount) + 2 / view.k);
+    });
+    ctx.globalAlpha = 1;
+  }, []);
+
+  // Draw the next frame, advancing the layout until it settles
+  const requestFrame = useCallback(() => {
+    if (frameRef.current) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = 0;
+      const layout = layoutRef.current;
+      if (layout && !layout.isSettled) layout.tick();
+      draw();
+      if (layout && !layout.isSettled) requestFrame();
+    });
+  }, [draw]);
+
+  // Rebuild the layout whenever the visible graph changes
+  useEffect(() => {
+    const positions = positionsRef.current;
+    let added = 0;
+    const nodes = graph.nodes.map((node, index) => {
+      let position = positions.get(node.path);
+      if (!position) {
+        position = { ...initialPosition(index), vx: 0, vy: 0 };
+        positions.set(node.path, position);
+        added++;
+      }
+      return position;
+    });
+
+    const neighbours = graph.nodes.map(() => new Set<number>());
+    for (const [source, target] of graph.edges) {
+      neighbours[source].add(target);
+      neighbours[target].add(source);
+    }
+    neighboursRef.current = neighbours;
+    hoverRef.current = -1;
+
+    const layout = new ForceLayout(nodes, graph.edges);
+    // Known notes only need a nudge; new ones start a full layout
+    layout.alpha = added > 0 ? 1 : 0.3;
+    layoutRef.current = layout;
+    requestFrame();
+  }, [graph, requestFrame]);
+
+  // Redraw (without re-layout) for the current note and theme
+  useEffect(() => {
+    requestFrame();
+  }, [currentPath, primaryColor, requestFrame]);
+
+  // Keep the canvas at the container's size, centered on the origin at first
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+    if (!container || !canvas) return;
+
+    let isFirst = true;
+    const observer = new ResizeObserver(() => {
+      const { width, height } = container.getBoundingClientRect();
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${height}px`;
+      if (isFirst) {
+        viewRef.current = { x: width / 2, y: height / 2, k: 1 };
+        isFirst = false;
+      }
+      requestFrame();
+    });
+    observer.observe(container);
+    return () => {
+      observer.disconnect();
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = 0;
+    };
+  }, [requestFrame]);
+
+  const toGraphPoint = (e: React.PointerEvent | React.WheelEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const view = viewRef.current;
+    const sx = e.clientX - rect.left;
+    const sy = e.clientY - rect.top;
+    return { sx, sy, x: (sx - view.x) / view.k, y: (sy - view.y) / view.k };
+  };
+
+  const hitTest = (x: number, y: number): number => {
+    const layout = layoutRef.current;
+    if (!layout) return -1;
+    const slop = 3 / viewRef.current.k;
+    const { nodes: graphNodes } = propsRef.current.graph;
+    // Last drawn is on top
+    for (let index = layout.nodes.length - 1; index >= 0; index--) {
+      const node = layout.nodes[index];
+      const radius = nodeRadius(graphNodes[index].linkCount) + slop;
+      if ((node.x - x) ** 2 + (node.y - y) ** 2 <= radius * radius) return index;
+    }
+    return -1;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = toGraphPoint(e);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const index = hitTest(x, y);
+    if (index !== -1 && layoutRef.current) {
+      layoutRef.current.nodes[index].fixed = true;
+      layoutRef.current.alphaTarget = 0.3;
+      layoutRef.current.reheat();
+      gestureRef.current = { kind: 'drag', index, startX: e.clientX, startY: e.clientY, moved: false };
+    } else {
+      const view = viewRef.current;
+      gestureRef.current = { kind: 'pan', startX: e.clientX, startY: e.clientY, viewX: view.x, viewY: view.y };
+    }
+    requestFrame();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const gesture = gestureRef.current;
+    const { x, y } = toGraphPoint(e);
+
+    if (gesture?.kind === 'drag' && layoutRef.current) {
+      const node = layoutRef.current.nodes[gesture.index];
+      node.x = x;
+      node.y = y;
+      if (Math.hypot(e.clientX - gesture.startX, e.clientY - gesture.startY) > 3) gesture.moved = true;
+    } else if (gesture?.kind === 'pan') {
+      viewRef.current.x = gesture.viewX + e.clientX - gesture.startX;
+      viewRef.current.y = gesture.viewY + e.clientY - gesture.startY;
+    } else {
+      const index = hitTest(x, y);
+      if (index === hoverRef.current) return;
+      hoverRef.current = index;
+      e.currentTarget.style.cursor = index === -1 ? 'grab' : 'pointer';
+    }
+    requestFrame();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const gesture = gestureRef.current;
+    gestureRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    if (gesture?.kind !== 'drag' || !layoutRef.current) return;
+
+    layoutRef.current.nodes[gesture.index].fixed = false;
+    layoutRef.current.alphaTarget = 0;
+    requestFrame();
+    if (!gesture.moved) {
+      propsRef.current.onOpen(propsRef.current.graph.nodes[gesture.index].path);
+    }
+  };
+
+  // Zoom around the pointer
+  const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+    const { sx, sy } = toGraphPoint(e);
+    const view = viewRef.current;
+    const k = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, view.k * Math.exp(-e.deltaY * 0.001)));
+    view.x = sx - ((sx - view.x) * k) / view.k;
+    view.y = sy - ((sy - view.y) * k) / view.k;
+    view.k = k;
+    requestFrame();
+  };
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 overflow-hidden">
+      <canvas
+        ref={canvasRef}
+        className="block touch-none"
+        style={{ cursor: 'grab' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => {
+          if (gestureRef.current || hoverRef.current === -1) return;
+          hoverRef.current = -1;
+          requestFrame();
+        }}
+        onWheel={handleWheel}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import * as Dialog from '@radix-ui/react-dialog';
+import { observer } from 'mobx-react-lite';
+import { useMemo } from 'react';
+import { Network, X } from 'lucide-react';
+import { useStore } from '../../store';
+import { MAX_LOCAL_DEPTH, type GraphMode } from '../../store/GraphStore';
+import type { FileNode } from '../../types';
+import { cn } from '../../utils/cn';
+import { GraphCanvas } from './GraphCanvas';
+
+const MODES: Array<{ value: GraphMode; label: string }> = [
+  { value: 'global', label: '全局' },
+  { value: 'local', label: '当前笔记' }
+];
+
+const collectFolders = (nodes: FileNode[], folders: FileNode[] = []): FileNode[] => {
+  for (const node of nodes) {
+    if (node.type === 'directory' && !node.name.startsWith('.')) {
+      folders.push(node);
+      if (node.children) collectFolders(node.children, folders);
+    }
+  }
+  return folders;
+};
+
+export const GraphView = observer(({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) => {
+  const { graphStore, fileStore, tagStore, uiStore } = useStore();
+
+  const folders = useMemo(() => collectFolders(fileStore.fileTree), [fileStore.fileTree]);
+
+  // The graph is only derived (and kept up to date) while the panel is open
+  if (!isOpen) return null;
+
+  const tags = tagStore.getAllTags();
+  const { graph, visibleGraph } = graphStore;
+  const currentPath = fileStore.currentFile?.path ?? null;
+  const primaryColor = uiStore.themeColor.startsWith('#') ? uiStore.themeColor : '#1F68D3';
+
+  const getRelativePath = (fullPath: string): string => {
+    if (!fileStore.rootPath) return fullPath;
+    return fullPath.replace(fileStore.rootPath, '').replace(/^[\\/]/, '');
+  };
+
+  const handleOpen = async (path: string) => {
+    if (await fileStore.openFileByPath(path)) onClose();
+  };
+
+  const emptyMessage = graphStore.mode === 'local' && !currentPath
+    ? '打开一个笔记以查看它的关系图谱'
+    : visibleGraph.nodes.length === 0 ? '没有符合条件的笔记' : null;
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 animate-in fade-in duration-200" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-[90vw] h-[85vh] max-w-6xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-gray-200 dark:border-gray-700 animate-in zoom-in-95 duration-200 flex flex-col overflow-hidden">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700 shrink-0">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-violet-100 dark:bg-violet-900/30 rounded-lg">
+                <Network size={20} className="text-violet-600 dark:text-violet-400" />
+              </div>
+              <div>
+                <Dialog.Title className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                  关系图谱
+                </Dialog.Title>
+                <Dialog.Description className="text-sm text-gray-500 dark:text-gray-400">
+                  {graph.nodes.length} 个笔记，{graph.edges.length} 条链接，{graphStore.orphanCount} 个孤立笔记
+                </Dialog.Description>
+              </div>
+            </div>
+            <Dialog.Close className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+              <X size={18} />
+            </Dialog.Close>
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-gray-200 dark:border-gray-700 text-sm shrink-0">
+            <div className="flex items-center bg-gray-100 dark:bg-gray-900 rounded-md p-0.5">
+              {MODES.map(mode => (
+                <button
+                  key={mode.value}
+                  onClick={() => graphStore.setMode(mode.value)}
+                  className={cn(
+                    'px-3 py-1 rounded text-xs transition-all',
+                    graphStore.mode === mode.value
+                      ? 'bg-white dark:bg-gray-700 shadow-sm text-primary'
+                      : 'text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
+                  )}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+            {graphStore.mode === 'local' && (
+              <select
+                value={graphStore.localDepth}
+                onChange={(e) => graphStore.setLocalDepth(Number(e.target.value))}
+                className="px-2 py-1.5 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-gray-700 dark:text-gray-300"
+                title="显示几层链接内的笔记"
+              >
+                {Array.from({ length: MAX_LOCAL_DEPTH }, (_, i) => i + 1).map(depth => (
+                  <option key={depth} value={depth}>{depth} 层</option>
+                ))}
+              </select>
+            )}
+            <select
+              value={graphStore.folder}
+              onChange={(e) => graphStore.setFolder(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1.5 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-gray-700 dark:text-gray-300"
+            >
+              <option value="">所有文件夹</option>
+              {folders.map(folder => (
+                <option key={folder.path} value={folder.path}>{getRelativePath(folder.path)}</option>
+              ))}
+            </select>
+            <select
+              value={graphStore.tag}
+              onChange={(e) => graphStore.setTag(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1.5 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-gray-700 dark:text-gray-300"
+            >
+              <option value="">所有标签</option>
+              {tags.map(tag => (
+                <option key={tag.name} value={tag.name}>#{tag.name}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1.5 text-gray-600 dark:text-gray-300 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={graphStore.showOrphans}
+                onChange={() => graphStore.toggleOrphans()}
+                className="accent-primary"
+              />
+              显示孤立笔记
+            </label>
+          </div>
+
+          {/* Graph */}
+          <div className="flex-1 relative bg-gray-50 dark:bg-gray-900/50">
+            {emptyMessage ? (
+              <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-400">
+                {emptyMessage}
+              </div>
+            ) : (
+              <GraphCanvas
+                graph={visibleGraph}
+                currentPath={currentPath}
+                primaryColor={primaryColor}
+                onOpen={handleOpen}
+              />
+            )}
+            <div className="absolute bottom-3 left-4 flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400 pointer-events-none">
+              <span className="flex items-center gap-1.5">
+                <span className="w-2.5 h-2.5 rounded-full bg-primary" />
+                当前笔记
+              </span>
+              <span className="flex items-center gap-1.5">
+                <span className="w-2.5 h-2.5 rounded-full bg-amber-500" />
+                孤立笔记
+              </span>
+              <span>节点大小表示链接数 · 拖动画布平移，滚轮缩放，点击节点打开笔记</span>
+            </div>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+});
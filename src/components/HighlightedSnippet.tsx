@@ -0,0 +1,25 @@
+import type { ReactNode } from 'react';
+import type { SearchSnippet } from '../types';
+
+// Matched line with the hit ranges reported by the search index emphasised
+export const HighlightedSnippet = ({ snippet }: { snippet: SearchSnippet }) => {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach((highlight, idx) => {
+    if (highlight.start > cursor) parts.push(snippet.text.slice(cursor, highlight.start));
+    parts.push(
+      <mark key={idx} className="bg-yellow-200 dark:bg-yellow-600/40 text-inherit rounded-sm px-0.5">
+        {snippet.text.slice(highlight.start, highlight.end)}
+      </mark>
+    );
+    cursor = highlight.end;
+  });
+  if (cursor < snippet.text.length) parts.push(snippet.text.slice(cursor));
+
+  return (
+    <>
+      <span className="text-gray-400 mr-1">{snippet.line}</span>
+      {parts}
+    </>
+  );
+};
@@ -13,8 +13,11 @@ const shortcuts = [
   { key: '⌘ + Tab', description: '切换到下一个标签', category: '标签' },
   { key: '⌘ + Shift + Tab', description: '切换到上一个标签', category: '标签' },
   { key: '⌘ + E', description: '导出笔记', category: '文件' },
+  { key: '⌘ + F', description: '在当前笔记中查找替换', category: '文件' },
+  { key: '⌘ + Shift + H', description: '全局查找替换', category: '文件' },
   { key: '⌘ + /', description: '显示/隐藏快捷键帮助', category: '帮助' },
   { key: '⌘ + B', description: '切换侧边栏', category: '视图' },
+  { key: '⌘ + G', description: '打开关系图谱', category: '视图' },
   { key: '⌘ + Shift + I', description: '打开开发者工具', category: '开发' },
 ];
 
@@ -0,0 +1,98 @@
+import { observer } from 'mobx-react-lite';
+import { X, Link2, FileText, AlertTriangle } from 'lucide-react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { useStore } from '../store';
+import { getBaseName } from '../utils/path';
+
+export const LinkRewriteDialog = observer(() => {
+  const { fileStore } = useStore();
+  const prompt = fileStore.linkRewritePrompt;
+  const isBusy = fileStore.isRewritingLinks;
+
+  if (!prompt) return null;
+
+  const action = prompt.kind === 'rename' ? '重命名' : '移动';
+  const hasUnsaved = prompt.affected.some(file => fileStore.unsavedFilePaths.has(file.path));
+
+  return (
+    <Dialog.Root open={!!prompt} onOpenChange={(open) => !open && !isBusy && fileStore.dismissLinkRewrite()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50 animate-in fade-in duration-200" />
+        <Dialog.Content className="fixed left-[50%] top-[50%] translate-x-[-50%] translate-y-[-50%] bg-white dark:bg-gray-800 rounded-lg shadow-xl z-50 w-[90vw] max-w-lg max-h-[80vh] overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400">
+                <Link2 className="w-5 h-5" />
+              </div>
+              <div>
+                <Dialog.Title className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                  更新链接
+                </Dialog.Title>
+                <Dialog.Description className="text-sm text-gray-500 dark:text-gray-400">
+                  {action}「{getBaseName(prompt.oldPath)}」→「{getBaseName(prompt.newPath)}」会影响 {prompt.affected.length} 个笔记中的链接。
+                </Dialog.Description>
+              </div>
+            </div>
+            <Dialog.Close asChild>
+              <button disabled={isBusy} className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50">
+                <X size={18} className="text-gray-500" />
+              </button>
+            </Dialog.Close>
+          </div>
+
+          {/* Affected notes */}
+          <div className="flex-1 overflow-y-auto p-2">
+            {prompt.affected.map(file => (
+              <div key={file.path} className="flex items-center gap-2 px-2 py-1.5 text-sm" title={file.path}>
+                <FileText size={14} className="text-gray-400 flex-shrink-0" />
+                <span className="flex-1 truncate text-gray-800 dark:text-gray-200">{file.name}</span>
+                {fileStore.unsavedFilePaths.has(file.path) && (
+                  <span className="text-xs text-amber-600 dark:text-amber-400">未保存</span>
+                )}
+                <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                  {[
+                    file.wikilinks > 0 && `${file.wikilinks} 个双链`,
+                    file.paths > 0 && `${file.paths} 个路径`
+                  ].filter(Boolean).join('，')}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {hasUnsaved && (
+            <div className="flex items-start gap-2 mx-4 mb-2 p-2 text-xs rounded bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400">
+              <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+              <span>标记为未保存的笔记在编辑器中有未保存的修改，保存时需要与更新后的版本合并。</span>
+            </div>
+          )}
+
+          {/* Footer */}
+          <div className="p-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50 flex justify-end gap-3">
+            <button
+              disabled={isBusy}
+              onClick={() => fileStore.dismissLinkRewrite()}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50"
+            >
+              取消
+            </button>
+            <button
+              disabled={isBusy}
+              onClick={() => fileStore.confirmLinkRewrite(false)}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50"
+            >
+              仅{action}
+            </button>
+            <button
+              disabled={isBusy}
+              onClick={() => fileStore.confirmLinkRewrite(true)}
+              className="px-4 py-2 rounded-md transition-colors bg-primary hover:bg-primary/90 text-white disabled:opacity-50"
+            >
+              {isBusy ? '正在更新...' : `更新链接并${action}`}
+            </button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+});
@@ -0,0 +1,156 @@
+import { observer } from 'mobx-react-lite';
+import { useMemo, useState } from 'react';
+import { IndentDecrease, IndentIncrease, ListTree, X } from 'lucide-react';
+import { useStore } from '../../store';
+import { cn } from '../../utils/cn';
+import { normalizeHeading } from '../../utils/wikilink';
+import { extractOutline, findOutlineIndex, moveSection, shiftSectionLevel, type OutlineItem } from '../../utils/outline';
+
+interface DropTarget {
+  index: number;
+  position: 'before' | 'after';
+}
+
+// Heading as it reads: without inline markdown and wikilink brackets
+const displayHeading = (text: string) => text
+  .replace(/\[\[([^\]|]*\|)?([^\]]*)\]\]/g, '$2')
+  .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/[*_`~]/g, '')
+  .trim();
+
+interface OutlinePanelProps {
+  activeLine: number | null;   // Line of the editor cursor, to highlight the section it is in
+  onNavigate: (item: OutlineItem, occurrence: number) => void;
+  onEdit: (content: string) => void;
+}
+
+/**
+ * Headings of the current note: click to jump, drag to move a section,
+ * promote / demote a heading together with its subheadings
+ */
+export const OutlinePanel = observer(function OutlinePanel({ activeLine, onNavigate, onEdit }: OutlinePanelProps) {
+  const { fileStore, uiStore, toastStore } = useStore();
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const content = fileStore.currentContent;
+  const outline = useMemo(() => extractOutline(content), [content]);
+  const minLevel = Math.min(...outline.map(item => item.level));
+  const activeIndex = activeLine === null ? -1 : findOutlineIndex(outline, activeLine);
+
+  // Headings with the same text come before this one, so the right one is found in the preview
+  const getOccurrence = (index: number) => {
+    const wanted = normalizeHeading(outline[index].text);
+    return outline.slice(0, index).filter(item => normalizeHeading(item.text) === wanted).length;
+  };
+
+  const handleShift = (index: number, delta: number) => {
+    const result = shiftSectionLevel(content, outline, index, delta);
+    if (result === null) {
+      toastStore.warning(delta < 0 ? '已是一级标题' : '子标题已是六级标题，无法继续降级');
+      return;
+    }
+    onEdit(result);
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    if (dragIndex === null) return;
+    const source = outline[dragIndex];
+    // Not into the dragged section itself
+    if (outline[index].line >= source.line && outline[index].line < source.endLine) {
+      setDropTarget(null);
+      return;
+    }
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const rect = e.currentTarget.getBoundingClientRect();
+    const position = e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+    if (dropTarget?.index !== index || dropTarget.position !== position) setDropTarget({ index, position });
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (dragIndex !== null && dropTarget) {
+      const result = moveSection(content, outline, dragIndex, dropTarget.index, dropTarget.position);
+      if (result !== null && result !== content) onEdit(result);
+    }
+    setDragIndex(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <div className="w-60 shrink-0 h-full flex flex-col border-l border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900">
+      <div className="px-4 py-2 flex items-center justify-between text-sm border-b border-gray-100 dark:border-gray-800 shrink-0">
+        <div className="flex items-center gap-2">
+          <ListTree size={16} className="text-primary" />
+          <span className="font-medium text-gray-700 dark:text-gray-200">大纲</span>
+        </div>
+        <button
+          className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          onClick={() => uiStore.toggleOutline()}
+          title="关闭大纲"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar py-2">
+        {outline.length === 0 ? (
+          <div className="px-4 py-2 text-xs text-gray-400">没有标题</div>
+        ) : outline.map((item, index) => (
+          <div
+            key={`${item.line}-${item.text}`}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDragIndex(index);
+            }}
+            onDragOver={(e) => handleDragOver(e, index)}
+            onDrop={handleDrop}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropTarget(null);
+            }}
+            onClick={() => onNavigate(item, getOccurrence(index))}
+            className={cn(
+              'relative mx-2 flex items-center gap-1 pr-1 py-1 text-sm rounded-md cursor-pointer group transition-colors',
+              index === activeIndex
+                ? 'bg-primary/10 text-primary'
+                : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800',
+              dragIndex === index && 'opacity-50'
+            )}
+            style={{ paddingLeft: `${8 + (item.level - minLevel) * 12}px` }}
+            title={displayHeading(item.text)}
+          >
+            {dropTarget?.index === index && (
+              <div className={cn('absolute left-0 right-0 h-0.5 bg-primary pointer-events-none', dropTarget.position === 'before' ? '-top-px' : '-bottom-px')} />
+            )}
+            <span className={cn('flex-1 truncate', item.level === minLevel && 'font-medium')}>
+              {displayHeading(item.text)}
+            </span>
+            <button
+              className="p-0.5 rounded text-gray-400 hover:text-primary opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleShift(index, -1);
+              }}
+              title="提升级别"
+            >
+              <IndentDecrease size={13} />
+            </button>
+            <button
+              className="p-0.5 rounded text-gray-400 hover:text-primary opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleShift(index, 1);
+              }}
+              title="降低级别"
+            >
+              <IndentIncrease size={13} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
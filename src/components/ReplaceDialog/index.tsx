@@ -0,0 +1,273 @@
+import * as Dialog from '@radix-ui/react-dialog';
+import { observer } from 'mobx-react-lite';
+import { useMemo, useState } from 'react';
+import { Replace, X, ChevronRight, Loader2, AlertTriangle, Regex, CaseSensitive } from 'lucide-react';
+import { useStore } from '../../store';
+import type { FileNode, ReplaceFilePreview } from '../../types';
+import { cn } from '../../utils/cn';
+
+// Changed lines shown per file before "show all"
+const PREVIEW_CHANGE_LIMIT = 20;
+
+const collectFolders = (nodes: FileNode[], folders: FileNode[] = []): FileNode[] => {
+  for (const node of nodes) {
+    if (node.type === 'directory') {
+      folders.push(node);
+      if (node.children) collectFolders(node.children, folders);
+    }
+  }
+  return folders;
+};
+
+const ChangeLines = ({ lines, kind }: { lines: string[]; kind: 'before' | 'after' }) => (
+  <pre
+    className={cn(
+      'text-xs font-mono whitespace-pre-wrap break-all px-3 py-1',
+      kind === 'before'
+        ? 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300'
+        : 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300'
+    )}
+  >
+    {lines.length > 0
+      ? lines.map(line => `${kind === 'before' ? '-' : '+'} ${line}`).join('\n')
+      : <span className="italic opacity-60">(空)</span>}
+  </pre>
+);
+
+const ReplaceFileItem = observer(({ preview, relativePath }: { preview: ReplaceFilePreview; relativePath: string }) => {
+  const { replaceStore } = useStore();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+  const isSelected = replaceStore.selectedPaths.has(preview.path);
+  const isUnsaved = replaceStore.hasUnsavedChanges(preview.path);
+  const changes = showAll ? preview.changes : preview.changes.slice(0, PREVIEW_CHANGE_LIMIT);
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-md overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 bg-gray-50 dark:bg-gray-900/50">
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={() => replaceStore.toggleSelected(preview.path)}
+          className="accent-primary"
+        />
+        <div
+          className="flex-1 flex items-center gap-2 min-w-0 cursor-pointer select-none"
+          onClick={() => setIsExpanded(!isExpanded)}
+        >
+          <ChevronRight
+            size={14}
+            className={cn('text-gray-400 transition-transform shrink-0', isExpanded && 'rotate-90')}
+          />
+          <span className="text-sm text-gray-800 dark:text-gray-200 truncate">{relativePath}</span>
+          {isUnsaved && (
+            <span
+              className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400 shrink-0"
+              title="编辑器中有未保存的修改，替换会覆盖磁盘上的版本"
+            >
+              <AlertTriangle size={12} />
+              未保存
+            </span>
+          )}
+        </div>
+        <span className="text-xs text-gray-400 shrink-0">{preview.matchCount} 处</span>
+      </div>
+
+      {isExpanded && (
+        <div className="divide-y divide-gray-100 dark:divide-gray-700/50">
+          {changes.map((change, index) => (
+            <div key={index}>
+              <div className="px-3 pt-1 text-[10px] text-gray-400">第 {change.line} 行</div>
+              <ChangeLines lines={change.before} kind="before" />
+              <ChangeLines lines={change.after} kind="after" />
+            </div>
+          ))}
+          {!showAll && preview.changes.length > PREVIEW_CHANGE_LIMIT && (
+            <div
+              className="px-3 py-1.5 text-xs text-gray-400 hover:text-primary italic cursor-pointer"
+              onClick={() => setShowAll(true)}
+            >
+              还有 {preview.changes.length - PREVIEW_CHANGE_LIMIT} 处修改...
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export const ReplaceDialog = observer(({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) => {
+  const { replaceStore, fileStore, tagStore } = useStore();
+  const { options, previews } = replaceStore;
+
+  const folders = useMemo(() => collectFolders(fileStore.fileTree), [fileStore.fileTree]);
+  const tags = tagStore.getAllTags();
+
+  const getRelativePath = (fullPath: string): string => {
+    if (!fileStore.rootPath) return fullPath;
+    return fullPath.replace(fileStore.rootPath, '').replace(/^[\\/]/, '');
+  };
+
+  const handleApply = async () => {
+    const selectedCount = replaceStore.selectedPaths.size;
+    if (!confirm(`确定要在 ${selectedCount} 个文件中替换 ${replaceStore.selectedMatchCount} 处内容吗？`)) return;
+    await replaceStore.apply();
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      replaceStore.reset();
+      onClose();
+    }
+  };
+
+  const allSelected = previews.length > 0 && replaceStore.selectedPaths.size === previews.length;
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={handleOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 animate-in fade-in duration-200" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-full max-w-4xl max-h-[85vh] bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-gray-200 dark:border-gray-700 animate-in zoom-in-95 duration-200 flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700 shrink-0">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-emerald-100 dark:bg-emerald-900/30 rounded-lg">
+                <Replace size={20} className="text-emerald-600 dark:text-emerald-400" />
+              </div>
+              <div>
+                <Dialog.Title className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                  全局替换
+                </Dialog.Title>
+                <Dialog.Description className="text-sm text-gray-500 dark:text-gray-400">
+                  在所有笔记中查找并替换，替换结果会作为一次 git 提交，可以整体撤销
+                </Dialog.Description>
+              </div>
+            </div>
+            <Dialog.Close className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+              <X size={18} />
+            </Dialog.Close>
+          </div>
+
+          {/* Options */}
+          <div className="px-6 py-4 space-y-3 border-b border-gray-200 dark:border-gray-700 shrink-0">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                autoFocus
+                placeholder="查找"
+                value={options.find}
+                onChange={(e) => replaceStore.setOption('find', e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && replaceStore.preview()}
+                className="flex-1 px-3 py-1.5 text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-emerald-500"
+              />
+              <button
+                onClick={() => replaceStore.setOption('isRegex', !options.isRegex)}
+                className={cn(
+                  'p-1.5 rounded-md transition-colors',
+                  options.isRegex ? 'bg-primary text-white' : 'text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700'
+                )}
+                title="使用正则表达式"
+              >
+                <Regex size={16} />
+              </button>
+              <button
+                onClick={() => replaceStore.setOption('caseSensitive', !options.caseSensitive)}
+                className={cn(
+                  'p-1.5 rounded-md transition-colors',
+                  options.caseSensitive ? 'bg-primary text-white' : 'text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700'
+                )}
+                title="区分大小写"
+              >
+                <CaseSensitive size={16} />
+              </button>
+            </div>
+            <input
+              type="text"
+              placeholder={options.isRegex ? '替换为 (可使用 $1 引用分组)' : '替换为'}
+              value={options.replace}
+              onChange={(e) => replaceStore.setOption('replace', e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && replaceStore.preview()}
+              className="w-full px-3 py-1.5 text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-emerald-500"
+            />
+            <div className="flex items-center gap-3 text-sm">
+              <select
+                value={options.folder}
+                onChange={(e) => replaceStore.setOption('folder', e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1.5 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-gray-700 dark:text-gray-300"
+              >
+                <option value="">所有文件夹</option>
+                {folders.map(folder => (
+                  <option key={folder.path} value={folder.path}>{getRelativePath(folder.path)}</option>
+                ))}
+              </select>
+              <select
+                value={options.tag}
+                onChange={(e) => replaceStore.setOption('tag', e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1.5 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md text-gray-700 dark:text-gray-300"
+              >
+                <option value="">所有标签</option>
+                {tags.map(tag => (
+                  <option key={tag.name} value={tag.name}>#{tag.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => replaceStore.preview()}
+                disabled={!options.find || replaceStore.isPreviewing}
+                className="px-4 py-1.5 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 flex items-center gap-1.5"
+              >
+                {replaceStore.isPreviewing && <Loader2 size={14} className="animate-spin" />}
+                预览
+              </button>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="flex-1 overflow-y-auto custom-scrollbar px-6 py-4 space-y-2 min-h-[120px]">
+            {replaceStore.error ? (
+              <div className="text-center text-sm text-red-500 py-10 break-all">{replaceStore.error}</div>
+            ) : previews.length === 0 ? (
+              <div className="text-center text-sm text-gray-400 py-10">
+                {replaceStore.isPreviewing ? '正在查找...' : '输入查找内容后点击「预览」'}
+              </div>
+            ) : (
+              <>
+                {replaceStore.isPreviewStale && (
+                  <div className="p-2 text-xs bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 rounded-md">
+                    查找条件已修改，请重新预览后再替换。
+                  </div>
+                )}
+                <label className="flex items-center gap-2 px-3 text-xs text-gray-500 dark:text-gray-400 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={() => replaceStore.setAllSelected(!allSelected)}
+                    className="accent-primary"
+                  />
+                  全选 ({previews.length} 个文件)
+                </label>
+                {previews.map(preview => (
+                  <ReplaceFileItem key={preview.path} preview={preview} relativePath={getRelativePath(preview.path)} />
+                ))}
+              </>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50 rounded-b-xl flex items-center justify-between shrink-0">
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              已选 {replaceStore.selectedPaths.size} 个文件，共 {replaceStore.selectedMatchCount} 处
+            </span>
+            <button
+              onClick={handleApply}
+              disabled={replaceStore.selectedPaths.size === 0 || replaceStore.isApplying || replaceStore.isPreviewStale}
+              className="px-4 py-2 rounded-md transition-colors bg-primary hover:bg-primary/90 text-white disabled:opacity-50 flex items-center gap-1.5"
+            >
+              {replaceStore.isApplying && <Loader2 size={14} className="animate-spin" />}
+              替换并提交
+            </button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+});
@@ -4,6 +4,7 @@ import { useStore } from '../../store';
 import { cn } from '../../utils/cn';
 import logo from '../../assets/zhixia-logo.svg';
 import type { FileNode } from '../../types';
+import type { SearchResult, SmartFolder } from '../../store';
 import {
   Folder,
   FileText,
@@ -27,12 +28,15 @@ import {
   StarOff,
   SortAsc,
   SortDesc,
-  Tag as TagIcon
+  Tag as TagIcon,
+  FolderSearch,
+  BookmarkPlus
 } from 'lucide-react';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
 import * as Tooltip from '@radix-ui/react-tooltip';
 import { ExportProgressDialog } from '../ExportProgressDialog';
 import { TagDrawer } from '../TagDrawer';
+import { HighlightedSnippet } from '../HighlightedSnippet';
 
 // Create context for expand/collapse state
 
@@ -461,10 +465,115 @@ const FavoriteItem = observer(({ path, onRemove }: { path: string; onRemove: (pa
   );
 });
 
+// Smart Folder Item Component - A saved search whose file list follows the notes live
+const SmartFolderItem = observer(({ folder }: { folder: SmartFolder }) => {
+  const { fileStore } = useStore();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [renameValue, setRenameValue] = useState(folder.name);
+
+  const results = fileStore.smartFolderStore.getResults(folder.id);
+  const error = fileStore.smartFolderStore.errors[folder.id];
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renameValue.trim() && renameValue.trim() !== folder.name) {
+      await fileStore.smartFolderStore.renameFolder(folder.id, renameValue);
+    }
+    setIsRenaming(false);
+  };
+
+  const handleRemove = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (confirm(`确定要删除智能文件夹「${folder.name}」吗？笔记本身不会被删除。`)) {
+      fileStore.smartFolderStore.removeFolder(folder.id);
+    }
+  };
+
+  if (isRenaming) {
+    return (
+      <div className="px-2 py-1">
+        <form onSubmit={handleRename} className="flex items-center px-2">
+          <FolderSearch size={16} className="mr-2 text-primary shrink-0" />
+          <input
+            autoFocus
+            className="flex-1 min-w-0 text-sm border rounded px-1 outline-none focus:ring-1 focus:ring-emerald-500 dark:bg-gray-800 dark:text-gray-200"
+            value={renameValue}
+            onChange={e => setRenameValue(e.target.value)}
+            onBlur={handleRename}
+          />
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-2 py-1">
+      <div
+        className="group flex items-center py-1.5 px-2 cursor-pointer transition-colors rounded-md text-sm select-none hover:bg-gray-100 dark:hover:bg-gray-800"
+        onClick={() => setIsExpanded(!isExpanded)}
+        onDoubleClick={(e) => {
+          e.stopPropagation();
+          setRenameValue(folder.name);
+          setIsRenaming(true);
+        }}
+        title={folder.query}
+      >
+        <FolderSearch size={16} className="mr-2 text-primary shrink-0" />
+        <span className="flex-1 truncate">{folder.name}</span>
+        <span className="text-xs text-gray-400 mr-1">({results.length})</span>
+        <ChevronRight
+          size={12}
+          className={cn("text-gray-400 transition-transform mr-1", isExpanded ? "rotate-90" : "")}
+        />
+        <button
+          className="opacity-0 group-hover:opacity-100 p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-opacity"
+          onClick={(e) => {
+            e.stopPropagation();
+            fileStore.setSearchQuery(folder.query);
+          }}
+          title="在搜索中打开"
+        >
+          <Search size={12} className="text-gray-500" />
+        </button>
+        <button
+          className="opacity-0 group-hover:opacity-100 p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-opacity"
+          onClick={handleRemove}
+          title="删除智能文件夹"
+        >
+          <Trash size={12} className="text-gray-500" />
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="ml-4 mt-1 space-y-0.5">
+          {results.map(result => (
+            <div
+              key={result.path}
+              className="group flex items-center py-1 px-2 cursor-pointer transition-colors rounded text-xs select-none hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-600 dark:text-gray-400"
+              onClick={() => fileStore.openFileByPath(result.path)}
+              title={result.path}
+            >
+              <FileText size={12} className="mr-2 shrink-0" />
+              <span className="flex-1 truncate">{result.name.endsWith('.md') ? result.name.slice(0, -3) : result.name}</span>
+            </div>
+          ))}
+          {error ? (
+            <div className="py-1 px-2 text-xs text-red-500 break-all">{error}</div>
+          ) : results.length === 0 && (
+            <div className="py-1 px-2 text-xs text-gray-400">没有匹配的笔记</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
 // Search Result Item Component
-const SearchResultItem = observer(({ result }: { result: { path: string; name: string; matches: string[] } }) => {
+const SearchResultItem = observer(({ result }: { result: SearchResult }) => {
   const { fileStore } = useStore();
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showAllMatches, setShowAllMatches] = useState(false);
 
   const handleSelect = () => {
     // Find the file node in the file tree and select it
@@ -486,6 +595,8 @@ const SearchResultItem = observer(({ result }: { result: { path: string; name: s
   };
 
   const displayName = result.name.endsWith('.md') ? result.name.slice(0, -3) : result.name;
+  // Filter-only queries (tag:, updated:, ...) match whole notes, not lines
+  const hasMatches = result.matches.length > 0;
 
   return (
     <div className="px-2 py-1">
@@ -497,15 +608,19 @@ const SearchResultItem = observer(({ result }: { result: { path: string; name: s
                 "group flex items-center py-1.5 px-2 cursor-pointer transition-colors rounded-md text-sm select-none",
                 "hover:bg-gray-100 dark:hover:bg-gray-800"
               )}
-              onClick={() => setIsExpanded(!isExpanded)}
+              onClick={() => (hasMatches ? setIsExpanded(!isExpanded) : handleSelect())}
             >
               <FileText size={16} className="mr-2 text-gray-400 shrink-0" />
               <span className="flex-1 truncate">{displayName}</span>
-              <span className="text-xs text-gray-400 ml-2">{result.matches.length} 个匹配</span>
-              <ChevronRight
-                size={14}
-                className={cn("text-gray-400 transition-transform shrink-0 ml-1", isExpanded ? "rotate-90" : "")}
-              />
+              {hasMatches && (
+                <>
+                  <span className="text-xs text-gray-400 ml-2">{result.matches.length} 个匹配</span>
+                  <ChevronRight
+                    size={14}
+                    className={cn("text-gray-400 transition-transform shrink-0 ml-1", isExpanded ? "rotate-90" : "")}
+                  />
+                </>
+              )}
             </div>
           </Tooltip.Trigger>
           <Tooltip.Portal>
@@ -513,7 +628,7 @@ const SearchResultItem = observer(({ result }: { result: { path: string; name: s
               className="px-2 py-1 text-xs bg-gray-900 text-white rounded shadow-lg z-50 max-w-xs"
               sideOffset={5}
             >
-              点击查看匹配内容
+              {hasMatches ? '点击查看匹配内容' : result.path}
               <Tooltip.Arrow className="fill-gray-900" />
             </Tooltip.Content>
           </Tooltip.Portal>
@@ -522,18 +637,32 @@ const SearchResultItem = observer(({ result }: { result: { path: string; name: s
 
       {isExpanded && (
         <div className="ml-6 mt-1 space-y-1">
-          {result.matches.slice(0, 5).map((match, idx) => (
+          {result.snippets
+            ? (showAllMatches ? result.snippets : result.snippets.slice(0, 5)).map((snippet, idx) => (
+              <div
+                key={idx}
+                className="text-xs text-gray-600 dark:text-gray-400 hover:text-primary dark:hover:text-primary cursor-pointer px-2 py-1 rounded hover:bg-gray-50 dark:hover:bg-gray-800/50 break-all"
+                onClick={handleSelect}
+                title={snippet.text}
+              >
+                <HighlightedSnippet snippet={snippet} />
+              </div>
+            ))
+            : (showAllMatches ? result.matches : result.matches.slice(0, 5)).map((match, idx) => (
+              <div
+                key={idx}
+                className="text-xs text-gray-600 dark:text-gray-400 hover:text-primary dark:hover:text-primary cursor-pointer px-2 py-1 rounded hover:bg-gray-50 dark:hover:bg-gray-800/50"
+                onClick={handleSelect}
+                title={match}
+              >
+                {match.length > 80 ? match.slice(0, 80) + '...' : match}
+              </div>
+            ))}
+          {!showAllMatches && result.matches.length > 5 && (
             <div
-              key={idx}
-              className="text-xs text-gray-600 dark:text-gray-400 hover:text-primary dark:hover:text-primary cursor-pointer px-2 py-1 rounded hover:bg-gray-50 dark:hover:bg-gray-800/50"
-              onClick={handleSelect}
-              title={match}
+              className="text-xs text-gray-400 hover:text-primary px-2 italic cursor-pointer"
+              onClick={() => setShowAllMatches(true)}
             >
-              {match.length > 80 ? match.slice(0, 80) + '...' : match}
-            </div>
-          ))}
-          {result.matches.length > 5 && (
-            <div className="text-xs text-gray-400 px-2 italic">
               还有 {result.matches.length - 5} 个匹配...
             </div>
           )}
@@ -549,6 +678,8 @@ export const Sidebar = observer(() => {
   const [isResizing, setIsResizing] = useState(false);
   // const [expandAll, setExpandAll] = useState<boolean | 'level1' | null>(null); // Removed
   const [favoritesExpanded, setFavoritesExpanded] = useState(true);
+  const [smartFoldersExpanded, setSmartFoldersExpanded] = useState(true);
+  const [smartFolderName, setSmartFolderName] = useState<string | null>(null);
   const [tagDrawerOpen, setTagDrawerOpen] = useState(false);
 
   // 拖拽调整宽度
@@ -675,7 +806,8 @@ export const Sidebar = observer(() => {
           <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400" />
           <input
             type="text"
-            placeholder="搜索..."
+            placeholder='搜索... (tag: path: "短语" -排除)'
+            title={'支持的语法:\n  tag:标签  path:路径  name:文件名  notebook:笔记本\n  updated:>2026-01-01  created:<=2026-03\n  "精确短语"  -排除词  /正则/i  (a OR b)'}
             className="w-full pl-8 pr-3 py-1.5 text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-emerald-500 text-gray-700 dark:text-gray-200 placeholder-gray-400"
             value={fileStore.searchQuery}
             onChange={(e) => fileStore.setSearchQuery(e.target.value)}
@@ -691,15 +823,46 @@ export const Sidebar = observer(() => {
               <Loader2 size={20} className="animate-spin text-primary" />
               <span className="ml-2 text-sm text-gray-500">搜索中...</span>
             </div>
+          ) : fileStore.searchError ? (
+            <div className="text-center text-xs text-red-500 mt-10 px-2 break-all">
+              {fileStore.searchError}
+            </div>
           ) : fileStore.searchResults.length === 0 ? (
             <div className="text-center text-xs text-gray-400 mt-10 px-2">
               未找到匹配内容
             </div>
           ) : (
             <>
-              <div className="px-3 py-2 text-xs font-medium text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-800">
-                内容搜索 ({fileStore.searchResults.length} 个文件)
+              <div className="flex items-center px-3 py-2 text-xs font-medium text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-800">
+                <span className="flex-1">内容搜索 ({fileStore.searchResults.length} 个文件)</span>
+                <button
+                  className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+                  onClick={() => setSmartFolderName(fileStore.searchQuery.trim())}
+                  title="保存为智能文件夹"
+                >
+                  <BookmarkPlus size={14} />
+                </button>
               </div>
+              {smartFolderName !== null && (
+                <form
+                  className="flex items-center gap-2 px-3 py-2 border-b border-gray-200 dark:border-gray-800"
+                  onSubmit={async (e) => {
+                    e.preventDefault();
+                    await fileStore.saveSearchAsSmartFolder(smartFolderName);
+                    setSmartFolderName(null);
+                  }}
+                >
+                  <FolderSearch size={14} className="text-primary shrink-0" />
+                  <input
+                    autoFocus
+                    placeholder="智能文件夹名称"
+                    className="flex-1 min-w-0 text-sm border rounded px-1 outline-none focus:ring-1 focus:ring-emerald-500 dark:bg-gray-800 dark:text-gray-200"
+                    value={smartFolderName}
+                    onChange={e => setSmartFolderName(e.target.value)}
+                    onKeyDown={e => e.key === 'Escape' && setSmartFolderName(null)}
+                  />
+                </form>
+              )}
               {fileStore.searchResults.map((result, idx) => (
                 <SearchResultItem key={idx} result={result} />
               ))}
@@ -738,6 +901,32 @@ export const Sidebar = observer(() => {
               </>
             )}
 
+            {/* Smart Folders Section */}
+            {fileStore.smartFolders.length > 0 && (
+              <>
+                <div
+                  className="flex items-center px-3 py-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors select-none"
+                  onClick={() => setSmartFoldersExpanded(!smartFoldersExpanded)}
+                >
+                  <FolderSearch size={14} className="mr-2 text-primary" />
+                  <span className="text-xs font-medium text-gray-500 dark:text-gray-400 flex-1">
+                    智能文件夹 ({fileStore.smartFolders.length})
+                  </span>
+                  <ChevronRight
+                    size={12}
+                    className={cn("text-gray-400 transition-transform", smartFoldersExpanded ? "rotate-90" : "")}
+                  />
+                </div>
+                {smartFoldersExpanded && (
+                  <div className="border-b border-gray-200 dark:border-gray-800 pb-2">
+                    {fileStore.smartFolders.map(folder => (
+                      <SmartFolderItem key={folder.id} folder={folder} />
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+
             {/* Tags Section - Compact button to open drawer */}
             <div
               className="mx-2 mb-2 flex items-center px-3 py-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors select-none rounded-lg"
@@ -0,0 +1,184 @@
+import * as Dialog from '@radix-ui/react-dialog';
+import { observer } from 'mobx-react-lite';
+import { useState } from 'react';
+import { Braces, Plus, Save, Trash2, X } from 'lucide-react';
+import { useStore, type Snippet } from '../../store';
+import { SNIPPET_VARIABLES } from '../../utils/snippet';
+import { cn } from '../../utils/cn';
+
+type SnippetDraft = Omit<Snippet, 'id'> & { id: string | null };
+
+const EMPTY_DRAFT: SnippetDraft = { id: null, name: '', description: '', body: '' };
+
+const INPUT_CLASS = 'w-full px-3 py-2 text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-primary';
+
+/**
+ * Snippets of the project, inserted from the slash menu of the editor
+ */
+export const SnippetManager = observer(function SnippetManager({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+  const { snippetStore, toastStore } = useStore();
+  const [draft, setDraft] = useState<SnippetDraft>(EMPTY_DRAFT);
+
+  const saved = draft.id ? snippetStore.snippets.find(s => s.id === draft.id) : undefined;
+  const isDirty = saved
+    ? saved.name !== draft.name || saved.description !== draft.description || saved.body !== draft.body
+    : !!(draft.name || draft.description || draft.body);
+
+  const confirmDiscard = () => !isDirty || confirm('当前片段有未保存的修改，确定放弃吗？');
+
+  const edit = (snippet: Snippet | null) => {
+    if (!confirmDiscard()) return;
+    setDraft(snippet ? { ...snippet } : EMPTY_DRAFT);
+  };
+
+  const handleSave = async () => {
+    const name = draft.name.trim();
+    if (!name || !draft.body) {
+      toastStore.warning('请填写名称和内容');
+      return;
+    }
+    const snippet = { name, description: draft.description.trim(), body: draft.body };
+    if (draft.id) {
+      await snippetStore.updateSnippet(draft.id, snippet);
+      setDraft({ ...snippet, id: draft.id });
+    } else {
+      const created = await snippetStore.addSnippet(snippet);
+      setDraft({ ...created });
+    }
+    toastStore.success('代码片段已保存');
+  };
+
+  const handleDelete = async () => {
+    if (!draft.id || !confirm(`确定删除代码片段「${draft.name}」吗？`)) return;
+    await snippetStore.removeSnippet(draft.id);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (open || !confirmDiscard()) return;
+    setDraft(EMPTY_DRAFT);
+    onClose();
+  };
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={handleOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 animate-in fade-in duration-200" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-full max-w-3xl h-[70vh] bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-gray-200 dark:border-gray-700 animate-in zoom-in-95 duration-200 flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700 shrink-0">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-primary/10 rounded-lg">
+                <Braces size={20} className="text-primary" />
+              </div>
+              <div>
+                <Dialog.Title className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                  代码片段
+                </Dialog.Title>
+                <Dialog.Description className="text-sm text-gray-500 dark:text-gray-400">
+                  保存在当前项目中，在行首输入 / 插入
+                </Dialog.Description>
+              </div>
+            </div>
+            <Dialog.Close className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+              <X size={18} />
+            </Dialog.Close>
+          </div>
+
+          <div className="flex-1 flex min-h-0">
+            {/* Snippet list */}
+            <div className="w-56 shrink-0 border-r border-gray-200 dark:border-gray-700 flex flex-col">
+              <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-0.5">
+                {snippetStore.snippets.length === 0 && (
+                  <div className="px-2 py-4 text-xs text-gray-400 text-center">还没有代码片段</div>
+                )}
+                {snippetStore.snippets.map(snippet => (
+                  <button
+                    key={snippet.id}
+                    onClick={() => edit(snippet)}
+                    className={cn(
+                      'w-full px-3 py-2 rounded-md text-left transition-colors',
+                      draft.id === snippet.id
+                        ? 'bg-primary/10 text-primary'
+                        : 'text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'
+                    )}
+                  >
+                    <div className="text-sm truncate">{snippet.name}</div>
+                    {snippet.description && <div className="text-xs text-gray-400 truncate">{snippet.description}</div>}
+                  </button>
+                ))}
+              </div>
+              <div className="p-2 border-t border-gray-200 dark:border-gray-700">
+                <button
+                  onClick={() => edit(null)}
+                  className="w-full flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm rounded-md text-primary hover:bg-primary/10 transition-colors"
+                >
+                  <Plus size={14} />
+                  新建片段
+                </button>
+              </div>
+            </div>
+
+            {/* Editing form */}
+            <div className="flex-1 min-w-0 flex flex-col gap-3 p-4 overflow-y-auto custom-scrollbar">
+              <div className="flex gap-3">
+                <input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="名称 (在 / 菜单中搜索)"
+                  className={INPUT_CLASS}
+                />
+                <input
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  placeholder="说明 (可选)"
+                  className={INPUT_CLASS}
+                />
+              </div>
+              <textarea
+                value={draft.body}
+                onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                placeholder={'## 会议记录 {{date}}\n\n参会人: ${1:姓名}\n\n- ${2:议题}\n\n${0}'}
+                spellCheck={false}
+                className={cn(INPUT_CLASS, 'flex-1 min-h-[200px] font-mono resize-none custom-scrollbar')}
+              />
+              <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
+                <p>
+                  <code className="px-1 rounded bg-gray-100 dark:bg-gray-700">{'${1:占位文字}'}</code> 插入后按 Tab / Shift+Tab 在占位处之间跳转，
+                  <code className="px-1 rounded bg-gray-100 dark:bg-gray-700">{'${0}'}</code> 为最后的光标位置，
+                  <code className="px-1 rounded bg-gray-100 dark:bg-gray-700">{'\\{'}</code> 输入字面的花括号
+                </p>
+                <p className="flex flex-wrap gap-x-3 gap-y-1">
+                  {SNIPPET_VARIABLES.map(variable => (
+                    <span key={variable.name}>
+                      <code className="px-1 rounded bg-gray-100 dark:bg-gray-700">{`{{${variable.name}}}`}</code> {variable.description}
+                    </span>
+                  ))}
+                </p>
+              </div>
+              <div className="flex items-center justify-end gap-2">
+                {draft.id && (
+                  <button
+                    onClick={handleDelete}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                  >
+                    <Trash2 size={14} />
+                    删除
+                  </button>
+                )}
+                <button
+                  onClick={handleSave}
+                  disabled={!isDirty}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md bg-primary text-white hover:bg-primary/90 disabled:opacity-50 transition-colors"
+                >
+                  <Save size={14} />
+                  保存
+                </button>
+              </div>
+            </div>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+});
@@ -1,22 +1,28 @@
-import type { ThemeMode } from '../types';
+import type { EditorKeymap, ThemeMode } from '../types';
 import { observer } from 'mobx-react-lite';
 import { useStore } from '../store';
-import { RefreshCw, Check, AlertCircle, Sun, Moon, Monitor, Palette, Eye, Edit3, Columns, Download, FileCode, FileText, Loader2, FolderOpen, Calendar, Key, Keyboard as KeyboardIcon, Trash2, MoreHorizontal, HelpCircle } from 'lucide-react';
+import { RefreshCw, Check, AlertCircle, Sun, Moon, Monitor, Palette, Eye, Edit3, Columns, Download, FileCode, FileText, Loader2, FolderOpen, Calendar, Key, Keyboard as KeyboardIcon, Trash2, MoreHorizontal, HelpCircle, Replace, Network, HeartPulse, ListTree } from 'lucide-react';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
 import { cn } from '../utils/cn';
 import { THEME_COLORS } from '../constants/theme';
 import { useState } from 'react';
 import { marked, Renderer } from 'marked';
+import { getMarkdownExportStyles, registerMarkdownExtensions } from '../utils/markdownExtensions';
 import { KeyboardShortcutDialog } from './KeyboardShortcutDialog';
 import { TrashDialog } from './TrashDialog';
 
+registerMarkdownExtensions();
+
 interface ToolbarProps {
   onHelpClick?: () => void;
   onScheduleClick?: () => void;
   onPasswordManagerClick?: () => void;
+  onReplaceClick?: () => void;
+  onGraphClick?: () => void;
+  onVaultHealthClick?: () => void;
 }
 
-export const Toolbar = observer(({ onHelpClick, onScheduleClick, onPasswordManagerClick }: ToolbarProps) => {
+export const Toolbar = observer(({ onHelpClick, onScheduleClick, onPasswordManagerClick, onReplaceClick, onGraphClick, onVaultHealthClick }: ToolbarProps) => {
   const { gitStore, uiStore, fileStore, scheduleStore, trashStore } = useStore();
   const [isExporting, setIsExporting] = useState(false);
   const [isKeyboardShortcutOpen, setIsKeyboardShortcutOpen] = useState(false);
@@ -114,7 +120,9 @@ export const Toolbar = observer(({ onHelpClick, onScheduleClick, onPasswordManag
         return `<img src="${src}" alt="${text}" title="${title || ''}" style="${style}" />`;
       };
 
-      const htmlBody = await marked.parse(fileStore.currentContent, { renderer });
+      // Inline ![[...]] embeds the same way Preview shows them
+      const { content } = await fileStore.expandEmbeds(fileStore.currentContent, fileStore.currentFile.path);
+      const htmlBody = await marked.parse(content, { renderer });
 
       const fullHtml = `
 <!DOCTYPE html>
@@ -214,6 +222,7 @@ export const Toolbar = observer(({ onHelpClick, onScheduleClick, onPasswordManag
     text-decoration: none;
   }
 </style>
+${getMarkdownExportStyles(htmlBody)}
 </head>
 <body>
 ${htmlBody}
@@ -303,6 +312,19 @@ ${htmlBody}
               </button>
             </div>
 
+            <button
+              onClick={() => uiStore.toggleOutline()}
+              className={cn(
+                "p-1.5 rounded-md transition-colors mr-1",
+                uiStore.isOutlineOpen
+                  ? "bg-primary/10 text-primary"
+                  : "text-gray-500 hover:text-primary hover:bg-gray-100 dark:hover:bg-gray-800"
+              )}
+              title="大纲"
+            >
+              <ListTree size={16} />
+            </button>
+
             {/* ===== Group 2: Sync Status ===== */}
             <button
               onClick={handleSync}
@@ -420,6 +442,27 @@ ${htmlBody}
                     <Key size={14} className="mr-2 text-amber-500" />
                     密码管理器
                   </DropdownMenu.Item>
+                  <DropdownMenu.Item
+                    className="flex items-center px-3 py-2 text-sm cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 rounded outline-none"
+                    onSelect={onReplaceClick}
+                  >
+                    <Replace size={14} className="mr-2 text-emerald-500" />
+                    全局替换
+                  </DropdownMenu.Item>
+                  <DropdownMenu.Item
+                    className="flex items-center px-3 py-2 text-sm cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 rounded outline-none"
+                    onSelect={onGraphClick}
+                  >
+                    <Network size={14} className="mr-2 text-violet-500" />
+                    关系图谱
+                  </DropdownMenu.Item>
+                  <DropdownMenu.Item
+                    className="flex items-center px-3 py-2 text-sm cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 rounded outline-none"
+                    onSelect={onVaultHealthClick}
+                  >
+                    <HeartPulse size={14} className="mr-2 text-rose-500" />
+                    健康检查
+                  </DropdownMenu.Item>
                   <DropdownMenu.Item
                     className="flex items-center px-3 py-2 text-sm cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 rounded outline-none"
                     onSelect={() => setIsTrashDialogOpen(true)}
@@ -537,6 +580,33 @@ ${htmlBody}
                        ))}
                      </div>
                    </div>
+
+                   <DropdownMenu.Separator className="h-px bg-gray-200 dark:bg-gray-700 my-2" />
+
+                   {/* Editor Keymap Selection */}
+                   <div>
+                     <div className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1.5 uppercase tracking-wider">编辑器键位</div>
+                     <div className="flex bg-gray-100 dark:bg-gray-900 rounded-md p-0.5">
+                       {[
+                         { value: 'default', label: '默认' },
+                         { value: 'vim', label: 'Vim' },
+                         { value: 'emacs', label: 'Emacs' },
+                       ].map((keymap) => (
+                         <button
+                           key={keymap.value}
+                           onClick={() => uiStore.setEditorKeymap(keymap.value as EditorKeymap)}
+                           className={cn(
+                             "flex-1 py-1 text-xs rounded-sm transition-all",
+                             uiStore.editorKeymap === keymap.value
+                               ? "bg-white dark:bg-gray-700 shadow-sm text-gray-900 dark:text-white font-medium"
+                               : "text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                           )}
+                         >
+                           {keymap.label}
+                         </button>
+                       ))}
+                     </div>
+                   </div>
                  </DropdownMenu.Content>
               </DropdownMenu.Portal>
             </DropdownMenu.Root>
@@ -0,0 +1,273 @@
+import * as Dialog from '@radix-ui/react-dialog';
+import { observer } from 'mobx-react-lite';
+import { useEffect, useState, type ReactNode } from 'react';
+import { HeartPulse, X, ChevronRight, Loader2, RefreshCw, CheckCircle2 } from 'lucide-react';
+import { useStore } from '../../store';
+import type { BrokenReference } from '../../types';
+import { getBaseName } from '../../utils/path';
+import { cn } from '../../utils/cn';
+
+const ACTION_CLASS = 'px-2 py-0.5 text-xs rounded border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 shrink-0';
+
+const Section = ({ title, count, children }: { title: string; count: number; children: ReactNode }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-md overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 bg-gray-50 dark:bg-gray-900/50 text-sm font-medium text-gray-700 dark:text-gray-200"
+      >
+        <ChevronRight size={14} className={cn('text-gray-400 transition-transform', isExpanded && 'rotate-90')} />
+        {title}
+        <span className={cn('ml-auto text-xs', count > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-gray-400')}>
+          {count}
+        </span>
+      </button>
+      {isExpanded && (
+        count > 0
+          ? <div className="divide-y divide-gray-100 dark:divide-gray-700/50">{children}</div>
+          : <div className="px-3 py-2 text-xs text-gray-400">没有发现问题</div>
+      )}
+    </div>
+  );
+};
+
+interface ReferenceItemProps {
+  reference: BrokenReference;
+  relativePath: string;
+  canFix?: boolean;  // Broken wikilinks can be fixed or have their note created
+  onOpen: (path: string) => void;
+}
+
+const ReferenceItem = observer(function ReferenceItem({ reference, relativePath, canFix, onOpen }: ReferenceItemProps) {
+  const { vaultHealthStore, backlinkStore } = useStore();
+  const [fixTarget, setFixTarget] = useState<string | null>(null);
+  const isBusy = vaultHealthStore.busyKey === `${reference.path}:${reference.offset}`;
+
+  const handleFix = () => {
+    const target = fixTarget?.trim();
+    if (!target) return;
+    vaultHealthStore.fixLink(reference, target);
+    setFixTarget(null);
+  };
+
+  return (
+    <div className="px-3 py-2 text-sm">
+      <div className="flex items-center gap-2">
+        <code className="flex-1 min-w-0 truncate text-xs font-mono text-red-600 dark:text-red-400" title={reference.text}>
+          {reference.text}
+        </code>
+        {isBusy && <Loader2 size={14} className="animate-spin text-gray-400 shrink-0" />}
+        {canFix && (
+          <>
+            <button className={ACTION_CLASS} disabled={isBusy} onClick={() => vaultHealthStore.createNote(reference)}>
+              创建笔记
+            </button>
+            <button className={ACTION_CLASS} disabled={isBusy} onClick={() => setFixTarget(fixTarget === null ? '' : null)}>
+              修正链接
+            </button>
+          </>
+        )}
+      </div>
+      <button
+        onClick={() => onOpen(reference.path)}
+        className="mt-0.5 text-xs text-gray-500 dark:text-gray-400 hover:text-primary truncate max-w-full"
+      >
+        {relativePath}:{reference.line}
+      </button>
+      {reference.candidates && (
+        <div className="mt-1.5 flex flex-wrap items-center gap-1.5">
+          <span className="text-xs text-gray-500 dark:text-gray-400">改为链接到:</span>
+          {reference.candidates.map(candidate => {
+            // As much of its path as it takes to mean only this note
+            const target = backlinkStore.getLinkTarget(candidate);
+            return (
+              <button key={candidate} className={ACTION_CLASS} disabled={isBusy} onClick={() => vaultHealthStore.fixLink(reference, target)}>
+                {target}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {canFix && fixTarget !== null && (
+        <div className="mt-1.5 flex items-center gap-2">
+          <input
+            autoFocus
+            list="vault-health-note-names"
+            value={fixTarget}
+            onChange={(e) => setFixTarget(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleFix();
+              if (e.key === 'Escape') {
+                e.stopPropagation();
+                setFixTarget(null);
+              }
+            }}
+            placeholder="改为链接到..."
+            className="flex-1 min-w-0 px-2 py-1 text-xs bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded focus:outline-none focus:ring-1 focus:ring-primary"
+          />
+          <button className={ACTION_CLASS} disabled={!fixTarget?.trim()} onClick={handleFix}>
+            确定
+          </button>
+        </div>
+      )}
+    </div>
+  );
+});
+
+const FileItem = observer(function FileItem({ path, relativePath, onOpen }: { path: string; relativePath: string; onOpen?: (path: string) => void }) {
+  const { vaultHealthStore } = useStore();
+  const isBusy = vaultHealthStore.busyKey === path;
+
+  const handleTrash = () => {
+    if (confirm(`确定要将 ${getBaseName(path)} 移至回收站吗?`)) {
+      vaultHealthStore.moveToTrash(path);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 text-sm">
+      {onOpen ? (
+        <button onClick={() => onOpen(path)} className="flex-1 min-w-0 truncate text-left text-gray-700 dark:text-gray-200 hover:text-primary">
+          {relativePath}
+        </button>
+      ) : (
+        <span className="flex-1 min-w-0 truncate text-gray-700 dark:text-gray-200">{relativePath}</span>
+      )}
+      {isBusy && <Loader2 size={14} className="animate-spin text-gray-400 shrink-0" />}
+      <button className={cn(ACTION_CLASS, 'hover:text-red-600')} disabled={isBusy} onClick={handleTrash}>
+        移至回收站
+      </button>
+    </div>
+  );
+});
+
+export const VaultHealthDialog = observer(function VaultHealthDialog({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+  const { vaultHealthStore, fileStore, backlinkStore } = useStore();
+  const { report, isChecking } = vaultHealthStore;
+
+  // Every time the panel opens the notebook is checked again
+  useEffect(() => {
+    if (isOpen) vaultHealthStore.check();
+  }, [isOpen, vaultHealthStore]);
+
+  if (!isOpen) return null;
+
+  // Suggestions for fixing a link: note names and aliases
+  const noteNames = [...new Set([
+    ...Array.from(backlinkStore.linksMap.keys(), path => getBaseName(path).replace(/\.md$/, '')),
+    ...Array.from(backlinkStore.aliasesMap.values()).flat()
+  ])].sort();
+
+  const getRelativePath = (fullPath: string): string => {
+    if (!fileStore.rootPath) return fullPath;
+    return fullPath.replace(fileStore.rootPath, '').replace(/^[\\/]/, '');
+  };
+
+  const handleOpen = async (path: string) => {
+    if (await fileStore.openFileByPath(path)) onClose();
+  };
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 animate-in fade-in duration-200" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-[90vw] max-w-3xl max-h-[85vh] bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-gray-200 dark:border-gray-700 animate-in zoom-in-95 duration-200 flex flex-col overflow-hidden">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700 shrink-0">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-rose-100 dark:bg-rose-900/30 rounded-lg">
+                <HeartPulse size={20} className="text-rose-600 dark:text-rose-400" />
+              </div>
+              <div>
+                <Dialog.Title className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                  笔记库健康检查
+                </Dialog.Title>
+                <Dialog.Description className="text-sm text-gray-500 dark:text-gray-400">
+                  {report ? `发现 ${vaultHealthStore.issueCount} 个问题` : '正在检查...'}
+                </Dialog.Description>
+              </div>
+            </div>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => vaultHealthStore.check()}
+                disabled={isChecking}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 disabled:opacity-50"
+                title="重新检查"
+              >
+                <RefreshCw size={16} className={cn(isChecking && 'animate-spin')} />
+              </button>
+              <Dialog.Close className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+                <X size={18} />
+              </Dialog.Close>
+            </div>
+          </div>
+
+          {/* Report */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-3">
+            {!report ? (
+              <div className="flex items-center justify-center py-12 text-sm text-gray-400">
+                <Loader2 size={16} className="animate-spin mr-2" />
+                正在检查笔记库...
+              </div>
+            ) : (
+              <>
+                {vaultHealthStore.issueCount === 0 && (
+                  <div className="flex items-center gap-2 px-3 py-2 rounded-md bg-green-50 dark:bg-green-900/20 text-sm text-green-700 dark:text-green-300">
+                    <CheckCircle2 size={16} />
+                    笔记库状态良好，没有发现问题
+                  </div>
+                )}
+                <Section title="失效的双链" count={report.brokenLinks.length}>
+                  {report.brokenLinks.map(reference => (
+                    <ReferenceItem
+                      key={`${reference.path}:${reference.offset}`}
+                      reference={reference}
+                      relativePath={getRelativePath(reference.path)}
+                      canFix
+                      onOpen={handleOpen}
+                    />
+                  ))}
+                </Section>
+                <Section title="有歧义的双链 (同名笔记不止一个)" count={report.ambiguousLinks.length}>
+                  {report.ambiguousLinks.map(reference => (
+                    <ReferenceItem
+                      key={`${reference.path}:${reference.offset}`}
+                      reference={reference}
+                      relativePath={getRelativePath(reference.path)}
+                      onOpen={handleOpen}
+                    />
+                  ))}
+                </Section>
+                <Section title="缺失的图片与附件" count={report.missingFiles.length}>
+                  {report.missingFiles.map(reference => (
+                    <ReferenceItem
+                      key={`${reference.path}:${reference.offset}`}
+                      reference={reference}
+                      relativePath={getRelativePath(reference.path)}
+                      onOpen={handleOpen}
+                    />
+                  ))}
+                </Section>
+                <Section title="孤立笔记 (没有被任何笔记链接)" count={report.orphanNotes.length}>
+                  {report.orphanNotes.map(path => (
+                    <FileItem key={path} path={path} relativePath={getRelativePath(path)} onOpen={handleOpen} />
+                  ))}
+                </Section>
+                <Section title="未被引用的附件" count={report.unusedAttachments.length}>
+                  {report.unusedAttachments.map(path => (
+                    <FileItem key={path} path={path} relativePath={getRelativePath(path)} />
+                  ))}
+                </Section>
+              </>
+            )}
+          </div>
+          <datalist id="vault-health-note-names">
+            {noteNames.map(name => <option key={name} value={name} />)}
+          </datalist>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+});
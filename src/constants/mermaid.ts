@@ -0,0 +1,128 @@
+// Mermaid diagrams offered by the editor toolbar and the slash menu
+export const MERMAID_TEMPLATES = {
+  flowchart: {
+    label: '流程图',
+    template: `\`\`\`mermaid
+flowchart LR
+    A[开始] --> B{判断}
+    B -->|条件满足| C[执行操作A]
+    B -->|条件不满足| D[执行操作B]
+    C --> E[结束]
+    D --> E
+\`\`\``,
+  },
+  sequence: {
+    label: '时序图',
+    template: `\`\`\`mermaid
+sequenceDiagram
+    participant 用户
+    participant 系统
+
+    用户->>系统: 发送请求
+    系统-->>用户: 返回响应
+\`\`\``,
+  },
+  class: {
+    label: '类图',
+    template: `\`\`\`mermaid
+classDiagram
+    class Animal{
+        +String name
+        +int age
+        +eat()
+    }
+    class Dog{
+        +bark()
+    }
+    Animal <|-- Dog
+\`\`\``,
+  },
+  state: {
+    label: '状态图',
+    template: `\`\`\`mermaid
+stateDiagram-v2
+    [*] --> 待处理
+    待处理 --> 进行中: 开始处理
+    进行中 --> 已完成: 处理完成
+    进行中 --> 已取消: 取消
+    已完成 --> [*]
+    已取消 --> [*]
+\`\`\``,
+  },
+  mindmap: {
+    label: '思维导图',
+    template: `\`\`\`mermaid
+mindmap
+  root((主题))
+    分支1
+      子项1
+      子项2
+    分支2
+      子项3
+      子项4
+\`\`\``,
+  },
+  gantt: {
+    label: '甘特图',
+    template: `\`\`\`mermaid
+gantt
+    title 项目计划
+    dateFormat YYYY-MM-DD
+    section 任务1
+    任务1.1: 2024-01-01, 7d
+    任务1.2: after task1.1, 5d
+    section 任务2
+    任务2.1: 2024-01-10, 10d
+\`\`\``,
+  },
+  pie: {
+    label: '饼图',
+    template: `\`\`\`mermaid
+pie title 数据分布
+    "类型A": 30
+    "类型B": 50
+    "类型C": 20
+\`\`\``,
+  },
+  er: {
+    label: 'ER图',
+    template: `\`\`\`mermaid
+erDiagram
+    CUSTOMER ||--o{ ORDER : places
+    CUSTOMER {
+        string name
+        string email
+    }
+    ORDER {
+        int id
+        date created
+    }
+\`\`\``,
+  },
+  journey: {
+    label: '旅程图',
+    template: `\`\`\`mermaid
+journey
+    title 用户旅程
+    section 阶段1
+      步骤1: 5: 用户
+      步骤2: 4: 用户
+    section 阶段2
+      步骤3: 3: 用户
+\`\`\``,
+  },
+  git: {
+    label: 'Git图',
+    template: `\`\`\`mermaid
+gitGraph
+    commit
+    commit
+    branch develop
+    checkout develop
+    commit
+    commit
+    checkout main
+    merge develop
+\`\`\``,
+  },
+};
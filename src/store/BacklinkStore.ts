@@ -1,243 +1,272 @@
-import { makeAutoObservable, runInAction } from 'mobx';
-import type { FileNode } from '../types';
+import { computed, makeAutoObservable, observable, runInAction } from 'mobx';
+import type { LinkIndexNote, LinkIndexUpdate, WikilinkRef } from '../types';
+import { getBaseName } from '../utils/path';
+import { createNoteResolver, extractHeadings, extractWikilinks, getUniqueLinkTarget, type NoteResolution, type NoteResolver } from '../utils/wikilink';
+import { getAliases } from '../utils/frontmatter';
 
-export interface Wikilink {
-  target: string; // The file name being linked to
-  alias?: string; // Optional display text
-  position: { start: number; end: number }; // Position in source
-}
+export type Wikilink = WikilinkRef;
 
 export interface Backlink {
   sourcePath: string; // File that contains the link
   sourceName: string; // File name
   context: string; // Surrounding text for preview
   alias?: string; // Display text if different from target
+  heading?: string; // Section of the target the link points to
+  blockId?: string; // Block of the target the link points to
 }
 
+/**
+ * BacklinkStore - Wikilinks between notes, keyed by note path
+ * Outgoing links, aliases and headings come from the main-process link index (a snapshot
+ * when the notebook is opened, then batched updates); the note being edited is
+ * re-parsed live. Backlinks are derived by resolving every link to a path.
+ */
 export class BacklinkStore {
-  // Map of file -> files that link to it (backlinks)
+  // Map of note path -> notes linking to it (backlinks)
   backlinksMap: Map<string, Backlink[]> = new Map();
 
-  // Map of file -> files it links to (outgoing links)
+  // Map of note path -> links it contains (outgoing links)
   linksMap: Map<string, Wikilink[]> = new Map();
 
-  isLoading: boolean = false;
+  // Map of note path -> frontmatter aliases (only notes that have any)
+  aliasesMap: Map<string, string[]> = new Map();
 
-  constructor() {
-    makeAutoObservable(this);
-  }
-
-  // Parse wikilinks from markdown content
-  parseWikilinks(content: string, _currentFileName: string): Wikilink[] {
-    const links: Wikilink[] = [];
-    const regex = /\[\[([^\]]+)(?:\|([^\]]+))?\]\]/g;
-    let match;
-
-    while ((match = regex.exec(content)) !== null) {
-      const fullMatch = match[0];
-      const target = match[1];
-      const alias = match[2];
-
-      // Check if it's a valid wikilink (not an escaped link)
-      if (!fullMatch.startsWith('\\')) {
-        links.push({
-          target,
-          alias,
-          position: { start: match.index, end: match.index + fullMatch.length }
-        });
-      }
-    }
+  // Map of note path -> heading texts, for completing [[Note#Heading]]
+  headingsMap: Map<string, string[]> = new Map();
 
-    return links;
-  }
+  isLoading: boolean = false;
 
-  // Extract links from a file
-  extractLinksFromFile(fileName: string, content: string): Wikilink[] {
-    const links = this.parseWikilinks(content, fileName);
+  private rootPath: string | null = null;
+  // Updates that arrive while the snapshot is being fetched, replayed on top of it
+  private queuedUpdates: LinkIndexUpdate[] = [];
 
-    runInAction(() => {
-      this.linksMap.set(fileName, links);
+  constructor() {
+    // Values are replaced, never mutated, so the link arrays need not be observable;
+    // the resolver is kept alive as backlinks are (re)built outside of reactions
+    makeAutoObservable(this, {
+      linksMap: observable.shallow,
+      backlinksMap: observable.shallow,
+      aliasesMap: observable.shallow,
+      headingsMap: observable.shallow,
+      resolver: computed({ keepAlive: true })
     });
-
-    return links;
+    this.setupIndexListener();
   }
 
-  // Update backlinks when a file is modified
-  updateBacklinks(fileName: string, oldContent: string, newContent: string, _allFiles: FileNode[]) {
-    // Remove old backlinks
-    const oldLinks = this.parseWikilinks(oldContent, fileName);
-    this.removeBacklinks(fileName, oldLinks);
-
-    // Add new backlinks
-    const newLinks = this.parseWikilinks(newContent, fileName);
-    this.addBacklinks(fileName, newLinks);
-
-    // Update links map
-    runInAction(() => {
-      this.linksMap.set(fileName, newLinks);
+  private setupIndexListener() {
+    window.electronAPI.onLinkIndexUpdated((_event, update) => {
+      if (this.isLoading) {
+        this.queuedUpdates.push(update);
+      } else {
+        this.applyUpdate(update);
+      }
     });
   }
 
-  // Add backlinks from a source file
-  addBacklinks(sourcePath: string, links: Wikilink[]) {
-    for (const link of links) {
-      const target = link.target.toLowerCase().trim();
+  // Resolves link targets against the indexed notes; only rebuilt when notes or aliases change
+  get resolver(): NoteResolver {
+    return createNoteResolver(Array.from(this.linksMap.keys()), path => this.aliasesMap.get(path), this.rootPath ?? undefined);
+  }
+
+  // Fetch the link index of a notebook; a no-op when it is already loaded
+  async load(rootPath: string) {
+    if (!rootPath || rootPath === this.rootPath) return;
 
+    this.rootPath = rootPath;
+    this.isLoading = true;
+    try {
+      const res = await window.electronAPI.getLinkIndex();
+      if (!res.success || !res.data) {
+        throw new Error(res.error || 'Failed to load link index');
+      }
+      const notes = res.data.notes;
+      runInAction(() => {
+        if (this.rootPath !== rootPath) return;
+        this.linksMap = new Map();
+        this.aliasesMap = new Map();
+        this.headingsMap = new Map();
+        Object.entries(notes).forEach(([path, note]) => this.setNote(path, note));
+        this.queuedUpdates.forEach(update => this.applyUpdate(update));
+        this.rebuildBacklinks();
+      });
+    } catch (error) {
+      console.error('Failed to load link index:', error);
+      runInAction(() => {
+        // Let the next call try again
+        if (this.rootPath === rootPath) this.rootPath = null;
+      });
+    } finally {
       runInAction(() => {
-        if (!this.backlinksMap.has(target)) {
-          this.backlinksMap.set(target, []);
-        }
-
-        const backlinks = this.backlinksMap.get(target)!;
-        // Check if this backlink already exists
-        const exists = backlinks.some(b => b.sourcePath === sourcePath);
-        if (!exists) {
-          backlinks.push({
-            sourcePath,
-            sourceName: this.getFileNameFromPath(sourcePath),
-            context: '', // Will be updated when content is loaded
-            alias: link.alias
-          });
-        }
+        this.queuedUpdates = [];
+        this.isLoading = false;
       });
     }
   }
 
-  // Remove backlinks from a source file
-  removeBacklinks(sourcePath: string, links: Wikilink[]) {
-    for (const link of links) {
-      const target = link.target.toLowerCase().trim();
-
-      runInAction(() => {
-        if (this.backlinksMap.has(target)) {
-          const backlinks = this.backlinksMap.get(target)!;
-          // Filter out backlinks from this source
-          this.backlinksMap.set(
-            target,
-            backlinks.filter(b => b.sourcePath !== sourcePath)
-          );
-        }
+  // Notes saved, renamed, deleted or changed on disk, as reported by the link index
+  applyUpdate(update: LinkIndexUpdate) {
+    const changed = Object.entries(update.changed);
+    // Adding / removing notes or renaming them through aliases changes how every link resolves
+    const isStructural = update.removed.some(path => this.linksMap.has(path))
+      || changed.some(([path, note]) => !this.linksMap.has(path) || !this.hasAliases(path, note.aliases));
+
+    if (isStructural) {
+      update.removed.forEach(path => {
+        this.linksMap.delete(path);
+        this.aliasesMap.delete(path);
+        this.headingsMap.delete(path);
       });
+      changed.forEach(([path, note]) => this.setNote(path, note));
+      this.rebuildBacklinks();
+      return;
     }
+    changed.forEach(([path, note]) => {
+      this.setLinks(path, note.links);
+      this.headingsMap.set(path, note.headings);
+    });
   }
 
-  // Get backlinks for a file
-  getBacklinks(fileName: string): Backlink[] {
-    return this.backlinksMap.get(fileName.toLowerCase().trim()) || [];
+  // Re-parse the note being edited so backlinks follow unsaved changes
+  updateFileLinks(filePath: string, content: string) {
+    const note = {
+      links: extractWikilinks(content),
+      aliases: getAliases(content),
+      headings: extractHeadings(content).map(heading => heading.text)
+    };
+    if (this.linksMap.has(filePath) && this.hasAliases(filePath, note.aliases)) {
+      this.setLinks(filePath, note.links);
+      this.headingsMap.set(filePath, note.headings);
+    } else {
+      this.setNote(filePath, note);
+      this.rebuildBacklinks();
+    }
   }
 
-  // Get outgoing links for a file
-  getLinks(fileName: string): Wikilink[] {
-    return this.linksMap.get(fileName) || [];
+  // Get backlinks for a note
+  getBacklinks(path: string): Backlink[] {
+    return this.backlinksMap.get(path) || [];
   }
 
-  // Get backlink count for a file
-  getBacklinkCount(fileName: string): number {
-    return this.getBacklinks(fileName).length;
+  // Get outgoing links for a note
+  getLinks(path: string): Wikilink[] {
+    return this.linksMap.get(path) || [];
   }
 
-  // Build the entire backlink index from all files
-  async buildIndex(allFiles: FileNode[], readFile: (path: string) => Promise<string>) {
-    this.isLoading = true;
+  // Get frontmatter aliases of a note
+  getAliases(path: string): string[] {
+    return this.aliasesMap.get(path) || [];
+  }
 
-    runInAction(() => {
-      this.backlinksMap.clear();
-      this.linksMap.clear();
-    });
+  // Get heading texts of a note
+  getHeadings(path: string): string[] {
+    return this.headingsMap.get(path) || [];
+  }
 
-    try {
-      // Collect all markdown files (skip hidden directories)
-      const mdFiles: FileNode[] = [];
-      const collectMd = (node: FileNode) => {
-        // Skip hidden directories (starting with .)
-        if (node.type === 'directory' && node.name.startsWith('.')) {
-          return;
-        }
-        if (node.type === 'file' && node.name.endsWith('.md')) {
-          mdFiles.push(node);
-        } else if (node.type === 'directory' && node.children) {
-          node.children.forEach(collectMd);
-        }
-      };
-      allFiles.forEach(collectMd);
-
-      // Process each file
-      for (const file of mdFiles) {
-        try {
-          const content = await readFile(file.path);
-          const fileName = file.name.replace('.md', '');
-          const links = this.parseWikilinks(content, fileName);
-
-          runInAction(() => {
-            this.linksMap.set(fileName, links);
-          });
-
-          this.addBacklinks(file.path, links);
-        } catch (error) {
-          console.error(`Failed to process ${file.path}:`, error);
-        }
-      }
-    } finally {
-      runInAction(() => {
-        this.isLoading = false;
-      });
-    }
+  // Get backlink count for a note
+  getBacklinkCount(path: string): number {
+    return this.getBacklinks(path).length;
   }
 
-  // Resolve a wikilink to a file path
-  resolveLink(target: string, allFiles: FileNode[]): string | null {
-    const cleanTarget = target.toLowerCase().trim();
+  // Resolve a wikilink to a note path by file name or alias
+  resolveLink(target: string, fromPath?: string): string | null {
+    return this.resolver.resolve(target, fromPath);
+  }
 
-    // First, try exact match
-    for (const file of this.getAllFiles(allFiles)) {
-      const fileName = file.name.replace('.md', '').toLowerCase();
-      if (fileName === cleanTarget) {
-        return file.path;
-      }
-    }
+  // Like resolveLink, but also reports every note the target could mean
+  lookupLink(target: string, fromPath?: string): NoteResolution {
+    return this.resolver.lookup(target, fromPath);
+  }
 
-    // Try case-insensitive match
-    for (const file of this.getAllFiles(allFiles)) {
-      if (file.name.replace('.md', '').toLowerCase() === cleanTarget) {
-        return file.path;
-      }
-    }
+  // Shortest [[target]] that links to the note and no other one
+  getLinkTarget(path: string): string {
+    return getUniqueLinkTarget(this.resolver, path, this.rootPath ?? '');
+  }
 
-    // Try partial match
-    for (const file of this.getAllFiles(allFiles)) {
-      if (file.name.replace('.md', '').toLowerCase().includes(cleanTarget)) {
-        return file.path;
-      }
-    }
+  private setNote(path: string, note: LinkIndexNote) {
+    this.linksMap.set(path, note.links);
+    this.headingsMap.set(path, note.headings);
+    if (note.aliases.length > 0) this.aliasesMap.set(path, note.aliases);
+    else this.aliasesMap.delete(path);
+  }
+
+  private hasAliases(path: string, aliases: string[]): boolean {
+    return this.getAliases(path).join('\n') === aliases.join('\n');
+  }
 
-    return null;
+  // Replace the links of a known note, moving only the backlinks it contributes
+  private setLinks(sourcePath: string, links: Wikilink[]) {
+    this.removeBacklinks(sourcePath, this.getLinks(sourcePath));
+    this.linksMap.set(sourcePath, links);
+    this.addBacklinks(sourcePath, links);
   }
 
-  // Helper to get all file nodes
-  private getAllFiles(nodes: FileNode[]): FileNode[] {
-    const files: FileNode[] = [];
-    const collect = (node: FileNode) => {
-      if (node.type === 'file') {
-        files.push(node);
-      } else if (node.type === 'directory' && node.children) {
-        node.children.forEach(collect);
+  private rebuildBacklinks() {
+    const backlinksMap = new Map<string, Backlink[]>();
+    this.linksMap.forEach((links, sourcePath) => {
+      for (const [targetPath, backlink] of this.collectBacklinks(sourcePath, links)) {
+        const backlinks = backlinksMap.get(targetPath);
+        if (backlinks) backlinks.push(backlink);
+        else backlinksMap.set(targetPath, [backlink]);
       }
-    };
-    nodes.forEach(collect);
-    return files;
+    });
+    this.backlinksMap = backlinksMap;
+  }
+
+  private addBacklinks(sourcePath: string, links: Wikilink[]) {
+    for (const [targetPath, backlink] of this.collectBacklinks(sourcePath, links)) {
+      this.backlinksMap.set(targetPath, [...this.getBacklinks(targetPath), backlink]);
+    }
   }
 
-  // Helper to extract file name from path
-  private getFileNameFromPath(path: string): string {
-    const parts = path.split('/');
-    return parts[parts.length - 1] || path;
+  // The backlinks one note contributes, as [target path, backlink] pairs
+  private collectBacklinks(sourcePath: string, links: Wikilink[]): Array<[string, Backlink]> {
+    const { resolve } = this.resolver;
+    const result: Array<[string, Backlink]> = [];
+    for (const link of links) {
+      const targetPath = resolve(link.target, sourcePath);
+      // [[#Heading]] points into the source note itself
+      if (!targetPath || targetPath === sourcePath) continue;
+
+      // Links to different sections are listed separately
+      const exists = result.some(([path, b]) =>
+        path === targetPath && b.heading === link.heading && b.blockId === link.blockId
+      );
+      if (exists) continue;
+
+      result.push([targetPath, {
+        sourcePath,
+        sourceName: getBaseName(sourcePath),
+        context: '', // Will be updated when content is loaded
+        alias: link.alias,
+        heading: link.heading,
+        blockId: link.blockId
+      }]);
+    }
+    return result;
+  }
+
+  private removeBacklinks(sourcePath: string, links: Wikilink[]) {
+    const { resolve } = this.resolver;
+    for (const link of links) {
+      const targetPath = resolve(link.target, sourcePath);
+      const backlinks = targetPath ? this.backlinksMap.get(targetPath) : undefined;
+      if (!targetPath || !backlinks) continue;
+
+      const remaining = backlinks.filter(b => b.sourcePath !== sourcePath);
+      if (remaining.length > 0) {
+        this.backlinksMap.set(targetPath, remaining);
+      } else {
+        this.backlinksMap.delete(targetPath);
+      }
+    }
   }
 
   // Clear all data
   clear() {
-    runInAction(() => {
-      this.backlinksMap.clear();
-      this.linksMap.clear();
-    });
+    this.backlinksMap.clear();
+    this.linksMap.clear();
+    this.aliasesMap.clear();
+    this.headingsMap.clear();
+    this.rootPath = null;
   }
 }
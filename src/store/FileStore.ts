@@ -1,14 +1,37 @@
 import { makeAutoObservable, runInAction } from 'mobx';
-import type { FileNode } from '../types';
+import type { FileNode, FileChangeEvent, FileVersion, LinkRewriteFile } from '../types';
+import { FILE_CONFLICT_ERROR_CODE } from '../types';
 import type { ToastStore } from './ToastStore';
 import type { GitStore } from './GitStore';
+import type { BacklinkStore } from './BacklinkStore';
+import type { SnippetStore } from './SnippetStore';
 import { TabStore, type OpenTab } from './TabStore';
-import { SearchStore, type SearchResult } from './SearchStore';
+import { SearchStore, toSearchResult, type SearchResult } from './SearchStore';
 import { ExportStore, type ExportFormat } from './ExportStore';
 import { FavoriteStore } from './FavoriteStore';
+import { SmartFolderStore, type SmartFolder } from './SmartFolderStore';
+import { isWithinPath, replacePathPrefix, getParentPath, getBaseName, joinPath } from '../utils/path';
+import { expandEmbeds, type ExpandedContent } from '../utils/embed';
+import { isNoteTarget, resolveAttachment } from '../utils/wikilink';
 
 const SORT_SETTINGS_STORAGE_KEY = 'zhixia-sort-settings';
 
+// A save was rejected because the file changed on disk after it was opened
+export interface FileConflict {
+  file: FileNode;
+  localContent: string;   // What the editor wanted to write
+  diskContent: string;    // What is on disk now
+  diskVersion: FileVersion;
+}
+
+// A rename / move that would break links in other notes, waiting for confirmation
+export interface LinkRewritePrompt {
+  kind: 'rename' | 'move';
+  oldPath: string;
+  newPath: string;
+  affected: LinkRewriteFile[];
+}
+
 /**
  * FileStore - Core file management store
  * Handles file tree, current file state, and file operations
@@ -34,16 +57,29 @@ export class FileStore {
   // Sort settings - map directory path to sort order
   sortSettings: Map<string, 'asc' | 'desc'> = new Map();
 
+  // Pending external-modification conflict, shown by FileConflictDialog
+  fileConflict: FileConflict | null = null;
+
+  // Bumped whenever a file changes on disk, so notes embedding it can re-render
+  fileRevisions: Map<string, number> = new Map();
+
+  // Pending rename / move that needs link updates, shown by LinkRewriteDialog
+  linkRewritePrompt: LinkRewritePrompt | null = null;
+  isRewritingLinks: boolean = false;
+
   // Sub-stores for specialized functionality
   readonly tabStore: TabStore;
   readonly searchStore: SearchStore;
   readonly exportStore: ExportStore;
   readonly favoriteStore: FavoriteStore;
+  readonly smartFolderStore: SmartFolderStore;
 
   public toastStore: ToastStore;
   private gitStore?: GitStore;
   public tagStore?: any; // TagStore injected after creation
   public trashStore?: any; // TrashStore injected after creation
+  public backlinkStore?: BacklinkStore; // BacklinkStore injected after creation
+  public snippetStore?: SnippetStore; // SnippetStore injected after creation
 
   constructor(toastStore: ToastStore, gitStore?: GitStore) {
     makeAutoObservable(this, {
@@ -52,6 +88,7 @@ export class FileStore {
       searchStore: false,
       exportStore: false,
       favoriteStore: false,
+      smartFolderStore: false,
       // expandedPaths is an ObservableSet, no need for observable.ref
     });
 
@@ -63,8 +100,17 @@ export class FileStore {
     this.searchStore = new SearchStore();
     this.exportStore = new ExportStore();
     this.favoriteStore = new FavoriteStore();
+    this.smartFolderStore = new SmartFolderStore();
 
     this.loadSortSettings();
+    this.setupFileWatcher();
+  }
+
+  private setupFileWatcher() {
+    // Listen for changes made to the notebook outside the app (or by git, sync tools, etc.)
+    window.electronAPI.onFileChanged((_event, changes) => {
+      this.applyFileChanges(changes);
+    });
   }
 
   // Toggle expansion state of a directory
@@ -226,10 +272,18 @@ export class FileStore {
     return this.searchStore.isSearching;
   }
 
+  get searchError(): string | null {
+    return this.searchStore.searchError;
+  }
+
   get favorites(): string[] {
     return this.favoriteStore.getAllFavorites();
   }
 
+  get smartFolders(): SmartFolder[] {
+    return this.smartFolderStore.folders;
+  }
+
   get exportDialog() {
     return this.exportStore.exportDialog;
   }
@@ -252,9 +306,11 @@ export class FileStore {
     if (!query.trim()) return;
 
     try {
-      const res = await window.electronAPI.searchContent(query);
+      const res = await window.electronAPI.searchQuery(query);
       if (res.success && res.data) {
-        this.searchStore.setSearchResults(res.data);
+        this.searchStore.setSearchResults(res.data.map(toSearchResult));
+      } else {
+        this.searchStore.setSearchError(res.error || '搜索失败');
       }
     } catch (error) {
       console.error('Search failed:', error);
@@ -272,13 +328,17 @@ export class FileStore {
       ]);
 
       runInAction(() => {
-        if (treeRes.success && treeRes.data) {
-          this.fileTree = treeRes.data!;
-        }
         if (configRes.success && configRes.data) {
           this.rootPath = configRes.data!.repoPath;
         }
+        if (treeRes.success && treeRes.data) {
+          // Same root order as nodes added later on by the watcher
+          this.fileTree = treeRes.data!.sort(this.compareNodes(this.rootPath));
+        }
       });
+      // Smart folders and snippets are stored per project
+      this.smartFolderStore.load();
+      this.snippetStore?.load();
     } catch (error) {
       console.error('Failed to load file tree:', error);
     } finally {
@@ -288,6 +348,56 @@ export class FileStore {
     }
   }
 
+  // Open a file by path (links, saved searches, ...); false if it is not in the tree
+  async openFileByPath(path: string): Promise<boolean> {
+    const node = this.findNode(this.fileTree, path);
+    if (!node || node.type !== 'file') return false;
+    await this.selectFile(node);
+    return true;
+  }
+
+  getFileRevision(path: string): number {
+    return this.fileRevisions.get(path) || 0;
+  }
+
+  // Expand the ![[...]] embeds of a note for rendering (Preview and exports)
+  async expandEmbeds(content: string, filePath: string): Promise<ExpandedContent> {
+    return expandEmbeds(content, filePath, {
+      resolve: (target, fromPath) => this.resolveEmbedTarget(target, fromPath),
+      read: async (path) => (await this.readNote(path))?.content ?? null
+    });
+  }
+
+  /**
+   * Read a note for rendering; open notes come with their unsaved edits
+   * @returns The content and its modification time on disk (null for a note never saved), or null if it cannot be read
+   */
+  async readNote(path: string): Promise<{ content: string; mtimeMs: number | null } | null> {
+    const tab = this.tabStore.findTabByPath(path);
+    if (path === this.currentFile?.path) return { content: this.currentContent, mtimeMs: tab?.version?.mtimeMs ?? null };
+    if (tab) return { content: tab.content, mtimeMs: tab.version?.mtimeMs ?? null };
+
+    const res = await window.electronAPI.readFileWithVersion(path);
+    if (!res.success || !res.data) return null;
+    return { content: res.data.content, mtimeMs: res.data.version.mtimeMs };
+  }
+
+  private resolveEmbedTarget(target: string, fromPath: string): string | null {
+    if (isNoteTarget(target)) {
+      return this.backlinkStore?.resolveLink(target, fromPath) ?? null;
+    }
+
+    const filePaths: string[] = [];
+    const collect = (nodes: FileNode[]) => {
+      for (const node of nodes) {
+        if (node.type === 'file') filePaths.push(node.path);
+        else if (node.children) collect(node.children);
+      }
+    };
+    collect(this.fileTree);
+    return resolveAttachment(target, fromPath, filePaths);
+  }
+
   // Select and open a file
   async selectFile(node: FileNode) {
     if (node.type !== 'file') return;
@@ -333,15 +443,16 @@ export class FileStore {
     // Load new file
     this.isLoading = true;
     try {
-      const res = await window.electronAPI.readFile(node.path);
-      if (res.success) {
-        const content = res.data || '';
+      const res = await window.electronAPI.readFileWithVersion(node.path);
+      if (res.success && res.data) {
+        const { content, version } = res.data;
         runInAction(() => {
           this.tabStore.addTab({
             file: node,
             content,
             originalContent: content,
-            isModified: false
+            isModified: false,
+            version
           });
 
           this.currentFile = node;
@@ -422,24 +533,39 @@ export class FileStore {
   // Save current file
   async saveCurrentFile(updateMetadata = false) {
     if (!this.currentFile) return;
+    // Don't write again until the user has resolved the pending conflict
+    if (this.fileConflict?.file.path === this.currentFile.path) return;
 
     this.isSaving = true;
     try {
+      const file = this.currentFile;
       // 只在手动保存时更新文档元信息
       const contentToSave = updateMetadata
-        ? this.updateDocumentMetadata(this.currentContent, this.currentFile.path)
+        ? this.updateDocumentMetadata(this.currentContent, file.path)
         : this.currentContent;
 
-      await window.electronAPI.saveFile(this.currentFile.path, contentToSave);
-      await window.electronAPI.addGit(this.currentFile.path);
+      // Pass the version we loaded so the main process can reject a stale write
+      const expectedVersion = this.tabStore.findTabByPath(file.path)?.version;
+      const res = await window.electronAPI.saveFile(file.path, contentToSave, expectedVersion);
+      if (!res.success) {
+        if (res.code === FILE_CONFLICT_ERROR_CODE) {
+          await this.openFileConflict(file, contentToSave);
+          return;
+        }
+        throw new Error(res.error || 'Failed to save file');
+      }
+      await window.electronAPI.addGit(file.path);
 
       runInAction(() => {
         this.originalContent = contentToSave;
         this.currentContent = contentToSave;
-        this.unsavedFilePaths.delete(this.currentFile!.path);
+        this.unsavedFilePaths.delete(file.path);
 
         if (this.activeTabId) {
           this.tabStore.updateTabContent(this.activeTabId, contentToSave, contentToSave);
+          if (res.data) {
+            this.tabStore.setTabVersion(this.activeTabId, res.data);
+          }
         }
       });
 
@@ -456,6 +582,114 @@ export class FileStore {
     }
   }
 
+  // Load what is on disk now and ask the user how to reconcile it with the editor buffer
+  private async openFileConflict(file: FileNode, localContent: string) {
+    const res = await window.electronAPI.readFileWithVersion(file.path);
+    if (!res.success || !res.data) {
+      this.toastStore.error(res.error || '读取磁盘文件失败');
+      return;
+    }
+
+    const { content, version } = res.data;
+    runInAction(() => {
+      this.fileConflict = {
+        file,
+        localContent,
+        diskContent: content,
+        diskVersion: version
+      };
+    });
+  }
+
+  // Write the content the user settled on (mine, theirs or a merge) and clear the conflict
+  async resolveFileConflict(resolvedContent: string) {
+    const conflict = this.fileConflict;
+    if (!conflict) return;
+
+    let version = conflict.diskVersion;
+    // Taking the disk version as-is needs no write
+    if (resolvedContent !== conflict.diskContent) {
+      const res = await window.electronAPI.saveFile(conflict.file.path, resolvedContent, conflict.diskVersion);
+      if (!res.success) {
+        if (res.code === FILE_CONFLICT_ERROR_CODE) {
+          // Changed on disk yet again while the dialog was open
+          this.toastStore.warning('文件再次被外部修改，请重新合并');
+          await this.openFileConflict(conflict.file, resolvedContent);
+        } else {
+          this.toastStore.error(res.error || '保存失败');
+        }
+        return;
+      }
+      version = res.data || version;
+      await window.electronAPI.addGit(conflict.file.path);
+    }
+
+    runInAction(() => {
+      const filePath = conflict.file.path;
+      const tab = this.tabStore.findTabByPath(filePath);
+      if (tab) {
+        this.tabStore.updateTabContent(tab.file.id, resolvedContent, resolvedContent);
+        this.tabStore.setTabVersion(tab.file.id, version);
+      }
+      if (this.currentFile?.path === filePath) {
+        this.currentContent = resolvedContent;
+        this.originalContent = resolvedContent;
+      }
+      this.unsavedFilePaths.delete(filePath);
+      this.fileConflict = null;
+    });
+
+    if (this.gitStore) {
+      this.gitStore.checkStatus();
+    }
+  }
+
+  // Close the dialog without deciding; the buffer stays dirty and the next save asks again
+  dismissFileConflict() {
+    this.fileConflict = null;
+  }
+
+  // An open file changed on disk: reload clean tabs, raise a conflict for the edited current file
+  private async syncOpenFile(filePath: string) {
+    const tab = this.tabStore.findTabByPath(filePath);
+    // A running save records the new version itself once it finishes
+    if (!tab || this.isSaving || this.fileConflict?.file.path === filePath) return;
+
+    const res = await window.electronAPI.readFileWithVersion(filePath);
+    if (!res.success || !res.data) return;
+
+    const { content, version } = res.data;
+    // Our own save, or a touch that did not change anything
+    if (tab.version?.hash === version.hash || content === tab.content) {
+      this.tabStore.setTabVersion(tab.file.id, version);
+      return;
+    }
+
+    const isDirty = tab.isModified || this.unsavedFilePaths.has(filePath);
+    if (!isDirty) {
+      runInAction(() => {
+        this.tabStore.updateTabContent(tab.file.id, content, content);
+        this.tabStore.setTabVersion(tab.file.id, version);
+        if (this.currentFile?.path === filePath) {
+          this.currentContent = content;
+          this.originalContent = content;
+        }
+      });
+      return;
+    }
+
+    if (this.currentFile?.path === filePath) {
+      runInAction(() => {
+        this.fileConflict = {
+          file: tab.file,
+          localContent: this.currentContent,
+          diskContent: content,
+          diskVersion: version
+        };
+      });
+    }
+  }
+
   // 更新文档元信息（创建时间、更新时间、笔记本）
   private updateDocumentMetadata(content: string, filePath: string): string {
     const now = new Date();
@@ -543,7 +777,7 @@ export class FileStore {
   }
 
   // Create a new file
-  async createFile(parentPath: string, name: string) {
+  async createFile(parentPath: string, name: string, open: boolean = true) {
     // Preserve expansion state before async call (it may get lost during await)
     const savedExpandedPaths = { ...this.expandedPaths };
 
@@ -561,7 +795,7 @@ export class FileStore {
             this.setExpanded(parentPath, true);
           });
 
-          await this.selectFile(res.data);
+          if (open) await this.selectFile(res.data);
         }
       } else {
         this.toastStore.error(res.error || '创建文件失败');
@@ -574,6 +808,20 @@ export class FileStore {
     }
   }
 
+  /**
+   * Create the note a wikilink points to
+   * [[Name]] is created next to the linking note, [[folder/Name]] relative to the notebook root
+   * @param open Whether to switch to the new note
+   */
+  async createLinkedNote(target: string, fromPath: string, open: boolean = true) {
+    const normalized = target.replace(/\\/g, '/').trim();
+    const name = getBaseName(normalized);
+    const folder = getParentPath(normalized);
+    const parentPath = folder ? joinPath(this.rootPath, folder) : getParentPath(fromPath);
+
+    await this.createFile(parentPath, /\.md$/i.test(name) ? name : `${name}.md`, open);
+  }
+
   // Create a new directory
   async createDir(parentPath: string, name: string) {
     // Preserve expansion state
@@ -702,53 +950,261 @@ export class FileStore {
     }
   }
 
-  // Rename a file or directory
+  // Rename a file or directory, asking first if links in other notes would need updating
   async renameItem(oldPath: string, newName: string) {
-    try {
-      const res = await window.electronAPI.renameItem(oldPath, newName);
-      if (res.success && res.data) {
-        const newPath = res.data;
-        const wasCurrentFile = this.currentFile?.path === oldPath;
+    const newPath = joinPath(getParentPath(oldPath), newName);
+    if (await this.promptLinkRewrite('rename', oldPath, newPath)) return;
+    await this.moveWithoutLinks('rename', oldPath, newPath);
+  }
 
-        await this.loadFileTree();
+  // Move a file or directory, asking first if links in other notes would need updating
+  async moveItem(sourcePath: string, targetParentPath: string) {
+    const newPath = joinPath(targetParentPath, getBaseName(sourcePath));
+    if (await this.promptLinkRewrite('move', sourcePath, newPath)) return;
+    await this.moveWithoutLinks('move', sourcePath, newPath);
+  }
 
-        if (wasCurrentFile) {
-          const newNode = this.findNode(this.fileTree, newPath);
-          if (newNode && newNode.type === 'file') {
-            await this.selectFile(newNode);
-          }
-        }
+  private async moveWithoutLinks(kind: 'rename' | 'move', oldPath: string, newPath: string) {
+    const failureMessage = kind === 'rename' ? '重命名失败' : '移动失败';
+    try {
+      const res = kind === 'rename'
+        ? await window.electronAPI.renameItem(oldPath, getBaseName(newPath))
+        : await window.electronAPI.moveItem(oldPath, getParentPath(newPath));
+      if (res.success && res.data) {
+        await this.afterMove(oldPath, res.data);
       } else {
-        this.toastStore.error(res.error || '重命名失败');
+        this.toastStore.error(res.error || failureMessage);
       }
     } catch (error) {
-      console.error('Failed to rename item:', error);
-      this.toastStore.error('重命名失败');
+      console.error(`Failed to ${kind} item:`, error);
+      this.toastStore.error(failureMessage);
     }
   }
 
-  // Move a file or directory
-  async moveItem(sourcePath: string, targetParentPath: string) {
+  /**
+   * Look for notes whose links the rename / move would break
+   * @returns Whether a confirmation prompt was opened (the move then waits for it)
+   */
+  private async promptLinkRewrite(kind: 'rename' | 'move', oldPath: string, newPath: string): Promise<boolean> {
+    if (oldPath === newPath) return false;
+
     try {
-      const res = await window.electronAPI.moveItem(sourcePath, targetParentPath);
-      if (res.success && res.data) {
-        const newPath = res.data;
-        const wasCurrentFile = this.currentFile?.path === sourcePath;
+      const res = await window.electronAPI.planLinkRewrite(oldPath, newPath);
+      if (!res.success || !res.data || res.data.length === 0) return false;
 
-        await this.loadFileTree();
+      const affected = res.data;
+      runInAction(() => {
+        this.linkRewritePrompt = { kind, oldPath, newPath, affected };
+      });
+      return true;
+    } catch (error) {
+      // Planning is best effort: fall back to a plain move
+      console.error('Failed to plan link rewrite:', error);
+      return false;
+    }
+  }
 
-        if (wasCurrentFile) {
-          const newNode = this.findNode(this.fileTree, newPath);
-          if (newNode && newNode.type === 'file') {
-            await this.selectFile(newNode);
-          }
+  /**
+   * Finish the pending rename / move
+   * @param updateLinks Rewrite the affected links (and commit everything together) or only move
+   */
+  async confirmLinkRewrite(updateLinks: boolean) {
+    const prompt = this.linkRewritePrompt;
+    if (!prompt) return;
+
+    if (!updateLinks) {
+      this.linkRewritePrompt = null;
+      await this.moveWithoutLinks(prompt.kind, prompt.oldPath, prompt.newPath);
+      return;
+    }
+
+    this.isRewritingLinks = true;
+    try {
+      const res = await window.electronAPI.moveWithLinks(prompt.oldPath, prompt.newPath);
+      if (!res.success || !res.data) {
+        throw new Error(res.error || (prompt.kind === 'rename' ? '重命名失败' : '移动失败'));
+      }
+
+      const { newPath, rewritten, commit, commitError } = res.data;
+      runInAction(() => {
+        this.linkRewritePrompt = null;
+      });
+      await this.afterMove(prompt.oldPath, newPath);
+      rewritten.forEach(filePath => this.reindexFile(filePath));
+
+      if (commitError) {
+        this.toastStore.warning(`链接已更新但提交失败: ${commitError}`);
+      }
+      this.toastStore.success(
+        commit
+          ? `已更新 ${rewritten.length} 个笔记中的链接 (提交 ${commit.slice(0, 7)})`
+          : `已更新 ${rewritten.length} 个笔记中的链接`
+      );
+      this.gitStore?.checkStatus();
+    } catch (error) {
+      console.error('Failed to rewrite links:', error);
+      this.toastStore.error(error instanceof Error ? error.message : '更新链接失败');
+    } finally {
+      runInAction(() => {
+        this.isRewritingLinks = false;
+      });
+    }
+  }
+
+  dismissLinkRewrite() {
+    this.linkRewritePrompt = null;
+  }
+
+  private async afterMove(oldPath: string, newPath: string) {
+    const wasCurrentFile = this.currentFile?.path === oldPath;
+
+    await this.loadFileTree();
+
+    if (wasCurrentFile) {
+      const newNode = this.findNode(this.fileTree, newPath);
+      if (newNode && newNode.type === 'file') {
+        await this.selectFile(newNode);
+      }
+    }
+  }
+
+  // Apply incremental file system changes pushed by the watcher
+  // The tree is patched in place, so expansion state and scroll position are kept
+  async applyFileChanges(changes: FileChangeEvent[]) {
+    if (!this.rootPath) return;
+
+    const filesToIndex: string[] = [];
+
+    runInAction(() => {
+      for (const change of changes) {
+        if (!isWithinPath(change.path, this.rootPath)) continue;
+
+        switch (change.type) {
+          case 'add':
+            if (change.node) {
+              // Our own create actions insert the node before the event arrives
+              if (!this.findNode(this.fileTree, change.path)) {
+                this.addTreeNode(change.parentPath, change.node);
+              }
+              this.collectMarkdownFiles(change.node).forEach(file => filesToIndex.push(file.path));
+            }
+            break;
+          case 'remove':
+            this.applyExternalRemove(change.path);
+            break;
+          case 'rename':
+            if (change.oldPath && change.node) {
+              this.applyExternalRename(change.oldPath, change.parentPath, change.node);
+            }
+            break;
+          case 'change':
+            this.fileRevisions.set(change.path, this.getFileRevision(change.path) + 1);
+            if (change.path.endsWith('.md')) {
+              filesToIndex.push(change.path);
+            }
+            break;
         }
-      } else {
-        this.toastStore.error(res.error || '移动失败');
+      }
+    });
+
+    // Re-index tags and backlinks of new or modified notes
+    for (const filePath of filesToIndex) {
+      await this.reindexFile(filePath);
+    }
+
+    // Pick up external edits of files that are open in a tab
+    for (const change of changes) {
+      if (change.type === 'change') {
+        await this.syncOpenFile(change.path);
+      }
+    }
+  }
+
+  private applyExternalRemove(path: string) {
+    this.removeNode(this.fileTree, path);
+
+    Object.keys(this.expandedPaths).forEach(expandedPath => {
+      if (isWithinPath(expandedPath, path)) {
+        delete this.expandedPaths[expandedPath];
+      }
+    });
+
+    // Close tabs of deleted files, unless they still hold unsaved edits (saving recreates the file)
+    this.tabStore.openTabs
+      .filter(tab => isWithinPath(tab.file.path, path))
+      .filter(tab => !tab.isModified && !this.unsavedFilePaths.has(tab.file.path))
+      .forEach(tab => {
+        if (this.activeTabId === tab.file.id) {
+          this.currentFile = null;
+          this.currentContent = '';
+          this.originalContent = '';
+        }
+        this.tabStore.closeTab(tab.file.id);
+      });
+
+    if (!this.currentFile) {
+      const activeTab = this.tabStore.getActiveTab();
+      if (activeTab) {
+        this.currentFile = activeTab.file;
+        this.currentContent = activeTab.content;
+        this.originalContent = activeTab.originalContent;
+      }
+    }
+
+    this.tagStore?.removePath(path);
+  }
+
+  private applyExternalRename(oldPath: string, parentPath: string, node: FileNode) {
+    const newPath = node.path;
+
+    // Our own rename / move actions reload the tree, so the new node may already be there
+    if (!this.findNode(this.fileTree, newPath)) {
+      this.removeNode(this.fileTree, oldPath);
+      this.addTreeNode(parentPath, node);
+    }
+
+    // Carry expansion state over to the new location
+    Object.keys(this.expandedPaths).forEach(expandedPath => {
+      if (isWithinPath(expandedPath, oldPath)) {
+        delete this.expandedPaths[expandedPath];
+        this.expandedPaths[replacePathPrefix(expandedPath, oldPath, newPath)] = true;
+      }
+    });
+
+    // Re-point open tabs (and the current file) at the moved nodes
+    this.tabStore.openTabs
+      .filter(tab => isWithinPath(tab.file.path, oldPath))
+      .forEach(tab => {
+        const movedPath = replacePathPrefix(tab.file.path, oldPath, newPath);
+        const movedNode = this.findNode(this.fileTree, movedPath);
+        if (!movedNode) return;
+
+        if (this.unsavedFilePaths.has(tab.file.path)) {
+          this.unsavedFilePaths.delete(tab.file.path);
+          this.unsavedFilePaths.add(movedPath);
+        }
+        if (this.currentFile?.path === tab.file.path) {
+          this.currentFile = movedNode;
+        }
+        this.tabStore.replaceTabFile(tab.file.id, movedNode);
+      });
+
+    this.tagStore?.renamePath(oldPath, newPath);
+  }
+
+  private async reindexFile(filePath: string) {
+    if (!this.tagStore) return;
+
+    try {
+      const res = await window.electronAPI.readFile(filePath);
+      if (!res.success) return;
+
+      const content = res.data || '';
+      if (this.tagStore) {
+        this.tagStore.updateFileTags(filePath, this.tagStore.parseTagsFromContent(content));
       }
     } catch (error) {
-      console.error('Failed to move item:', error);
-      this.toastStore.error('移动失败');
+      console.error('Failed to re-index file:', error);
     }
   }
 
@@ -827,7 +1283,9 @@ export class FileStore {
 
     // Import marked for conversion
     const { marked } = await import('marked');
+    const { getMarkdownExportStyles, registerMarkdownExtensions } = await import('../utils/markdownExtensions');
     marked.use({ breaks: true, gfm: true });
+    registerMarkdownExtensions();
 
     const createRenderer = (filePath: string) => {
       const renderer = new marked.Renderer();
@@ -883,6 +1341,8 @@ export class FileStore {
 
         const content = fileRes.data;
         let result: { success: boolean; error?: string; path?: string };
+        // Markdown export keeps the ![[...]] embeds; HTML / PDF inline what they point to
+        const renderedContent = format === 'md' ? content : (await this.expandEmbeds(content, file.path)).content;
 
         if (format === 'md') {
           const exportPath = `${exportDir}/${file.name}`;
@@ -890,18 +1350,18 @@ export class FileStore {
           result = { success: saveRes.success, error: saveRes.error, path: saveRes.success ? exportPath : undefined };
         } else if (format === 'html') {
           const renderer = createRenderer(file.path);
-          const htmlContent = await marked.parse(content, { renderer }) as string;
+          const htmlContent = await marked.parse(renderedContent, { renderer }) as string;
           const fileName = file.name.replace('.md', '.html');
           const exportPath = `${exportDir}/${fileName}`;
-          const completeHtml = this.createHtmlDocument(file.name, htmlContent);
+          const completeHtml = this.createHtmlDocument(file.name, htmlContent, getMarkdownExportStyles(htmlContent));
           const saveRes = await window.electronAPI.exportHtmlDirect(completeHtml, exportPath);
           result = { success: saveRes.success, error: saveRes.error, path: saveRes.data };
         } else {
           const renderer = createRenderer(file.path);
-          const htmlContent = await marked.parse(content, { renderer }) as string;
+          const htmlContent = await marked.parse(renderedContent, { renderer }) as string;
           const fileName = file.name.replace('.md', '.pdf');
           const exportPath = `${exportDir}/${fileName}`;
-          const completeHtml = this.createPdfHtmlDocument(htmlContent);
+          const completeHtml = this.createPdfHtmlDocument(htmlContent, getMarkdownExportStyles(htmlContent));
           const saveRes = await window.electronAPI.exportPdfDirect(completeHtml, exportPath);
           result = { success: saveRes.success, error: saveRes.error, path: saveRes.data };
         }
@@ -943,7 +1403,7 @@ export class FileStore {
     this.exportStore.closeDialog();
   }
 
-  private createHtmlDocument(title: string, content: string): string {
+  private createHtmlDocument(title: string, content: string, headStyles = ''): string {
     return `<!DOCTYPE html>
 <html lang="zh-CN">
 <head>
@@ -968,12 +1428,13 @@ export class FileStore {
         a:hover { text-decoration: underline; }
         .mermaid { text-align: center; margin: 20px 0; }
     </style>
+    ${headStyles}
 </head>
 <body>${content}</body>
 </html>`;
   }
 
-  private createPdfHtmlDocument(content: string): string {
+  private createPdfHtmlDocument(content: string, headStyles = ''): string {
     return `<!DOCTYPE html>
 <html lang="zh-CN">
 <head>
@@ -995,11 +1456,21 @@ export class FileStore {
         a { color: #0969da; text-decoration: none; }
         .mermaid { text-align: center; margin: 20px 0; }
     </style>
+    ${headStyles}
 </head>
 <body>${content}</body>
 </html>`;
   }
 
+  // Save the current search query as a smart folder
+  async saveSearchAsSmartFolder(name: string) {
+    const query = this.searchStore.searchQuery.trim();
+    if (!query || !name.trim()) return;
+
+    await this.smartFolderStore.addFolder(name.trim(), query);
+    this.toastStore.success(`已保存智能文件夹「${name.trim()}」`);
+  }
+
   // Favorites - delegate to FavoriteStore
   toggleFavorite(path: string) {
     this.favoriteStore.toggleFavorite(path);
@@ -1030,22 +1501,23 @@ export class FileStore {
 
   getSortedChildren(node: FileNode): FileNode[] | null {
     if (!node.children || node.children.length === 0) return null;
+    return [...node.children].sort(this.compareNodes(node.path));
+  }
 
-    const sortOrder = this.getSortOrder(node.path);
-    // 默认使用倒序排列 (5, 4, 3, 2, 1)
-    const defaultOrder = sortOrder || 'desc';
+  // Order of the entries of a folder, following its sort setting
+  private compareNodes(dirPath: string) {
+    // 默认使用倒序排列 (5, 4, 3, 2, 1); the notebook root, which has no sort toggle, lists in ascending order
+    const order = this.getSortOrder(dirPath) || (dirPath === this.rootPath ? 'asc' : 'desc');
 
-    const sorted = [...node.children].sort((a, b) => {
+    return (a: FileNode, b: FileNode) => {
       if (a.type !== b.type) {
         return a.type === 'directory' ? -1 : 1;
       }
       // 使用 numeric: true 实现自然排序，类似于 macOS Finder
       // 这样 "1.md" 会排在 "2.md" 和 "12.md" 前面
       const compare = a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
-      return defaultOrder === 'asc' ? compare : -compare;
-    });
-
-    return sorted;
+      return order === 'asc' ? compare : -compare;
+    };
   }
 
   private saveSortSettings() {
@@ -1086,10 +1558,7 @@ export class FileStore {
       if (node.path === parentPath && node.type === 'directory') {
         if (!node.children) node.children = [];
         node.children.push(newNode);
-        node.children.sort((a, b) => {
-          if (a.type === b.type) return a.name.localeCompare(b.name);
-          return a.type === 'directory' ? -1 : 1;
-        });
+        node.children.sort(this.compareNodes(parentPath));
         return true;
       }
       if (node.children && this.insertNode(node.children, parentPath, newNode)) {
@@ -1099,6 +1568,16 @@ export class FileStore {
     return false;
   }
 
+  // Insert a node under parentPath, which may be the notebook root itself
+  private addTreeNode(parentPath: string, newNode: FileNode) {
+    if (parentPath === this.rootPath) {
+      this.fileTree.push(newNode);
+      this.fileTree.sort(this.compareNodes(parentPath));
+      return;
+    }
+    this.insertNode(this.fileTree, parentPath, newNode);
+  }
+
   private removeNode(nodes: FileNode[], targetPath: string): boolean {
     for (let i = 0; i < nodes.length; i++) {
       if (nodes[i].path === targetPath) {
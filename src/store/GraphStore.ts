@@ -0,0 +1,172 @@
+import { makeAutoObservable } from 'mobx';
+import type { FileNode } from '../types';
+import type { FileStore } from './FileStore';
+import type { BacklinkStore } from './BacklinkStore';
+import type { TagStore } from './TagStore';
+import { isWithinPath } from '../utils/path';
+
+export type GraphMode = 'global' | 'local';
+
+export interface GraphNode {
+  path: string;
+  name: string;
+  linkCount: number;  // Distinct notes linked to or from this note
+  isOrphan: boolean;  // No links in either direction
+}
+
+export interface LinkGraph {
+  nodes: GraphNode[];
+  edges: Array<[number, number]>;  // Indexes into nodes, one per linked pair of notes
+}
+
+export const MAX_LOCAL_DEPTH = 3;
+
+/**
+ * GraphStore - Knowledge graph built from the wikilink index
+ * The full graph is derived from BacklinkStore's links and resolver; the filters pick the part shown
+ */
+export class GraphStore {
+  mode: GraphMode = 'global';
+  localDepth: number = 1;
+  folder: string = '';
+  tag: string = '';
+  showOrphans: boolean = true;
+
+  private fileStore: FileStore;
+  private backlinkStore: BacklinkStore;
+  private tagStore: TagStore;
+
+  constructor(fileStore: FileStore, backlinkStore: BacklinkStore, tagStore: TagStore) {
+    makeAutoObservable(this);
+    this.fileStore = fileStore;
+    this.backlinkStore = backlinkStore;
+    this.tagStore = tagStore;
+  }
+
+  setMode(mode: GraphMode) {
+    this.mode = mode;
+  }
+
+  setLocalDepth(depth: number) {
+    this.localDepth = Math.max(1, Math.min(MAX_LOCAL_DEPTH, depth));
+  }
+
+  setFolder(folder: string) {
+    this.folder = folder;
+  }
+
+  setTag(tag: string) {
+    this.tag = tag;
+  }
+
+  toggleOrphans() {
+    this.showOrphans = !this.showOrphans;
+  }
+
+  // Every note in the notebook and the links between them
+  get graph(): LinkGraph {
+    const files = this.collectNotes(this.fileStore.fileTree);
+    const indexByPath = new Map(files.map((file, index) => [file.path, index]));
+    const { resolve } = this.backlinkStore.resolver;
+
+    const neighbours = files.map(() => new Set<number>());
+    const edges: Array<[number, number]> = [];
+    files.forEach((file, source) => {
+      for (const link of this.backlinkStore.getLinks(file.path)) {
+        const targetPath = resolve(link.target, file.path);
+        const target = targetPath ? indexByPath.get(targetPath) : undefined;
+        if (target === undefined || target === source || neighbours[source].has(target)) continue;
+        neighbours[source].add(target);
+        neighbours[target].add(source);
+        edges.push([source, target]);
+      }
+    });
+
+    return {
+      nodes: files.map((file, index) => ({
+        path: file.path,
+        name: file.name.replace(/\.md$/, ''),
+        linkCount: neighbours[index].size,
+        isOrphan: neighbours[index].size === 0
+      })),
+      edges
+    };
+  }
+
+  get orphanCount(): number {
+    return this.graph.nodes.filter(node => node.isOrphan).length;
+  }
+
+  // The graph after applying the mode and filters
+  get visibleGraph(): LinkGraph {
+    const { nodes, edges } = this.graph;
+    const centerPath = this.fileStore.currentFile?.path;
+    const center = nodes.findIndex(node => node.path === centerPath);
+
+    let included = nodes.map(node => this.matchesFilters(node));
+    if (this.mode === 'local') {
+      if (center === -1) return { nodes: [], edges: [] };
+      const reachable = this.reachableFrom(center, nodes.length, edges);
+      // The current note stays visible even when a filter would hide it
+      included = included.map((keep, index) => index === center || (keep && reachable.has(index)));
+    }
+
+    const newIndex = new Map<number, number>();
+    const visibleNodes: GraphNode[] = [];
+    nodes.forEach((node, index) => {
+      if (!included[index]) return;
+      newIndex.set(index, visibleNodes.length);
+      visibleNodes.push(node);
+    });
+
+    return {
+      nodes: visibleNodes,
+      edges: edges
+        .filter(([source, target]) => newIndex.has(source) && newIndex.has(target))
+        .map(([source, target]) => [newIndex.get(source)!, newIndex.get(target)!])
+    };
+  }
+
+  private matchesFilters(node: GraphNode): boolean {
+    if (!this.showOrphans && node.isOrphan) return false;
+    if (this.folder && !isWithinPath(node.path, this.folder)) return false;
+    if (this.tag && !this.tagStore.getFileTags(node.path).includes(this.tag)) return false;
+    return true;
+  }
+
+  // Notes within localDepth links of the center note
+  private reachableFrom(center: number, nodeCount: number, edges: Array<[number, number]>): Set<number> {
+    const adjacency: number[][] = Array.from({ length: nodeCount }, () => []);
+    for (const [source, target] of edges) {
+      adjacency[source].push(target);
+      adjacency[target].push(source);
+    }
+
+    const reachable = new Set([center]);
+    let frontier = [center];
+    for (let depth = 0; depth < this.localDepth && frontier.length > 0; depth++) {
+      const next: number[] = [];
+      for (const index of frontier) {
+        for (const neighbour of adjacency[index]) {
+          if (reachable.has(neighbour)) continue;
+          reachable.add(neighbour);
+          next.push(neighbour);
+        }
+      }
+      frontier = next;
+    }
+    return reachable;
+  }
+
+  // Markdown notes, skipping hidden directories
+  private collectNotes(nodes: FileNode[], files: FileNode[] = []): FileNode[] {
+    for (const node of nodes) {
+      if (node.type === 'directory') {
+        if (!node.name.startsWith('.') && node.children) this.collectNotes(node.children, files);
+      } else if (node.name.endsWith('.md')) {
+        files.push(node);
+      }
+    }
+    return files;
+  }
+}
@@ -21,6 +21,7 @@ export type ShortcutAction = {
 const DEFAULT_SHORTCUTS: ShortcutConfig[] = [
   // Editor shortcuts
   { id: 'save', name: '保存', description: '保存当前文件', defaultKey: 's', modifiers: ['meta'], category: 'editor' },
+  { id: 'find', name: '查找替换', description: '在当前笔记中查找和替换', defaultKey: 'f', modifiers: ['meta'], category: 'editor' },
   { id: 'format', name: '格式化', description: '格式化 Markdown', defaultKey: 's', modifiers: ['shift', 'meta'], category: 'editor' },
   { id: 'bold', name: '粗体', description: '插入粗体文本', defaultKey: 'b', modifiers: ['meta'], category: 'editor' },
   { id: 'italic', name: '斜体', description: '插入斜体文本', defaultKey: 'i', modifiers: ['meta'], category: 'editor' },
@@ -46,6 +47,9 @@ export class KeyboardShortcutStore {
   isRecording: boolean = false;
   recordingShortcutId: string | null = null;
 
+  // Key event continuing a Vim / Emacs key sequence in the editor
+  private editorSequenceEvent: KeyboardEvent | null = null;
+
   private readonly STORAGE_KEY = 'zhixia-keyboard-shortcuts';
 
   constructor() {
@@ -174,10 +178,20 @@ export class KeyboardShortcutStore {
     return this.shortcuts.filter(s => s.category === category);
   }
 
+  // Called by the editor for keys that continue one of its key sequences (d2w, "ay, C-x C-s, ...)
+  markEditorSequenceKey(event: KeyboardEvent) {
+    this.editorSequenceEvent = event;
+  }
+
+  // App shortcuts leave alone keys the editor's key bindings consumed, and keys in the middle of its key sequences
+  isAvailableForApp(event: KeyboardEvent): boolean {
+    return !event.defaultPrevented && event !== this.editorSequenceEvent;
+  }
+
   // Check if a keyboard event matches a shortcut
   matchesShortcut(id: string, event: KeyboardEvent): boolean {
     const action = this.getShortcutAction(id);
-    if (!action) return false;
+    if (!action || !this.isAvailableForApp(event)) return false;
 
     return (
       event.key.toLowerCase() === action.key.toLowerCase() &&
@@ -0,0 +1,119 @@
+import { makeAutoObservable, runInAction } from 'mobx';
+import type { UnlinkedMention, UnlinkedMentionFile } from '../types';
+import type { ToastStore } from './ToastStore';
+import type { FileStore } from './FileStore';
+
+const REFRESH_DEBOUNCE_MS = 300;
+
+/**
+ * MentionStore - Unlinked mentions of the current note
+ * Lists notes that name it as plain text and links them on request; the list is
+ * re-queried whenever the search index changes
+ */
+export class MentionStore {
+  files: UnlinkedMentionFile[] = [];
+  isLoading: boolean = false;
+  // "path:offset" of the mention being linked
+  linkingKey: string | null = null;
+
+  // Note the list belongs to and the names it is mentioned by
+  private target: { path: string; names: string[] } | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private toastStore: ToastStore;
+  private fileStore: FileStore;
+
+  constructor(toastStore: ToastStore, fileStore: FileStore) {
+    makeAutoObservable(this);
+    this.toastStore = toastStore;
+    this.fileStore = fileStore;
+    this.setupIndexListener();
+  }
+
+  private setupIndexListener() {
+    // Notes were edited elsewhere: mentions may have appeared or been linked
+    window.electronAPI.onSearchIndexUpdated(() => {
+      if (this.target) this.scheduleRefresh();
+    });
+  }
+
+  get mentionCount(): number {
+    return this.files.reduce((sum, file) => sum + file.mentions.length, 0);
+  }
+
+  // Look for mentions of a note by its title and aliases
+  async load(path: string, names: string[]) {
+    const isSameTarget = this.target?.path === path && this.target.names.join('\n') === names.join('\n');
+    if (isSameTarget) return;
+    if (this.target?.path !== path) this.files = [];
+    this.target = { path, names };
+    await this.refresh();
+  }
+
+  clear() {
+    this.target = null;
+    this.files = [];
+  }
+
+  async refresh() {
+    const target = this.target;
+    if (!target) return;
+
+    this.isLoading = true;
+    try {
+      const res = await window.electronAPI.findUnlinkedMentions(target.names, target.path);
+      runInAction(() => {
+        // The current note changed while searching
+        if (this.target !== target) return;
+        this.files = res.success && res.data ? res.data : [];
+      });
+    } catch (error) {
+      console.error('Failed to find unlinked mentions:', error);
+    } finally {
+      runInAction(() => {
+        this.isLoading = false;
+      });
+    }
+  }
+
+  /**
+   * Replace one mention with a wikilink to the current note
+   */
+  async linkMention(file: UnlinkedMentionFile, mention: UnlinkedMention) {
+    const target = this.target;
+    if (!target) return;
+
+    // Writing the file would conflict with the edits still in the editor
+    if (this.fileStore.unsavedFilePaths.has(file.path)) {
+      this.toastStore.warning(`「${file.name.replace(/\.md$/, '')}」有未保存的修改，请先保存`);
+      return;
+    }
+
+    const noteName = target.names[0];
+    this.linkingKey = `${file.path}:${mention.offset}`;
+    try {
+      const res = await window.electronAPI.linkMention(file.path, noteName, { offset: mention.offset, text: mention.text });
+      if (!res.success) {
+        throw new Error(res.error || '链接失败');
+      }
+      this.toastStore.success(`已在「${file.name.replace(/\.md$/, '')}」中链接到 [[${noteName}]]`);
+    } catch (error) {
+      console.error('Failed to link mention:', error);
+      this.toastStore.error(error instanceof Error ? error.message : '链接失败');
+    } finally {
+      runInAction(() => {
+        this.linkingKey = null;
+      });
+    }
+    // Offsets after the link have shifted, so the list is always re-read
+    await this.refresh();
+  }
+
+  private scheduleRefresh() {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refresh();
+    }, REFRESH_DEBOUNCE_MS);
+  }
+}
@@ -0,0 +1,167 @@
+import { makeAutoObservable, runInAction } from 'mobx';
+import type { ReplaceFilePreview, ReplaceOptions } from '../types';
+import type { ToastStore } from './ToastStore';
+import type { GitStore } from './GitStore';
+import type { FileStore } from './FileStore';
+
+/**
+ * ReplaceStore - Vault-wide find / replace
+ * Previews the replacement per file and applies the files the user kept selected
+ */
+export class ReplaceStore {
+  options: ReplaceOptions = {
+    find: '',
+    replace: '',
+    isRegex: false,
+    caseSensitive: false,
+    folder: '',
+    tag: ''
+  };
+  previews: ReplaceFilePreview[] = [];
+  selectedPaths: Set<string> = new Set();
+  isPreviewing: boolean = false;
+  isApplying: boolean = false;
+  error: string | null = null;
+  // Options the current preview was made with; applying always uses these
+  private previewOptions: ReplaceOptions | null = null;
+
+  private toastStore: ToastStore;
+  private fileStore: FileStore;
+  private gitStore: GitStore;
+
+  constructor(toastStore: ToastStore, fileStore: FileStore, gitStore: GitStore) {
+    makeAutoObservable(this);
+    this.toastStore = toastStore;
+    this.fileStore = fileStore;
+    this.gitStore = gitStore;
+  }
+
+  setOption<K extends keyof ReplaceOptions>(key: K, value: ReplaceOptions[K]) {
+    this.options = { ...this.options, [key]: value };
+  }
+
+  // The preview no longer matches what is typed in the panel
+  get isPreviewStale(): boolean {
+    if (!this.previewOptions) return false;
+    return (Object.keys(this.options) as Array<keyof ReplaceOptions>)
+      .some(key => this.options[key] !== this.previewOptions![key]);
+  }
+
+  get selectedMatchCount(): number {
+    return this.previews
+      .filter(preview => this.selectedPaths.has(preview.path))
+      .reduce((sum, preview) => sum + preview.matchCount, 0);
+  }
+
+  // Notes with unsaved edits in the editor would be overwritten on disk behind the editor's back
+  hasUnsavedChanges(path: string): boolean {
+    return this.fileStore.unsavedFilePaths.has(path);
+  }
+
+  async preview() {
+    if (!this.options.find) return;
+
+    const options = { ...this.options };
+    this.isPreviewing = true;
+    this.error = null;
+    try {
+      const res = await window.electronAPI.replacePreview(options);
+      runInAction(() => {
+        if (res.success && res.data) {
+          this.previews = res.data;
+          this.previewOptions = options;
+          this.selectedPaths = new Set(
+            res.data.filter(preview => !this.hasUnsavedChanges(preview.path)).map(preview => preview.path)
+          );
+        } else {
+          this.previews = [];
+          this.previewOptions = null;
+          this.error = res.error || '预览失败';
+        }
+      });
+    } catch (error) {
+      console.error('Replace preview failed:', error);
+      runInAction(() => {
+        this.error = '预览失败';
+      });
+    } finally {
+      runInAction(() => {
+        this.isPreviewing = false;
+      });
+    }
+  }
+
+  toggleSelected(path: string) {
+    const next = new Set(this.selectedPaths);
+    if (next.has(path)) {
+      next.delete(path);
+    } else {
+      next.add(path);
+    }
+    this.selectedPaths = next;
+  }
+
+  setAllSelected(selected: boolean) {
+    this.selectedPaths = selected ? new Set(this.previews.map(preview => preview.path)) : new Set();
+  }
+
+  /**
+   * Write the selected replacements and commit them together
+   * @returns Whether at least one file was replaced
+   */
+  async apply(): Promise<boolean> {
+    if (!this.previewOptions || this.selectedPaths.size === 0) return false;
+
+    const items = this.previews
+      .filter(preview => this.selectedPaths.has(preview.path))
+      .map(preview => ({ path: preview.path, version: preview.version }));
+
+    this.isApplying = true;
+    try {
+      const res = await window.electronAPI.replaceApply(this.previewOptions, items);
+      if (!res.success || !res.data) {
+        throw new Error(res.error || '替换失败');
+      }
+
+      const { replaced, failed, commit, commitError } = res.data;
+      if (failed.length > 0) {
+        const names = failed.map(item => item.path.split(/[\\/]/).pop()).join('、');
+        this.toastStore.warning(`${failed.length} 个文件未替换: ${names}`);
+      }
+      if (commitError) {
+        this.toastStore.warning(`已替换但提交失败: ${commitError}`);
+      }
+      if (replaced.length > 0) {
+        this.toastStore.success(
+          commit
+            ? `已替换 ${replaced.length} 个文件 (提交 ${commit.slice(0, 7)})`
+            : `已替换 ${replaced.length} 个文件`
+        );
+        this.gitStore.checkStatus();
+      }
+
+      // Files that failed stay in the list so they can be previewed again
+      runInAction(() => {
+        const replacedSet = new Set(replaced);
+        this.previews = this.previews.filter(preview => !replacedSet.has(preview.path));
+        this.selectedPaths = new Set([...this.selectedPaths].filter(path => !replacedSet.has(path)));
+      });
+      return replaced.length > 0;
+    } catch (error) {
+      console.error('Replace failed:', error);
+      this.toastStore.error(error instanceof Error ? error.message : '替换失败');
+      return false;
+    } finally {
+      runInAction(() => {
+        this.isApplying = false;
+      });
+    }
+  }
+
+  reset() {
+    this.previews = [];
+    this.selectedPaths = new Set();
+    this.previewOptions = null;
+    this.error = null;
+  }
+}
@@ -1,15 +1,29 @@
 import { makeAutoObservable, runInAction } from 'mobx';
+import type { SearchHit, SearchSnippet } from '../types';
 
 export interface SearchResult {
   path: string;
   name: string;
   matches: string[];
+  score?: number;
+  snippets?: SearchSnippet[]; // Matching lines with highlight ranges (from the search index)
+}
+
+export function toSearchResult(hit: SearchHit): SearchResult {
+  return {
+    path: hit.path,
+    name: hit.name,
+    matches: hit.snippets.map(snippet => `[${snippet.line}] ${snippet.text}`),
+    score: hit.score,
+    snippets: hit.snippets
+  };
 }
 
 export class SearchStore {
   searchQuery: string = '';
   searchResults: SearchResult[] = [];
   isSearching: boolean = false;
+  searchError: string | null = null; // Query syntax errors, e.g. an unclosed parenthesis
 
   private searchTimeout: ReturnType<typeof setTimeout> | null = null;
   private readonly SEARCH_DEBOUNCE_MS = 300; // Reduced from 500ms for faster feedback
@@ -30,6 +44,7 @@ export class SearchStore {
     if (!query.trim()) {
       runInAction(() => {
         this.searchResults = [];
+        this.searchError = null;
         this.isSearching = false;
       });
       return;
@@ -54,6 +69,15 @@ export class SearchStore {
   setSearchResults(results: SearchResult[]) {
     runInAction(() => {
       this.searchResults = results;
+      this.searchError = null;
+      this.isSearching = false;
+    });
+  }
+
+  setSearchError(error: string) {
+    runInAction(() => {
+      this.searchResults = [];
+      this.searchError = error;
       this.isSearching = false;
     });
   }
@@ -62,6 +86,7 @@ export class SearchStore {
     runInAction(() => {
       this.searchQuery = '';
       this.searchResults = [];
+      this.searchError = null;
       this.isSearching = false;
     });
     if (this.searchTimeout) {
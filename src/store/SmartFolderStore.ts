@@ -0,0 +1,124 @@
+import { makeAutoObservable, runInAction } from 'mobx';
+import { toSearchResult, type SearchResult } from './SearchStore';
+
+const SMART_FOLDERS_DATA_NAME = 'smart-folders';
+const REFRESH_DEBOUNCE_MS = 300;
+
+// A saved search shown as a folder in the sidebar
+export interface SmartFolder {
+  id: string;
+  name: string;
+  query: string; // Structured search query (see utils/searchQuery)
+}
+
+/**
+ * SmartFolderStore - Saved searches stored with the project
+ * Contents are re-evaluated whenever the search index changes
+ */
+export class SmartFolderStore {
+  folders: SmartFolder[] = [];
+  results: Record<string, SearchResult[]> = {};
+  errors: Record<string, string> = {};
+
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    makeAutoObservable(this);
+    this.setupIndexListener();
+  }
+
+  private setupIndexListener() {
+    // Notes were added, edited, moved or removed: folder contents may have changed
+    window.electronAPI.onSearchIndexUpdated(() => {
+      this.scheduleRefresh();
+    });
+  }
+
+  // Load the smart folders of the current project
+  async load() {
+    try {
+      const res = await window.electronAPI.getProjectData<SmartFolder[]>(SMART_FOLDERS_DATA_NAME);
+      runInAction(() => {
+        this.folders = res.success && Array.isArray(res.data) ? res.data : [];
+        this.results = {};
+        this.errors = {};
+      });
+      await this.refresh();
+    } catch (error) {
+      console.error('Failed to load smart folders:', error);
+    }
+  }
+
+  async addFolder(name: string, query: string): Promise<SmartFolder> {
+    const folder: SmartFolder = { id: `smart-${Date.now()}`, name, query };
+    runInAction(() => {
+      this.folders.push(folder);
+    });
+    await this.save();
+    await this.refreshFolder(folder);
+    return folder;
+  }
+
+  async renameFolder(id: string, name: string) {
+    const folder = this.folders.find(f => f.id === id);
+    if (!folder || !name.trim()) return;
+    runInAction(() => {
+      folder.name = name.trim();
+    });
+    await this.save();
+  }
+
+  async removeFolder(id: string) {
+    runInAction(() => {
+      this.folders = this.folders.filter(f => f.id !== id);
+      delete this.results[id];
+      delete this.errors[id];
+    });
+    await this.save();
+  }
+
+  getResults(id: string): SearchResult[] {
+    return this.results[id] || [];
+  }
+
+  // Re-run every saved query
+  async refresh() {
+    await Promise.all(this.folders.map(folder => this.refreshFolder(folder)));
+  }
+
+  private async refreshFolder(folder: SmartFolder) {
+    try {
+      const res = await window.electronAPI.searchQuery(folder.query);
+      runInAction(() => {
+        if (res.success && res.data) {
+          this.results[folder.id] = res.data.map(toSearchResult);
+          delete this.errors[folder.id];
+        } else {
+          this.results[folder.id] = [];
+          this.errors[folder.id] = res.error || '搜索失败';
+        }
+      });
+    } catch (error) {
+      console.error('Failed to refresh smart folder:', error);
+    }
+  }
+
+  private scheduleRefresh() {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refresh();
+    }, REFRESH_DEBOUNCE_MS);
+  }
+
+  private async save() {
+    try {
+      const res = await window.electronAPI.saveProjectData(SMART_FOLDERS_DATA_NAME, this.folders);
+      if (!res.success) {
+        throw new Error(res.error);
+      }
+    } catch (error) {
+      console.error('Failed to save smart folders:', error);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { makeAutoObservable, runInAction } from 'mobx';
+
+const SNIPPETS_DATA_NAME = 'snippets';
+
+// A user-defined template, offered in the slash menu of the editor
+export interface Snippet {
+  id: string;
+  name: string;
+  description: string;
+  body: string;   // Template with ${1:placeholder} tab stops and {{variables}}
+}
+
+/**
+ * SnippetStore - Snippet library stored with the project
+ */
+export class SnippetStore {
+  snippets: Snippet[] = [];
+
+  constructor() {
+    makeAutoObservable(this);
+  }
+
+  // Load the snippets of the current project
+  async load() {
+    try {
+      const res = await window.electronAPI.getProjectData<Snippet[]>(SNIPPETS_DATA_NAME);
+      runInAction(() => {
+        this.snippets = res.success && Array.isArray(res.data) ? res.data : [];
+      });
+    } catch (error) {
+      console.error('Failed to load snippets:', error);
+    }
+  }
+
+  async addSnippet(snippet: Omit<Snippet, 'id'>): Promise<Snippet> {
+    const created: Snippet = { ...snippet, id: `snippet-${Date.now()}` };
+    this.snippets.push(created);
+    await this.save();
+    return created;
+  }
+
+  async updateSnippet(id: string, changes: Partial<Omit<Snippet, 'id'>>) {
+    const snippet = this.snippets.find(s => s.id === id);
+    if (!snippet) return;
+    Object.assign(snippet, changes);
+    await this.save();
+  }
+
+  async removeSnippet(id: string) {
+    this.snippets = this.snippets.filter(s => s.id !== id);
+    await this.save();
+  }
+
+  private async save() {
+    try {
+      const res = await window.electronAPI.saveProjectData(SNIPPETS_DATA_NAME, this.snippets);
+      if (!res.success) {
+        throw new Error(res.error);
+      }
+    } catch (error) {
+      console.error('Failed to save snippets:', error);
+    }
+  }
+}
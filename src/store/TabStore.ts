@@ -1,5 +1,5 @@
 import { makeAutoObservable, runInAction } from 'mobx';
-import type { FileNode } from '../types';
+import type { FileNode, FileVersion } from '../types';
 
 // Tab interface
 export interface OpenTab {
@@ -7,6 +7,7 @@ export interface OpenTab {
   content: string;
   originalContent: string;
   isModified: boolean;
+  version?: FileVersion; // Version on disk when last read / saved, used to detect external edits
 }
 
 export class TabStore {
@@ -64,6 +65,35 @@ export class TabStore {
     }
   }
 
+  // Remember which version on disk the tab content is based on
+  setTabVersion(tabId: string, version: FileVersion) {
+    const tab = this.findTabById(tabId);
+    if (tab) {
+      runInAction(() => {
+        tab.version = version;
+      });
+    }
+  }
+
+  // Point a tab at a different file node (the file was renamed or moved on disk)
+  // Tab ids are file ids, which are derived from the path, so the id changes as well
+  replaceTabFile(tabId: string, file: FileNode) {
+    const tab = this.findTabById(tabId);
+    if (!tab) return;
+
+    runInAction(() => {
+      const stored = this.tabContents.get(tabId);
+      this.tabContents.delete(tabId);
+      if (stored) {
+        this.tabContents.set(file.id, stored);
+      }
+      tab.file = file;
+      if (this.activeTabId === tabId) {
+        this.activeTabId = file.id;
+      }
+    });
+  }
+
   // Switch to a different tab
   switchTab(tabId: string) {
     const tab = this.findTabById(tabId);
@@ -1,5 +1,7 @@
 import { makeAutoObservable, runInAction } from 'mobx';
 import type { FileNode } from '../types';
+import { isWithinPath, replacePathPrefix } from '../utils/path';
+import { parseTags } from '../utils/frontmatter';
 
 export interface Tag {
   name: string;
@@ -89,49 +91,7 @@ export class TagStore {
   // Parse tags from markdown content
   // Supports both frontmatter tags and inline #tag syntax
   parseTagsFromContent(content: string): string[] {
-    const tags = new Set<string>();
-
-    // Parse frontmatter tags
-    const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-    if (frontmatterMatch) {
-      const frontmatter = frontmatterMatch[1];
-      // Match tags: - tag or tags: [tag1, tag2] or tags: tag1, tag2
-      const tagsMatch = frontmatter.match(/tags:\s*\[([^\]]+)\]|tags:\s*(.+)|-\s*(.+)/g);
-      if (tagsMatch) {
-        tagsMatch.forEach(match => {
-          const values = match
-            .replace(/tags:\s*\[|\]|\n|tags:\s*|-\s*/g, '')
-            .split(/[,\s]+/)
-            .filter(t => t.trim())
-            .map(t => t.replace(/^["']|["']$/g, '').trim());
-          values.forEach(v => v && tags.add(v));
-        });
-      }
-    }
-
-    // Parse inline tags (#tag but not in code blocks)
-    const lines = content.split('\n');
-    let inCodeBlock = false;
-    for (const line of lines) {
-      // Check for code block boundaries
-      if (line.trim().startsWith('```')) {
-        inCodeBlock = !inCodeBlock;
-        continue;
-      }
-      if (inCodeBlock) continue;
-
-      // Find tags at the end of line or standalone
-      const tagMatches = line.matchAll(/(?<=\s|^)#([a-zA-Z\u4e00-\u9fa5][a-zA-Z0-9\u4e00-\u9fa5_-]*)/g);
-      for (const match of tagMatches) {
-        const tag = match[1];
-        // Skip common markdown elements
-        if (!/^h[1-6]$/i.test(tag) && !match.index) {
-          tags.add(tag);
-        }
-      }
-    }
-
-    return Array.from(tags);
+    return parseTags(content);
   }
 
   // Update tags for a file
@@ -171,6 +131,46 @@ export class TagStore {
     this.saveToStorage();
   }
 
+  // Forget tags of a deleted file, or of every file inside a deleted folder
+  removePath(path: string) {
+    const affected = Array.from(this.fileTagsMap.keys()).filter(filePath => isWithinPath(filePath, path));
+    if (affected.length === 0) return;
+
+    runInAction(() => {
+      affected.forEach(filePath => {
+        const tags = this.fileTagsMap.get(filePath) || [];
+        tags.forEach(tag => {
+          const tagInfo = this.tagsMap.get(tag);
+          if (tagInfo) {
+            tagInfo.count--;
+            if (tagInfo.count <= 0) {
+              this.tagsMap.delete(tag);
+            }
+          }
+        });
+        this.fileTagsMap.delete(filePath);
+      });
+    });
+
+    this.saveToStorage();
+  }
+
+  // Move tags along with a renamed / moved file or folder
+  renamePath(oldPath: string, newPath: string) {
+    const affected = Array.from(this.fileTagsMap.keys()).filter(filePath => isWithinPath(filePath, oldPath));
+    if (affected.length === 0) return;
+
+    runInAction(() => {
+      affected.forEach(filePath => {
+        const tags = this.fileTagsMap.get(filePath) || [];
+        this.fileTagsMap.delete(filePath);
+        this.fileTagsMap.set(replacePathPrefix(filePath, oldPath, newPath), tags);
+      });
+    });
+
+    this.saveToStorage();
+  }
+
   // Get tags for a specific file
   getFileTags(filePath: string): string[] {
     return this.fileTagsMap.get(filePath) || [];
@@ -1,12 +1,14 @@
 import { makeAutoObservable, runInAction } from 'mobx';
-import type { ThemeMode, ThemeColor, AppConfig, ViewMode } from '../types';
+import type { ThemeMode, ThemeColor, AppConfig, ViewMode, EditorKeymap } from '../types';
 
 export class UIStore {
   themeMode: ThemeMode = 'system';
   themeColor: ThemeColor = 'default';
   markdownTheme: string = 'default';
+  editorKeymap: EditorKeymap = 'default';
   viewMode: ViewMode = 'split';
   isSidebarOpen: boolean = true;
+  isOutlineOpen: boolean = false;
   sidebarWidth: number = 256; // 默认16rem (256px)
   isLoading: boolean = false;
   isProjectReady: boolean = false;
@@ -38,6 +40,7 @@ export class UIStore {
           this.themeMode = res.data!.themeMode;
           this.themeColor = res.data!.themeColor;
           this.markdownTheme = res.data!.markdownTheme || 'default';
+          this.editorKeymap = res.data!.editorKeymap || 'default';
           this.isProjectReady = !!res.data!.repoPath;
           this.sidebarWidth = (res.data as any).sidebarWidth || 256;
           this.applyTheme();
@@ -68,6 +71,10 @@ export class UIStore {
     this.isSidebarOpen = !this.isSidebarOpen;
   }
 
+  toggleOutline() {
+    this.isOutlineOpen = !this.isOutlineOpen;
+  }
+
   setSidebarWidth(width: number) {
     // 限制宽度范围 180px - 600px
     this.sidebarWidth = Math.max(180, Math.min(600, width));
@@ -105,6 +112,11 @@ export class UIStore {
     await this.saveConfig({ markdownTheme: theme });
   }
 
+  async setEditorKeymap(keymap: EditorKeymap) {
+    this.editorKeymap = keymap;
+    await this.saveConfig({ editorKeymap: keymap });
+  }
+
   setViewMode(mode: ViewMode) {
     this.viewMode = mode;
   }
@@ -0,0 +1,97 @@
+import { makeAutoObservable, runInAction } from 'mobx';
+import type { BrokenReference, VaultHealthReport } from '../types';
+import type { ToastStore } from './ToastStore';
+import type { FileStore } from './FileStore';
+import { getBaseName } from '../utils/path';
+
+/**
+ * VaultHealthStore - Broken and ambiguous links, missing files, orphan notes and unused attachments
+ * The report is computed by the main process; every quick action re-runs the check
+ */
+export class VaultHealthStore {
+  report: VaultHealthReport | null = null;
+  isChecking: boolean = false;
+  // "path:offset" of the reference (or path of the file) an action is running for
+  busyKey: string | null = null;
+
+  private toastStore: ToastStore;
+  private fileStore: FileStore;
+
+  constructor(toastStore: ToastStore, fileStore: FileStore) {
+    makeAutoObservable(this);
+    this.toastStore = toastStore;
+    this.fileStore = fileStore;
+  }
+
+  get issueCount(): number {
+    if (!this.report) return 0;
+    const { brokenLinks, ambiguousLinks, missingFiles, orphanNotes, unusedAttachments } = this.report;
+    return brokenLinks.length + ambiguousLinks.length + missingFiles.length + orphanNotes.length + unusedAttachments.length;
+  }
+
+  async check() {
+    this.isChecking = true;
+    try {
+      const res = await window.electronAPI.checkVaultHealth();
+      if (!res.success || !res.data) {
+        throw new Error(res.error || '检查失败');
+      }
+      runInAction(() => {
+        this.report = res.data!;
+      });
+    } catch (error) {
+      console.error('Failed to check vault health:', error);
+      this.toastStore.error(error instanceof Error ? error.message : '检查失败');
+    } finally {
+      runInAction(() => {
+        this.isChecking = false;
+      });
+    }
+  }
+
+  // Create the note a broken link points to
+  async createNote(reference: BrokenReference) {
+    await this.runAction(`${reference.path}:${reference.offset}`, () =>
+      this.fileStore.createLinkedNote(reference.target, reference.path)
+    );
+  }
+
+  /**
+   * Point a broken or ambiguous link at an existing note
+   */
+  async fixLink(reference: BrokenReference, noteName: string) {
+    // Writing the file would conflict with the edits still in the editor
+    if (this.fileStore.unsavedFilePaths.has(reference.path)) {
+      this.toastStore.warning(`「${getBaseName(reference.path).replace(/\.md$/, '')}」有未保存的修改，请先保存`);
+      return;
+    }
+
+    await this.runAction(`${reference.path}:${reference.offset}`, async () => {
+      const res = await window.electronAPI.fixBrokenLink(reference.path, reference, noteName);
+      if (!res.success) {
+        throw new Error(res.error || '修正链接失败');
+      }
+      this.toastStore.success(`已将链接改为 [[${noteName}]]`);
+    });
+  }
+
+  // Orphan notes and unused attachments go to the trash, so they can be restored
+  async moveToTrash(path: string) {
+    await this.runAction(path, () => this.fileStore.moveToTrash(path));
+  }
+
+  private async runAction(key: string, action: () => Promise<void>) {
+    this.busyKey = key;
+    try {
+      await action();
+    } catch (error) {
+      console.error('Vault health action failed:', error);
+      this.toastStore.error(error instanceof Error ? error.message : '操作失败');
+    } finally {
+      runInAction(() => {
+        this.busyKey = null;
+      });
+    }
+    await this.check();
+  }
+}
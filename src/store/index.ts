@@ -10,9 +10,14 @@ import { BacklinkStore } from './BacklinkStore';
 import { KeyboardShortcutStore } from './KeyboardShortcutStore';
 import { TagStore } from './TagStore';
 import { TrashStore } from './TrashStore';
+import { ReplaceStore } from './ReplaceStore';
+import { GraphStore } from './GraphStore';
+import { MentionStore } from './MentionStore';
+import { VaultHealthStore } from './VaultHealthStore';
+import { SnippetStore } from './SnippetStore';
 
 // Re-export individual stores for convenience
-export { FileStore } from './FileStore';
+export { FileStore, type FileConflict } from './FileStore';
 export { UIStore } from './UIStore';
 export { GitStore } from './GitStore';
 export { ToastStore } from './ToastStore';
@@ -23,10 +28,16 @@ export { TabStore, type OpenTab } from './TabStore';
 export { SearchStore, type SearchResult } from './SearchStore';
 export { ExportStore, type ExportDialogState, type ExportFormat } from './ExportStore';
 export { FavoriteStore } from './FavoriteStore';
+export { SmartFolderStore, type SmartFolder } from './SmartFolderStore';
 export { BacklinkStore, type Wikilink, type Backlink } from './BacklinkStore';
 export { KeyboardShortcutStore, type ShortcutConfig, type ShortcutAction } from './KeyboardShortcutStore';
 export { TagStore, type Tag, type FileTags } from './TagStore';
 export { TrashStore, type TrashItem } from './TrashStore';
+export { ReplaceStore } from './ReplaceStore';
+export { GraphStore, type GraphMode, type GraphNode, type LinkGraph } from './GraphStore';
+export { MentionStore } from './MentionStore';
+export { VaultHealthStore } from './VaultHealthStore';
+export { SnippetStore, type Snippet } from './SnippetStore';
 
 export class RootStore {
   fileStore: FileStore;
@@ -40,6 +51,11 @@ export class RootStore {
   keyboardShortcutStore: KeyboardShortcutStore;
   tagStore: TagStore;
   trashStore: TrashStore;
+  replaceStore: ReplaceStore;
+  graphStore: GraphStore;
+  mentionStore: MentionStore;
+  vaultHealthStore: VaultHealthStore;
+  snippetStore: SnippetStore;
 
   constructor() {
     this.toastStore = new ToastStore();
@@ -54,10 +70,19 @@ export class RootStore {
     this.keyboardShortcutStore = new KeyboardShortcutStore();
     this.tagStore = new TagStore();
     this.trashStore = new TrashStore();
+    this.replaceStore = new ReplaceStore(this.toastStore, this.fileStore, this.gitStore);
+    this.graphStore = new GraphStore(this.fileStore, this.backlinkStore, this.tagStore);
+    this.mentionStore = new MentionStore(this.toastStore, this.fileStore);
+    this.vaultHealthStore = new VaultHealthStore(this.toastStore, this.fileStore);
+    this.snippetStore = new SnippetStore();
     // Inject tagStore into fileStore
     this.fileStore.tagStore = this.tagStore;
     // Inject trashStore into fileStore
     this.fileStore.trashStore = this.trashStore;
+    // Inject backlinkStore into fileStore (kept in sync with file system changes)
+    this.fileStore.backlinkStore = this.backlinkStore;
+    // Inject snippetStore into fileStore (loaded with each project)
+    this.fileStore.snippetStore = this.snippetStore;
   }
 }
 
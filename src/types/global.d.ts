@@ -1,4 +1,4 @@
-import { AppConfig, FileNode, GitStatus, IpcResponse, ScheduleItem, DrinkReminderConfig, PasswordEntry, PasswordSettings, PasswordData } from './index';
+import { AppConfig, FileNode, FileChangeEvent, FileVersion, VersionedFileContent, SearchHit, ReplaceOptions, ReplaceFilePreview, ReplaceApplyItem, ReplaceResult, LinkRewriteFile, LinkRewriteResult, UnlinkedMention, UnlinkedMentionFile, LinkIndexSnapshot, LinkIndexUpdate, BrokenReference, VaultHealthReport, GitStatus, IpcResponse, ScheduleItem, DrinkReminderConfig, PasswordEntry, PasswordSettings, PasswordData } from './index';
 
 declare global {
   interface Window {
@@ -10,7 +10,8 @@ declare global {
       // File
       getFileTree: () => Promise<IpcResponse<FileNode[]>>;
       readFile: (path: string) => Promise<IpcResponse<string>>;
-      saveFile: (path: string, content: string) => Promise<IpcResponse<void>>;
+      readFileWithVersion: (path: string) => Promise<IpcResponse<VersionedFileContent>>;
+      saveFile: (path: string, content: string, expectedVersion?: FileVersion) => Promise<IpcResponse<FileVersion>>;
       saveFileDirect: (path: string, content: string) => Promise<IpcResponse<string>>;
       readHelpDoc: (fileName: string) => Promise<IpcResponse<string>>;
       createFile: (parentPath: string, name: string) => Promise<IpcResponse<FileNode>>;
@@ -25,6 +26,22 @@ declare global {
       exportHtmlDirect: (content: string, outputPath: string) => Promise<IpcResponse<string>>;
       exportPdfDirect: (htmlContent: string, outputPath: string) => Promise<IpcResponse<string>>;
       searchContent: (query: string) => Promise<IpcResponse<Array<{ path: string; name: string; matches: string[] }>>>;
+      searchQuery: (query: string) => Promise<IpcResponse<SearchHit[]>>;
+      replacePreview: (options: ReplaceOptions) => Promise<IpcResponse<ReplaceFilePreview[]>>;
+      replaceApply: (options: ReplaceOptions, items: ReplaceApplyItem[]) => Promise<IpcResponse<ReplaceResult>>;
+      planLinkRewrite: (oldPath: string, newPath: string) => Promise<IpcResponse<LinkRewriteFile[]>>;
+      moveWithLinks: (oldPath: string, newPath: string) => Promise<IpcResponse<LinkRewriteResult>>;
+      findUnlinkedMentions: (names: string[], excludePath: string) => Promise<IpcResponse<UnlinkedMentionFile[]>>;
+      linkMention: (filePath: string, target: string, mention: Pick<UnlinkedMention, 'offset' | 'text'>) => Promise<IpcResponse<void>>;
+      getLinkIndex: () => Promise<IpcResponse<LinkIndexSnapshot>>;
+      checkVaultHealth: () => Promise<IpcResponse<VaultHealthReport>>;
+      fixBrokenLink: (filePath: string, reference: Pick<BrokenReference, 'offset' | 'text'>, target: string) => Promise<IpcResponse<void>>;
+      onFileChanged: (callback: (event: unknown, changes: FileChangeEvent[]) => void) => void;
+      removeFileChangedListener: (callback: (event: unknown, changes: FileChangeEvent[]) => void) => void;
+      onSearchIndexUpdated: (callback: () => void) => void;
+      removeSearchIndexUpdatedListener: (callback: () => void) => void;
+      onLinkIndexUpdated: (callback: (event: unknown, update: LinkIndexUpdate) => void) => void;
+      removeLinkIndexUpdatedListener: (callback: (event: unknown, update: LinkIndexUpdate) => void) => void;
 
       // Git
       getGitStatus: () => Promise<IpcResponse<GitStatus>>;
@@ -46,6 +63,8 @@ declare global {
       openDirectory: () => Promise<IpcResponse<{ canceled: boolean; filePaths: string[] }>>;
       openFile: (options?: { filters: { name: string; extensions: string[] }[] }) => Promise<IpcResponse<{ canceled: boolean; filePaths: string[] }>>;
       setProject: (repoPath: string) => Promise<IpcResponse<void>>;
+      getProjectData: <T>(name: string) => Promise<IpcResponse<T | null>>;
+      saveProjectData: (name: string, data: unknown) => Promise<IpcResponse<void>>;
 
       // Crypto
       encryptContent: (content: string) => Promise<IpcResponse<string>>;
@@ -15,6 +15,157 @@ export interface FileNode {
   isExpanded?: boolean;
 }
 
+// 文件系统变更事件 (由主进程监听器推送)
+export type FileChangeType = 'add' | 'remove' | 'rename' | 'change';
+
+export interface FileChangeEvent {
+  type: FileChangeType;
+  path: string;      // 绝对路径 (rename 时为新路径)
+  oldPath?: string;  // 仅 rename
+  parentPath: string;
+  node?: FileNode;   // add / rename 时携带新节点 (目录包含完整子树)
+}
+
+// 文件版本 (读取时记录, 保存时用于检测外部修改)
+export interface FileVersion {
+  mtimeMs: number;
+  hash: string;      // 内容的 md5
+}
+
+export interface VersionedFileContent {
+  content: string;
+  version: FileVersion;
+}
+
+// 保存时磁盘内容已被外部修改
+export const FILE_CONFLICT_ERROR_CODE = 'FILE_CONFLICT';
+
+// 全文搜索 (主进程倒排索引)
+export interface SearchHighlight {
+  start: number;     // 在 snippet.text 中的偏移
+  end: number;
+}
+
+export interface SearchSnippet {
+  line: number;      // 行号 (从 1 开始)
+  text: string;      // 匹配行 (过长时截取命中附近的片段)
+  highlights: SearchHighlight[];
+}
+
+export interface SearchHit {
+  path: string;
+  name: string;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+// 全局查找替换
+export interface ReplaceOptions {
+  find: string;
+  replace: string;         // 正则模式下支持 $1 等分组引用
+  isRegex: boolean;
+  caseSensitive: boolean;
+  folder?: string;         // 仅在该目录下替换
+  tag?: string;            // 仅替换带有该标签 (含子标签) 的笔记
+}
+
+export interface ReplaceChange {
+  line: number;            // 原文中的起始行号 (从 1 开始)
+  before: string[];
+  after: string[];
+}
+
+export interface ReplaceFilePreview {
+  path: string;
+  name: string;
+  matchCount: number;
+  version: FileVersion;    // 预览时的文件版本, 应用时用于检测期间的修改
+  changes: ReplaceChange[];
+}
+
+export interface ReplaceApplyItem {
+  path: string;
+  version: FileVersion;
+}
+
+export interface ReplaceResult {
+  replaced: string[];
+  failed: Array<{ path: string; error: string }>;
+  commit: string | null;   // git 提交 hash, 笔记目录不是 git 仓库时为 null
+  commitError?: string;
+}
+
+// 重命名 / 移动时需要更新链接的笔记
+export interface LinkRewriteFile {
+  path: string;            // 移动前的路径
+  name: string;
+  wikilinks: number;       // 需要更新的 [[双链]] 数量
+  paths: number;           // 需要更新的相对路径 (图片 / 附件 / 链接) 数量
+}
+
+export interface LinkRewriteResult {
+  newPath: string;
+  rewritten: string[];     // 已更新链接的笔记 (移动后的路径)
+  commit: string | null;   // git 提交 hash, 笔记目录不是 git 仓库时为 null
+  commitError?: string;
+}
+
+// 双链索引 (主进程维护并持久化, 以笔记路径为键)
+export interface WikilinkRef {
+  target: string;          // 链接的笔记名, 可带文件夹 (如 folder/Note); [[#标题]] 时为空
+  heading?: string;        // [[Note#Heading]]
+  blockId?: string;        // [[Note#^block-id]]
+  alias?: string;          // [[Note|显示文字]]
+  position: { start: number; end: number };   // 在原文中的位置
+}
+
+// 链接索引中的一篇笔记
+export interface LinkIndexNote {
+  links: WikilinkRef[];    // 出链 (没有链接时为空数组)
+  aliases: string[];       // frontmatter 中的 aliases, 解析 [[别名]] 时与文件名同等对待
+  headings: string[];      // 标题文字, 用于补全 [[笔记#标题]]
+}
+
+export interface LinkIndexSnapshot {
+  notes: Record<string, LinkIndexNote>;       // 笔记路径 -> 链接, 别名与标题
+}
+
+export interface LinkIndexUpdate {
+  changed: Record<string, LinkIndexNote>;     // 新增或修改的笔记
+  removed: string[];                          // 删除 (或移走) 的笔记路径
+}
+
+// 未链接的提及: 其他笔记中以纯文本出现的笔记名 / 别名
+export interface UnlinkedMention {
+  offset: number;          // 在文件内容中的偏移
+  text: string;            // 原文中的写法 (大小写可能与笔记名不同)
+  snippet: SearchSnippet;
+}
+
+export interface UnlinkedMentionFile {
+  path: string;
+  name: string;
+  mentions: UnlinkedMention[];
+}
+
+// 笔记库健康检查: 指向不存在目标的链接 / 引用
+export interface BrokenReference {
+  path: string;            // 所在笔记
+  offset: number;          // 在文件内容中的偏移
+  text: string;            // 原文, 如 [[笔记#标题|别名]] 或 ![](files/a.png)
+  target: string;          // 找不到的目标
+  line: number;            // 1-based 行号
+  candidates?: string[];   // 有歧义时: 目标可能指向的所有笔记
+}
+
+export interface VaultHealthReport {
+  brokenLinks: BrokenReference[];        // 无法解析的 [[双链]]
+  ambiguousLinks: BrokenReference[];     // 同名 (或同别名) 笔记不止一个的 [[双链]]
+  missingFiles: BrokenReference[];       // 指向不存在文件的图片 / 附件引用
+  orphanNotes: string[];                 // 没有被任何笔记链接的笔记
+  unusedAttachments: string[];           // files/ 目录下没有被引用的附件
+}
+
 // 笔记元数据 (FrontMatter)
 export interface NoteMeta {
   title: string;
@@ -28,11 +179,13 @@ export interface NoteMeta {
 export type ThemeMode = 'light' | 'dark' | 'system';
 export type ThemeColor = string;
 export type ViewMode = 'editor' | 'preview' | 'split';
+export type EditorKeymap = 'default' | 'vim' | 'emacs';   // 编辑器键位模式
 
 export interface AppConfig {
   themeMode: ThemeMode;
   themeColor: ThemeColor;
   markdownTheme?: string; // New field for Markdown theme
+  editorKeymap?: EditorKeymap; // 编辑器键位: 默认 / Vim / Emacs
   repoPath: string;  // 本地仓库路径 (通常是 userHome/.zhixia-note)
   recentProjects: string[]; // 最近打开的项目路径列表
   remoteUrl?: string;
@@ -71,6 +224,7 @@ export interface IpcResponse<T = unknown> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: string;     // 机器可读的错误码 (例如 FILE_CONFLICT_ERROR_CODE)
 }
 
 // 日程相关类型
@@ -0,0 +1,134 @@
+// "> [!NOTE]" callouts (GitHub / Obsidian syntax) for the marked renderer, in Preview and every export
+
+import { marked, type Tokens, type TokenizerAndRendererExtension } from 'marked';
+
+type CalloutKind = 'note' | 'tip' | 'important' | 'warning' | 'caution';
+
+// First line: "> [!TYPE]", "+" / "-" makes it collapsible (expanded / collapsed), then an optional title
+const CALLOUT_START_REGEX = /^ {0,3}> ?\[!([\w-]+)\]([+-]?)[ \t]*([^\n]*)(?:\n|$)/;
+const CALLOUT_LINE_REGEX = /^ {0,3}>[^\n]*(?:\n|$)/;
+const QUOTE_PREFIX_REGEX = /^ {0,3}> ?/gm;
+
+// GitHub's five types, with the Obsidian ones mapped onto them
+const CALLOUT_TYPES: Record<string, { kind: CalloutKind; title: string }> = {
+  note: { kind: 'note', title: '备注' },
+  info: { kind: 'note', title: '信息' },
+  todo: { kind: 'note', title: '待办' },
+  abstract: { kind: 'note', title: '摘要' },
+  summary: { kind: 'note', title: '摘要' },
+  tldr: { kind: 'note', title: '摘要' },
+  example: { kind: 'note', title: '示例' },
+  quote: { kind: 'note', title: '引用' },
+  cite: { kind: 'note', title: '引用' },
+  tip: { kind: 'tip', title: '技巧' },
+  hint: { kind: 'tip', title: '提示' },
+  success: { kind: 'tip', title: '完成' },
+  check: { kind: 'tip', title: '完成' },
+  done: { kind: 'tip', title: '完成' },
+  question: { kind: 'tip', title: '问题' },
+  help: { kind: 'tip', title: '问题' },
+  faq: { kind: 'tip', title: '问题' },
+  important: { kind: 'important', title: '重要' },
+  warning: { kind: 'warning', title: '警告' },
+  attention: { kind: 'warning', title: '注意' },
+  caution: { kind: 'caution', title: '危险' },
+  danger: { kind: 'caution', title: '危险' },
+  error: { kind: 'caution', title: '错误' },
+  failure: { kind: 'caution', title: '失败' },
+  fail: { kind: 'caution', title: '失败' },
+  missing: { kind: 'caution', title: '失败' },
+  bug: { kind: 'caution', title: '缺陷' }
+};
+
+// Same icons as the callout slash commands (lucide), inline so exports carry them
+const ICON_PATHS: Record<CalloutKind, string> = {
+  note: '<circle cx="12" cy="12" r="10"/><path d="M12 16v-4"/><path d="M12 8h.01"/>',
+  tip: '<path d="M15 14c.2-1 .7-1.7 1.5-2.5 1-.9 1.5-2.2 1.5-3.5A6 6 0 0 0 6 8c0 1 .2 2.2 1.5 3.5.7.7 1.3 1.5 1.5 2.5"/><path d="M9 18h6"/><path d="M10 22h4"/>',
+  important: '<path d="M22 17a2 2 0 0 1-2 2H6.828a2 2 0 0 0-1.414.586l-2.202 2.202A.71.71 0 0 1 2 21.286V5a2 2 0 0 1 2-2h16a2 2 0 0 1 2 2z"/><path d="M12 15h.01"/><path d="M12 7v4"/>',
+  warning: '<path d="m21.73 18-8-14a2 2 0 0 0-3.48 0l-8 14A2 2 0 0 0 4 21h16a2 2 0 0 0 1.73-3"/><path d="M12 9v4"/><path d="M12 17h.01"/>',
+  caution: '<path d="M12 16h.01"/><path d="M12 8v4"/><path d="M15.312 2a2 2 0 0 1 1.414.586l4.688 4.688A2 2 0 0 1 22 8.688v6.624a2 2 0 0 1-.586 1.414l-4.688 4.688a2 2 0 0 1-1.414.586H8.688a2 2 0 0 1-1.414-.586l-4.688-4.688A2 2 0 0 1 2 15.312V8.688a2 2 0 0 1 .586-1.414l4.688-4.688A2 2 0 0 1 8.688 2z"/>'
+};
+
+/**
+ * Look of the callouts without a markdown theme (and in exports);
+ * the themes restyle them in markdown-themes.css
+ */
+export const CALLOUT_STYLES = `
+.callout { --callout-color: #0969da; margin: 1em 0; padding: 0.75em 1em; border-left: 4px solid var(--callout-color); border-radius: 6px; background: color-mix(in srgb, var(--callout-color) 8%, transparent); }
+.callout-tip { --callout-color: #1a7f37; }
+.callout-important { --callout-color: #8250df; }
+.callout-warning { --callout-color: #9a6700; }
+.callout-caution { --callout-color: #cf222e; }
+.dark .callout-note { --callout-color: #4493f8; }
+.dark .callout-tip { --callout-color: #3fb950; }
+.dark .callout-important { --callout-color: #ab7df8; }
+.dark .callout-warning { --callout-color: #d29922; }
+.dark .callout-caution { --callout-color: #f85149; }
+.callout-title { display: flex; align-items: center; gap: 0.5em; font-weight: 600; color: var(--callout-color); }
+.callout-icon { flex-shrink: 0; width: 1.1em; height: 1.1em; }
+summary.callout-title { cursor: pointer; list-style: none; }
+summary.callout-title::-webkit-details-marker { display: none; }
+summary.callout-title::after { content: ''; margin-left: auto; width: 0.45em; height: 0.45em; border-right: 2px solid; border-bottom: 2px solid; transform: rotate(-45deg); transition: transform 0.15s; }
+details.callout[open] > summary.callout-title::after { transform: rotate(45deg); }
+.callout-content { margin-top: 0.5em; }
+.callout-content > :first-child { margin-top: 0; }
+.callout-content > :last-child { margin-bottom: 0; }
+`;
+
+interface CalloutToken extends Tokens.Generic {
+  calloutType: string;
+  fold: '' | '+' | '-';
+  titleTokens: Tokens.Generic[];
+  tokens: Tokens.Generic[];
+}
+
+const callout: TokenizerAndRendererExtension = {
+  name: 'callout',
+  level: 'block',
+  start: src => src.match(/^ {0,3}> ?\[!/m)?.index,
+  tokenizer(src) {
+    const start = src.match(CALLOUT_START_REGEX);
+    if (!start) return;
+
+    // The callout goes on while lines are quoted
+    let raw = start[0];
+    let line: RegExpMatchArray | null;
+    while (raw.endsWith('\n') && (line = src.slice(raw.length).match(CALLOUT_LINE_REGEX))) {
+      raw += line[0];
+    }
+    const body = raw.slice(start[0].length).replace(QUOTE_PREFIX_REGEX, '');
+
+    return {
+      type: 'callout',
+      raw,
+      calloutType: start[1].toLowerCase(),
+      fold: start[2],
+      titleTokens: this.lexer.inline(start[3].trim()),
+      tokens: this.lexer.blockTokens(body, [])
+    };
+  },
+  renderer(token) {
+    const { calloutType, fold, titleTokens, tokens } = token as CalloutToken;
+    const { kind, title } = CALLOUT_TYPES[calloutType] ?? { kind: 'note', title: calloutType[0].toUpperCase() + calloutType.slice(1) };
+    const icon = `<svg class="callout-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">${ICON_PATHS[kind]}</svg>`;
+    const titleHtml = `${icon}<span class="callout-title-text">${titleTokens.length ? this.parser.parseInline(titleTokens) : title}</span>`;
+    const content = tokens.length ? `<div class="callout-content">\n${this.parser.parse(tokens)}</div>` : '';
+    const attributes = `class="callout callout-${kind}" data-callout="${calloutType}"`;
+
+    return fold
+      ? `<details ${attributes}${fold === '+' ? ' open' : ''}><summary class="callout-title">${titleHtml}</summary>${content}</details>\n`
+      : `<div ${attributes}><div class="callout-title">${titleHtml}</div>${content}</div>\n`;
+  },
+  childTokens: ['titleTokens', 'tokens']
+};
+
+let isRegistered = false;
+
+/**
+ * Teach the shared marked instance callouts; marked.use adds up, so this registers only once
+ */
+export function registerMarkedCallouts() {
+  if (isRegistered) return;
+  isRegistered = true;
+  marked.use({ extensions: [callout] });
+}
@@ -0,0 +1,162 @@
+// Line based diff / two-way merge helpers (used by the file conflict dialog)
+
+export type DiffOp =
+  | { type: 'equal'; line: string }
+  | { type: 'delete'; line: string }  // only in "a"
+  | { type: 'insert'; line: string }; // only in "b"
+
+export interface SameHunk {
+  type: 'same';
+  lines: string[];
+}
+
+export interface ConflictHunk {
+  type: 'conflict';
+  mine: string[];
+  theirs: string[];
+}
+
+export type MergeHunk = SameHunk | ConflictHunk;
+
+export type MergeChoice = 'mine' | 'theirs' | 'both';
+
+/**
+ * Myers diff over two line arrays.
+ * Common prefix / suffix are stripped first, which keeps the usual
+ * "a few lines changed" case cheap even for long notes.
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const prefix: DiffOp[] = a.slice(0, start).map(line => ({ type: 'equal', line }));
+  const suffix: DiffOp[] = a.slice(endA).map(line => ({ type: 'equal', line }));
+  const middle = myers(a.slice(start, endA), b.slice(start, endB));
+
+  return [...prefix, ...middle, ...suffix];
+}
+
+function myers(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0) return b.map(line => ({ type: 'insert', line }));
+  if (m === 0) return a.map(line => ({ type: 'delete', line }));
+
+  const max = n + m;
+  const offset = max;
+  const v = new Int32Array(2 * max + 2);
+  // trace[d] holds the furthest x for diagonals -d..d before step d
+  const trace: Int32Array[] = [];
+
+  let finalD = -1;
+  for (let d = 0; d <= max && finalD === -1; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        finalD = d;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = finalD; d > 0; d--) {
+    const prev = trace[d];
+    const at = (k: number) => prev[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (x === prevX) {
+      ops.push({ type: 'insert', line: b[y - 1] });
+    } else {
+      ops.push({ type: 'delete', line: a[x - 1] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ type: 'equal', line: a[x - 1] });
+    x--;
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Split two versions of a text into shared runs and conflicting hunks
+ */
+export function buildMergeHunks(mine: string, theirs: string): MergeHunk[] {
+  const ops = diffLines(mine.split('\n'), theirs.split('\n'));
+  const hunks: MergeHunk[] = [];
+
+  for (const op of ops) {
+    const last = hunks[hunks.length - 1];
+    if (op.type === 'equal') {
+      if (last && last.type === 'same') {
+        last.lines.push(op.line);
+      } else {
+        hunks.push({ type: 'same', lines: [op.line] });
+      }
+    } else {
+      let hunk: ConflictHunk;
+      if (last && last.type === 'conflict') {
+        hunk = last;
+      } else {
+        hunk = { type: 'conflict', mine: [], theirs: [] };
+        hunks.push(hunk);
+      }
+      if (op.type === 'delete') {
+        hunk.mine.push(op.line);
+      } else {
+        hunk.theirs.push(op.line);
+      }
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Rebuild the text from hunks, taking each conflicting hunk from the chosen side.
+ * choices is indexed by hunk position; missing entries default to "mine".
+ */
+export function applyMergeChoices(hunks: MergeHunk[], choices: Record<number, MergeChoice>): string {
+  const lines: string[] = [];
+  hunks.forEach((hunk, index) => {
+    if (hunk.type === 'same') {
+      lines.push(...hunk.lines);
+      return;
+    }
+    const choice = choices[index] || 'mine';
+    if (choice === 'mine' || choice === 'both') lines.push(...hunk.mine);
+    if (choice === 'theirs' || choice === 'both') lines.push(...hunk.theirs);
+  });
+  return lines.join('\n');
+}
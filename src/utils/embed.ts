@@ -0,0 +1,151 @@
+// Transclusion: ![[Note]], ![[Note#Heading]], ![[Note#^block]] and ![[image.png]] embeds
+// Embeds are expanded at the markdown level, so Preview and every export render them the same way
+
+import { findSection, parseWikilinkTarget } from './wikilink';
+
+export const MAX_EMBED_DEPTH = 4;
+
+const EMBED_REGEX = /(\\?)!\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|svg|bmp|ico)$/i;
+// ![alt](relative/path) inside an embedded note, re-based onto that note's folder
+const RELATIVE_IMAGE_REGEX = /(!\[[^\]]*\]\()(?![a-z][a-z0-9+.-]*:|\/|#)([^)\s]+)([^)]*\))/gi;
+
+export interface EmbedSource {
+  // Path of the note / attachment ![[target]] points to, as seen from the note at fromPath
+  resolve: (target: string, fromPath: string) => string | null;
+  read: (path: string) => Promise<string | null>;
+}
+
+export interface ExpandedContent {
+  content: string;
+  paths: string[];    // Every note the result was built from, so it can be refreshed when one changes
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const parentDir = (filePath: string) => filePath.slice(0, Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\')));
+
+const embedError = (label: string, reason: string) =>
+  `<div class="markdown-embed markdown-embed-error" style="margin: 1em 0; padding: 0.5em 1em; border-left: 3px solid #cf222e; color: #cf222e; font-size: 0.9em;">无法嵌入「${escapeHtml(label)}」：${reason}</div>`;
+
+// Point the relative ![](...) images of a note at its folder, for rendering it outside of that folder
+export function rebaseImages(content: string, baseDir: string): string {
+  return content.replace(RELATIVE_IMAGE_REGEX, (_match, open: string, href: string, close: string) =>
+    `${open}<media://local${baseDir}/${href.replace(/^<|>$/g, '').replace(/^\.\//, '')}>${close}`
+  );
+}
+
+/**
+ * Replace the embeds of a note with the content they point to
+ * Embedded notes are expanded recursively up to MAX_EMBED_DEPTH; an embed of a note
+ * (or section) that is already being expanded is reported instead of recursing
+ */
+export async function expandEmbeds(
+  content: string,
+  filePath: string,
+  source: EmbedSource,
+  stack: string[] = [`${filePath}#`]
+): Promise<ExpandedContent> {
+  if (!content.includes('![[')) return { content, paths: [] };
+
+  const paths = new Set<string>();
+  const lines = content.split('\n');
+  let inCode = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (FENCE_REGEX.test(line)) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode || !line.includes('![[')) continue;
+
+    // String.replace cannot await, so resolve the embeds of the line first
+    const matches = [...line.matchAll(EMBED_REGEX)];
+    const replacements: string[] = [];
+    for (const match of matches) {
+      const [fullMatch, escape, rawTarget, alias] = match;
+      if (escape) {
+        replacements.push(fullMatch.slice(1));
+        continue;
+      }
+      // Notes are embedded as blocks; inside running text they fall back to a plain wikilink
+      const standalone = line.trim() === fullMatch;
+      replacements.push(await expandEmbed(rawTarget, alias, standalone, filePath, source, stack, paths));
+    }
+
+    let index = 0;
+    lines[i] = line.replace(EMBED_REGEX, () => replacements[index++]);
+  }
+
+  return { content: lines.join('\n'), paths: [...paths] };
+}
+
+async function expandEmbed(
+  rawTarget: string,
+  alias: string | undefined,
+  standalone: boolean,
+  filePath: string,
+  source: EmbedSource,
+  stack: string[],
+  paths: Set<string>
+): Promise<string> {
+  const target = parseWikilinkTarget(rawTarget);
+  const label = rawTarget.trim();
+
+  // Attachments: images render inline ("|300" sets the width), other files become links
+  if (target.note && !target.note.toLowerCase().endsWith('.md') && /\.[a-z0-9]+$/i.test(target.note)) {
+    const attachmentPath = source.resolve(target.note, filePath);
+    if (!attachmentPath) return embedError(label, '未找到文件');
+    const url = `media://local${attachmentPath}`;
+    if (IMAGE_EXTENSIONS.test(target.note)) {
+      const size = alias && /^\d+$/.test(alias.trim()) ? `?w=${alias.trim()}px` : '';
+      return `![${alias && !size ? alias : target.note}](<${url}${size}>)`;
+    }
+    return `[${alias || target.note}](<${url}>)`;
+  }
+
+  if (!standalone) return `[[${rawTarget}${alias ? `|${alias}` : ''}]]`;
+
+  const notePath = target.note ? source.resolve(target.note, filePath) : filePath;
+  if (!notePath) return embedError(label, '未找到笔记');
+
+  // "path#" is the whole note, "path#Heading" / "path#^id" one of its sections
+  const key = `${notePath}#${target.heading || (target.blockId ? `^${target.blockId}` : '')}`;
+  if (stack.includes(key)) return embedError(label, '循环嵌入');
+  if (stack.length > MAX_EMBED_DEPTH) return embedError(label, `嵌套超过 ${MAX_EMBED_DEPTH} 层`);
+
+  const noteContent = await source.read(notePath);
+  if (noteContent === null) return embedError(label, '无法读取笔记');
+  paths.add(notePath);
+
+  let body = noteContent;
+  if (target.heading || target.blockId) {
+    const section = findSection(noteContent, target);
+    if (!section) return embedError(label, target.heading ? '未找到该标题' : '未找到该块');
+    body = section.text;
+  }
+
+  // Images of the embedded note are relative to its own folder
+  const baseDir = parentDir(notePath);
+  if (baseDir !== parentDir(filePath)) body = rebaseImages(body, baseDir);
+
+  const nested = await expandEmbeds(body, notePath, source, [...stack, key]);
+  nested.paths.forEach(path => paths.add(path));
+
+  const noteName = target.note || (notePath.split(/[\\/]/).pop() || '').replace(/\.md$/, '');
+  const subpath = target.heading || (target.blockId ? `^${target.blockId}` : '');
+  const title = subpath ? `${noteName} › ${subpath}` : noteName;
+
+  // Blank lines around the body let markdown inside the html block be parsed
+  return [
+    `<div class="markdown-embed" data-embed="${escapeHtml(subpath ? `${noteName}#${subpath}` : noteName)}" style="margin: 1em 0; padding: 0.25em 0 0.25em 1em; border-left: 3px solid var(--md-primary-color, #0969da);">`,
+    `<div class="markdown-embed-title" style="font-size: 0.85em; opacity: 0.7; cursor: pointer;">${escapeHtml(title)}</div>`,
+    '',
+    nested.content,
+    '',
+    '</div>'
+  ].join('\n');
+}
@@ -0,0 +1,151 @@
+// [^1] footnotes for the marked renderer: numbered in order of first reference, listed
+// at the end of the note with links back to every reference, in Preview and every export
+
+import { marked, type Token, type Tokens, type TokenizerAndRendererExtension } from 'marked';
+
+// "[^label]: text", continued by indented lines (blank lines in between are allowed)
+const DEFINITION_REGEX = /^ {0,3}\[\^([^\]\s]+)\]:[ \t]*([^\n]*(?:\n+(?: {4}|\t)[^\n]*)*)(?:\n+|$)/;
+const CONTINUATION_INDENT_REGEX = /^(?: {4}|\t)/gm;
+const REFERENCE_REGEX = /^\[\^([^\]\s]+)\]/;
+
+/**
+ * Look of the references and the footnote list, in Preview and in exports
+ */
+export const FOOTNOTE_STYLES = `
+.footnote-ref a { text-decoration: none; }
+.footnote-ref a::before { content: '['; }
+.footnote-ref a::after { content: ']'; }
+.footnotes { margin-top: 2em; font-size: 0.875em; opacity: 0.9; }
+.footnotes hr { margin-bottom: 1em; }
+.footnotes ol { padding-left: 1.5em; }
+.footnotes li:target { background: color-mix(in srgb, currentColor 8%, transparent); border-radius: 4px; }
+.footnote-backref { margin-left: 0.25em; text-decoration: none; font-family: sans-serif; }
+`;
+
+interface FootnoteDefinitionToken extends Tokens.Generic {
+  label: string;
+  tokens: Token[];
+}
+
+interface FootnoteRefToken extends Tokens.Generic {
+  label: string;
+  // Set once the whole note is known; undefined for a reference without definition
+  number?: number;
+  refId?: string;
+}
+
+interface Footnote {
+  number: number;
+  tokens: Token[];
+  refIds: string[];
+}
+
+interface FootnotesToken extends Tokens.Generic {
+  footnotes: Footnote[];
+}
+
+const footnoteDefinition: TokenizerAndRendererExtension = {
+  name: 'footnoteDefinition',
+  level: 'block',
+  start: src => src.match(/^ {0,3}\[\^[^\]\s]+\]:/m)?.index,
+  tokenizer(src) {
+    const match = src.match(DEFINITION_REGEX);
+    if (!match) return;
+    return {
+      type: 'footnoteDefinition',
+      raw: match[0],
+      label: match[1],
+      tokens: this.lexer.blockTokens(match[2].replace(CONTINUATION_INDENT_REGEX, ''), [])
+    };
+  },
+  // Shown in the footnote list instead
+  renderer: () => ''
+};
+
+const footnoteRef: TokenizerAndRendererExtension = {
+  name: 'footnoteRef',
+  level: 'inline',
+  start: src => {
+    const index = src.indexOf('[^');
+    return index === -1 ? undefined : index;
+  },
+  tokenizer: src => {
+    const match = src.match(REFERENCE_REGEX);
+    if (match) return { type: 'footnoteRef', raw: match[0], label: match[1] };
+  },
+  renderer(token) {
+    const { raw, number, refId } = token as FootnoteRefToken;
+    if (!number) return raw;
+    return `<sup class="footnote-ref"><a href="#fn-${number}" id="${refId}">${number}</a></sup>`;
+  }
+};
+
+const footnotes: TokenizerAndRendererExtension = {
+  name: 'footnotes',
+  level: 'block',
+  renderer(token) {
+    const items = (token as FootnotesToken).footnotes.map(({ number, tokens, refIds }) => {
+      const backrefs = refIds
+        .map((refId, index) => `<a href="#${refId}" class="footnote-backref" title="返回引用处">↩${index > 0 ? `<sup>${index + 1}</sup>` : ''}</a>`)
+        .join('');
+      const content = this.parser.parse(tokens);
+      // Back-references go at the end of the last paragraph, if it ends the footnote
+      const html = content.endsWith('</p>\n') ? `${content.slice(0, -5)} ${backrefs}</p>\n` : `${content}${backrefs}`;
+      return `<li id="fn-${number}">\n${html}</li>\n`;
+    });
+    return `<section class="footnotes">\n<hr />\n<ol>\n${items.join('')}</ol>\n</section>\n`;
+  }
+};
+
+/**
+ * Number the referenced footnotes, link their references and add the footnote list at the end
+ */
+function processFootnotes(tokens: Token[]): Token[] {
+  const definitions = new Map<string, FootnoteDefinitionToken>();
+  const references: FootnoteRefToken[] = [];
+  marked.walkTokens(tokens, token => {
+    if (token.type === 'footnoteDefinition') {
+      const definition = token as FootnoteDefinitionToken;
+      // The first definition of a label counts
+      if (!definitions.has(definition.label)) definitions.set(definition.label, definition);
+    } else if (token.type === 'footnoteRef') {
+      references.push(token as FootnoteRefToken);
+    }
+  });
+
+  const byLabel = new Map<string, Footnote>();
+  for (const reference of references) {
+    const definition = definitions.get(reference.label);
+    if (!definition) continue;
+    let footnote = byLabel.get(reference.label);
+    if (!footnote) {
+      footnote = { number: byLabel.size + 1, tokens: definition.tokens, refIds: [] };
+      byLabel.set(reference.label, footnote);
+    }
+    reference.number = footnote.number;
+    reference.refId = `fnref-${footnote.number}${footnote.refIds.length ? `-${footnote.refIds.length + 1}` : ''}`;
+    footnote.refIds.push(reference.refId);
+  }
+
+  if (byLabel.size === 0) return tokens;
+  return [...tokens, { type: 'footnotes', raw: '', footnotes: [...byLabel.values()] } as FootnotesToken];
+}
+
+let isRegistered = false;
+
+/**
+ * Teach the shared marked instance footnotes; marked.use adds up, so this registers only once
+ */
+export function registerMarkedFootnotes() {
+  if (isRegistered) return;
+  isRegistered = true;
+  marked.use({
+    extensions: [footnoteDefinition, footnoteRef, footnotes],
+    hooks: {
+      processAllTokens(tokens) {
+        // Whole notes only, not single lines rendered with parseInline
+        return this.block ? processFootnotes(tokens) : tokens;
+      }
+    }
+  });
+}
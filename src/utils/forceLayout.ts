@@ -0,0 +1,193 @@
+// Force-directed graph layout (velocity Verlet in the style of d3-force)
+// Repulsion uses a Barnes-Hut quadtree, so a tick stays O(n log n) for notebooks with thousands of notes
+
+export interface LayoutNode {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  fixed?: boolean;    // Being dragged: the layout leaves its position alone
+}
+
+interface Quad {
+  x0: number;
+  y0: number;
+  size: number;
+  mass: number;
+  cx: number;         // Center of mass
+  cy: number;
+  body: number;       // Node index in a leaf, -1 otherwise
+  children: Quad[] | null;
+}
+
+const REPULSION = 40;
+const LINK_DISTANCE = 40;
+const GRAVITY = 0.02;
+const THETA2 = 0.81;          // Barnes-Hut opening criterion, squared
+const VELOCITY_DECAY = 0.6;
+const ALPHA_DECAY = 0.0228;   // ~300 ticks from 1 to ALPHA_MIN
+const ALPHA_MIN = 0.001;
+const MAX_QUAD_DEPTH = 24;
+
+export class ForceLayout {
+  alpha = 1;
+  alphaTarget = 0;
+  readonly nodes: LayoutNode[];
+
+  private edges: Array<[number, number]>;
+  private linkCounts: number[];
+
+  constructor(nodes: LayoutNode[], edges: Array<[number, number]>) {
+    this.nodes = nodes;
+    this.edges = edges;
+    this.linkCounts = nodes.map(() => 0);
+    for (const [source, target] of edges) {
+      this.linkCounts[source]++;
+      this.linkCounts[target]++;
+    }
+  }
+
+  get isSettled(): boolean {
+    return this.alpha < ALPHA_MIN && this.alphaTarget === 0;
+  }
+
+  // Wake the simulation up after nodes changed or one is being dragged
+  reheat(alpha = 0.3) {
+    this.alpha = Math.max(this.alpha, alpha);
+  }
+
+  tick() {
+    this.alpha += (this.alphaTarget - this.alpha) * ALPHA_DECAY;
+    this.applyLinks();
+    this.applyRepulsion();
+
+    for (const node of this.nodes) {
+      if (node.fixed) {
+        node.vx = 0;
+        node.vy = 0;
+        continue;
+      }
+      node.vx -= node.x * GRAVITY * this.alpha;
+      node.vy -= node.y * GRAVITY * this.alpha;
+      node.vx *= VELOCITY_DECAY;
+      node.vy *= VELOCITY_DECAY;
+      node.x += node.vx;
+      node.y += node.vy;
+    }
+  }
+
+  // Springs pull linked notes towards LINK_DISTANCE; hubs move less than the notes around them
+  private applyLinks() {
+    for (const [sourceIndex, targetIndex] of this.edges) {
+      const source = this.nodes[sourceIndex];
+      const target = this.nodes[targetIndex];
+      let dx = target.x + target.vx - source.x - source.vx || jiggle();
+      let dy = target.y + target.vy - source.y - source.vy || jiggle();
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      const sourceCount = this.linkCounts[sourceIndex];
+      const targetCount = this.linkCounts[targetIndex];
+      const strength = 1 / Math.min(sourceCount, targetCount);
+      const factor = (distance - LINK_DISTANCE) / distance * this.alpha * strength;
+      dx *= factor;
+      dy *= factor;
+      const bias = sourceCount / (sourceCount + targetCount);
+      target.vx -= dx * bias;
+      target.vy -= dy * bias;
+      source.vx += dx * (1 - bias);
+      source.vy += dy * (1 - bias);
+    }
+  }
+
+  private applyRepulsion() {
+    if (this.nodes.length < 2) return;
+    const root = this.buildQuadtree();
+    this.nodes.forEach((node, index) => this.repel(root, node, index));
+  }
+
+  private repel(quad: Quad, node: LayoutNode, index: number) {
+    if (quad.mass === 0 || quad.body === index) return;
+    const dx = quad.cx - node.x;
+    const dy = quad.cy - node.y;
+    let distance2 = dx * dx + dy * dy;
+
+    // Far enough away (or a single note): treat the whole quad as one body
+    if (!quad.children || (quad.size * quad.size) / distance2 < THETA2) {
+      if (distance2 === 0) return;
+      distance2 = Math.max(distance2, 1);
+      const force = (REPULSION * quad.mass * this.alpha) / distance2;
+      node.vx -= dx * force;
+      node.vy -= dy * force;
+      return;
+    }
+    for (const child of quad.children) this.repel(child, node, index);
+  }
+
+  private buildQuadtree(): Quad {
+    let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+    for (const node of this.nodes) {
+      x0 = Math.min(x0, node.x);
+      y0 = Math.min(y0, node.y);
+      x1 = Math.max(x1, node.x);
+      y1 = Math.max(y1, node.y);
+    }
+    const root = createQuad(x0, y0, Math.max(x1 - x0, y1 - y0, 1));
+    this.nodes.forEach((_node, index) => this.insert(root, index, 0));
+    return root;
+  }
+
+  private insert(quad: Quad, index: number, depth: number) {
+    const node = this.nodes[index];
+    quad.cx = (quad.cx * quad.mass + node.x) / (quad.mass + 1);
+    quad.cy = (quad.cy * quad.mass + node.y) / (quad.mass + 1);
+    quad.mass++;
+
+    if (!quad.children) {
+      if (quad.mass === 1) {
+        quad.body = index;
+        return;
+      }
+      // Notes stacked on the same spot stay together in one leaf
+      if (depth >= MAX_QUAD_DEPTH) {
+        quad.body = -1;
+        return;
+      }
+      const half = quad.size / 2;
+      quad.children = [
+        createQuad(quad.x0, quad.y0, half),
+        createQuad(quad.x0 + half, quad.y0, half),
+        createQuad(quad.x0, quad.y0 + half, half),
+        createQuad(quad.x0 + half, quad.y0 + half, half)
+      ];
+      if (quad.body !== -1) {
+        const existing = quad.body;
+        quad.body = -1;
+        this.insertChild(quad, existing, depth);
+      }
+    }
+    this.insertChild(quad, index, depth);
+  }
+
+  private insertChild(quad: Quad, index: number, depth: number) {
+    const node = this.nodes[index];
+    const half = quad.size / 2;
+    const column = node.x >= quad.x0 + half ? 1 : 0;
+    const row = node.y >= quad.y0 + half ? 2 : 0;
+    this.insert(quad.children![column + row], index, depth + 1);
+  }
+}
+
+// Starting position of the index-th node on a phyllotaxis spiral, which spreads nodes evenly without overlaps
+export function initialPosition(index: number): { x: number; y: number } {
+  const radius = 10 * Math.sqrt(0.5 + index);
+  const angle = index * Math.PI * (3 - Math.sqrt(5));
+  return { x: radius * Math.cos(angle), y: radius * Math.sin(angle) };
+}
+
+function createQuad(x0: number, y0: number, size: number): Quad {
+  return { x0, y0, size, mass: 0, cx: 0, cy: 0, body: -1, children: null };
+}
+
+// Tiny random offset that separates notes sitting exactly on top of each other
+function jiggle(): number {
+  return (Math.random() - 0.5) * 1e-6;
+}
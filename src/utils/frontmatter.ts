@@ -0,0 +1,105 @@
+// Frontmatter / note metadata helpers shared by the renderer stores and the main process
+
+const FRONTMATTER_REGEX = /^---\n([\s\S]*?)\n---/;
+
+/**
+ * Parse the simple YAML frontmatter used by notes (`key: value`, `key: [a, b]`, `- item` lists)
+ */
+export function parseFrontmatter(content: string): Record<string, string | string[]> {
+  const data: Record<string, string | string[]> = {};
+  const match = content.match(FRONTMATTER_REGEX);
+  if (!match) return data;
+
+  let listKey: string | null = null;
+  for (const line of match[1].split('\n')) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+
+    const pair = line.match(/^([^:\s][^:]*):\s*(.*)$/);
+    if (!pair) continue;
+
+    const key = pair[1].trim();
+    const value = pair[2].trim();
+    if (!value) {
+      // Block list follows on the next lines
+      data[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      data[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+      listKey = null;
+    } else {
+      data[key] = unquote(value);
+      listKey = null;
+    }
+  }
+
+  return data;
+}
+
+// Alternative names of a note: `aliases: [a, b]`, an `aliases:` list or `alias: a`
+export function getAliases(content: string): string[] {
+  const data = parseFrontmatter(content);
+  const value = data.aliases ?? data.alias;
+  if (!value) return [];
+  return (Array.isArray(value) ? value : value.split(',')).map(alias => alias.trim()).filter(Boolean);
+}
+
+// Note body without its frontmatter block
+export function stripFrontmatter(content: string): string {
+  return content.replace(FRONTMATTER_REGEX, '').replace(/^\n+/, '');
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^["']|["']$/g, '').trim();
+}
+
+// Parse tags from markdown content
+// Supports both frontmatter tags and inline #tag syntax
+export function parseTags(content: string): string[] {
+  const tags = new Set<string>();
+
+  // Parse frontmatter tags
+  const frontmatterMatch = content.match(FRONTMATTER_REGEX);
+  if (frontmatterMatch) {
+    const frontmatter = frontmatterMatch[1];
+    // Match tags: - tag or tags: [tag1, tag2] or tags: tag1, tag2
+    const tagsMatch = frontmatter.match(/tags:\s*\[([^\]]+)\]|tags:\s*(.+)|-\s*(.+)/g);
+    if (tagsMatch) {
+      tagsMatch.forEach(match => {
+        const values = match
+          .replace(/tags:\s*\[|\]|\n|tags:\s*|-\s*/g, '')
+          .split(/[,\s]+/)
+          .filter(t => t.trim())
+          .map(t => t.replace(/^["']|["']$/g, '').trim());
+        values.forEach(v => v && tags.add(v));
+      });
+    }
+  }
+
+  // Parse inline tags (#tag but not in code blocks)
+  const lines = content.split('\n');
+  let inCodeBlock = false;
+  for (const line of lines) {
+    // Check for code block boundaries
+    if (line.trim().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock) continue;
+
+    // Find tags at the end of line or standalone
+    const tagMatches = line.matchAll(/(?<=\s|^)#([a-zA-Z\u4e00-\u9fa5][a-zA-Z0-9\u4e00-\u9fa5_-]*)/g);
+    for (const match of tagMatches) {
+      const tag = match[1];
+      // Skip common markdown elements
+      if (!/^h[1-6]$/i.test(tag) && !match.index) {
+        tags.add(tag);
+      }
+    }
+  }
+
+  return Array.from(tags);
+}
@@ -0,0 +1,52 @@
+// Fuzzy matching for pickers: every query character has to appear in the text, in order
+
+// Characters after which a new word starts
+const WORD_SEPARATOR_REGEX = /[\s_\-./\\]/;
+
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) return true;
+  const previous = text.charAt(index - 1);
+  const current = text.charAt(index);
+  // camelCase humps count as word starts too
+  return WORD_SEPARATOR_REGEX.test(previous)
+    || (current !== current.toLowerCase() && previous === previous.toLowerCase());
+}
+
+/**
+ * Score how well a text matches a query (case-insensitive)
+ * Prefixes rank above word-start substrings, which rank above other substrings,
+ * which rank above scattered matches; shorter texts win ties.
+ * @returns The score (higher is better), or null when the text does not match
+ */
+export function fuzzyScore(text: string, query: string): number | null {
+  if (!query) return 0;
+
+  const lowerText = text.toLowerCase();
+  const lowerQuery = query.toLowerCase();
+  const lengthPenalty = text.length / 100;
+
+  const substringIndex = lowerText.indexOf(lowerQuery);
+  if (substringIndex === 0) return 1000 - lengthPenalty;
+  if (substringIndex > 0) {
+    return (isWordStart(text, substringIndex) ? 900 : 800) - substringIndex / 10 - lengthPenalty;
+  }
+
+  let score = 0;
+  let textIndex = 0;
+  let previousIndex = -2;
+  for (const char of lowerQuery) {
+    const index = lowerText.indexOf(char, textIndex);
+    if (index === -1) return null;
+
+    if (index === previousIndex + 1) {
+      score += 5;
+    } else if (isWordStart(text, index)) {
+      score += 3;
+    } else {
+      score -= Math.min(index - textIndex, 3);
+    }
+    previousIndex = index;
+    textIndex = index + char.length;
+  }
+  return score - lengthPenalty;
+}
@@ -0,0 +1,39 @@
+// What the shared marked instance renders beyond GFM (math, callouts, footnotes),
+// set up the same way for Preview and every export
+
+import { CALLOUT_STYLES, registerMarkedCallouts } from './callout';
+import { FOOTNOTE_STYLES, registerMarkedFootnotes } from './footnote';
+import { MATH_STYLES, registerMarkedMath } from './math';
+
+const STYLE_ELEMENT_ID = 'markdown-extension-styles';
+
+// Styles an exported document needs, and how to tell its html uses them
+const EXPORT_STYLES = [
+  { marker: /class="(?:katex|math-error)/, styles: MATH_STYLES },
+  { marker: /class="callout /, styles: CALLOUT_STYLES },
+  { marker: /class="footnote/, styles: FOOTNOTE_STYLES }
+];
+
+export function registerMarkdownExtensions() {
+  registerMarkedMath();
+  registerMarkedCallouts();
+  registerMarkedFootnotes();
+}
+
+// Styles of the app itself
+export function injectMarkdownExtensionStyles() {
+  if (document.getElementById(STYLE_ELEMENT_ID)) return;
+  const style = document.createElement('style');
+  style.id = STYLE_ELEMENT_ID;
+  style.textContent = MATH_STYLES + CALLOUT_STYLES + FOOTNOTE_STYLES;
+  document.head.appendChild(style);
+}
+
+/**
+ * Style element to put into an exported document, so it renders like Preview;
+ * empty when the html uses none of the extensions
+ */
+export function getMarkdownExportStyles(html: string): string {
+  const styles = EXPORT_STYLES.filter(({ marker }) => marker.test(html)).map(({ styles }) => styles).join('');
+  return styles ? `<style>${styles}</style>` : '';
+}
@@ -0,0 +1,250 @@
+// GFM pipe tables: parsing, aligned formatting, row / column edits, and tables from pasted TSV / CSV
+
+export type ColumnAlignment = 'left' | 'center' | 'right' | null;
+
+export interface MarkdownTable {
+  rows: string[][];                // rows[0] is the header; cells are trimmed markdown
+  alignments: ColumnAlignment[];   // One per column
+}
+
+const DELIMITER_CELL_REGEX = /^:?-+:?$/;
+// Characters taking two columns in a monospace font (CJK, Hangul, full-width forms, emoji)
+const WIDE_CHAR_REGEX = /[ᄀ-ᅟ⺀-꓏가-힣豈-﫿︰-﹏＀-｠￠-￦\u{1F300}-\u{1FAFF}\u{20000}-\u{3FFFD}]/u;
+const MIN_COLUMN_WIDTH = 3;
+
+// Width of a text in a monospace font, counting wide characters twice
+export function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) width += WIDE_CHAR_REGEX.test(char) ? 2 : 1;
+  return width;
+}
+
+// Cells of a table row; "\|" is part of a cell, and the outer pipes are optional
+export function splitTableRow(line: string): string[] {
+  let text = line.trim();
+  if (text.startsWith('|')) text = text.slice(1);
+  if (text.endsWith('|') && !text.endsWith('\\|')) text = text.slice(0, -1);
+
+  const cells: string[] = [];
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\' && text[i + 1] === '|') {
+      current += '\\|';
+      i++;
+    } else if (char === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Index of the cell an offset of a row line falls in (the pipe before a cell belongs to it)
+ */
+export function getCellIndex(line: string, offset: number): number {
+  const indent = line.length - line.trimStart().length;
+  let index = line.trimStart().startsWith('|') ? -1 : 0;
+  for (let i = indent; i < Math.min(offset, line.length); i++) {
+    if (line[i] === '\\' && line[i + 1] === '|') i++;
+    else if (line[i] === '|') index++;
+  }
+  return Math.max(0, index);
+}
+
+/**
+ * Offsets of a cell's content in a row line, without the padding around it
+ */
+export function getCellRange(line: string, column: number): { from: number; to: number } {
+  const pipes: number[] = [];
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '\\' && line[i + 1] === '|') i++;
+    else if (line[i] === '|') pipes.push(i);
+  }
+  if (!line.trimStart().startsWith('|')) pipes.unshift(line.length - line.trimStart().length - 1);
+
+  const start = pipes[column] ?? line.length;
+  const end = pipes[column + 1] ?? line.length;
+  const cell = line.slice(start + 1, end);
+  // An empty cell gets the cursor after the space following its pipe
+  if (!cell.trim()) return { from: Math.min(start + 2, end), to: Math.min(start + 2, end) };
+  return { from: start + 1 + cell.length - cell.trimStart().length, to: start + 1 + cell.trimEnd().length };
+}
+
+const parseAlignment = (cell: string): ColumnAlignment => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+};
+
+// The table written on the lines of text, or null when its second line is not a delimiter row
+export function parseTable(text: string): MarkdownTable | null {
+  const lines = text.split('\n').filter(line => line.trim());
+  if (lines.length < 2) return null;
+  const delimiter = splitTableRow(lines[1]);
+  if (!delimiter.every(cell => DELIMITER_CELL_REGEX.test(cell))) return null;
+
+  const rows = [lines[0], ...lines.slice(2)].map(splitTableRow);
+  return { rows, alignments: delimiter.map(parseAlignment) };
+}
+
+// The table as lines with aligned pipes; short rows are filled up with empty cells
+export function formatTable(table: MarkdownTable): string {
+  const columnCount = Math.max(table.alignments.length, ...table.rows.map(row => row.length));
+  const widths = Array.from({ length: columnCount }, (_, column) =>
+    Math.max(MIN_COLUMN_WIDTH, ...table.rows.map(row => displayWidth(row[column] ?? ''))));
+
+  const pad = (text: string, column: number) => {
+    const space = widths[column] - displayWidth(text);
+    const alignment = table.alignments[column];
+    if (alignment === 'right') return ' '.repeat(space) + text;
+    if (alignment === 'center') return ' '.repeat(Math.floor(space / 2)) + text + ' '.repeat(Math.ceil(space / 2));
+    return text + ' '.repeat(space);
+  };
+  const formatRow = (row: string[]) =>
+    `| ${widths.map((_, column) => pad(row[column] ?? '', column)).join(' | ')} |`;
+
+  const delimiter = widths.map((width, column) => {
+    const alignment = table.alignments[column];
+    const dashes = '-'.repeat(width - (alignment === 'center' ? 2 : alignment ? 1 : 0));
+    if (alignment === 'center') return `:${dashes}:`;
+    if (alignment === 'right') return `${dashes}:`;
+    if (alignment === 'left') return `:${dashes}`;
+    return dashes;
+  });
+
+  return [formatRow(table.rows[0]), `| ${delimiter.join(' | ')} |`, ...table.rows.slice(1).map(formatRow)].join('\n');
+}
+
+const columnCountOf = (table: MarkdownTable) => Math.max(table.alignments.length, ...table.rows.map(row => row.length));
+
+// Body row inserted at index (1 = first row below the header)
+export function insertRow(table: MarkdownTable, index: number): MarkdownTable {
+  const rows = [...table.rows];
+  rows.splice(Math.max(1, index), 0, Array(columnCountOf(table)).fill(''));
+  return { ...table, rows };
+}
+
+// The header row stays
+export function removeRow(table: MarkdownTable, index: number): MarkdownTable {
+  if (index < 1) return table;
+  return { ...table, rows: table.rows.filter((_, rowIndex) => rowIndex !== index) };
+}
+
+// Swap a body row with its neighbour (direction -1: up, 1: down)
+export function moveRow(table: MarkdownTable, index: number, direction: number): MarkdownTable {
+  const target = index + direction;
+  if (index < 1 || target < 1 || target >= table.rows.length) return table;
+  const rows = [...table.rows];
+  [rows[index], rows[target]] = [rows[target], rows[index]];
+  return { ...table, rows };
+}
+
+export function insertColumn(table: MarkdownTable, index: number): MarkdownTable {
+  const count = columnCountOf(table);
+  const fill = <T>(cells: T[], value: T) => [...cells, ...Array(Math.max(0, count - cells.length)).fill(value)];
+  const insert = <T>(cells: T[], value: T) => {
+    const filled = fill(cells, value);
+    filled.splice(index, 0, value);
+    return filled;
+  };
+  return { rows: table.rows.map(row => insert(row, '')), alignments: insert(table.alignments, null) };
+}
+
+// The last column stays
+export function removeColumn(table: MarkdownTable, index: number): MarkdownTable {
+  if (columnCountOf(table) <= 1) return table;
+  const remove = <T>(cells: T[]) => cells.filter((_, column) => column !== index);
+  return { rows: table.rows.map(remove), alignments: remove(table.alignments) };
+}
+
+// Swap a column with its neighbour (direction -1: left, 1: right)
+export function moveColumn(table: MarkdownTable, index: number, direction: number): MarkdownTable {
+  const target = index + direction;
+  if (target < 0 || target >= columnCountOf(table)) return table;
+  const swap = <T>(cells: T[], empty: T) => {
+    const result = [...cells];
+    while (result.length <= Math.max(index, target)) result.push(empty);
+    [result[index], result[target]] = [result[target], result[index]];
+    return result;
+  };
+  return { rows: table.rows.map(row => swap(row, '')), alignments: swap(table.alignments, null) };
+}
+
+export function setColumnAlignment(table: MarkdownTable, index: number, alignment: ColumnAlignment): MarkdownTable {
+  const alignments = [...table.alignments];
+  while (alignments.length <= index) alignments.push(null);
+  alignments[index] = alignment;
+  return { ...table, alignments };
+}
+
+// Fields of CSV / TSV text; quoted fields may contain separators, quotes ("") and line breaks
+export function parseDelimited(text: string, separator: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = text.replace(/\r\n?/g, '\n').replace(/\n$/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+  return rows;
+}
+
+// First row as the header; pipes and line breaks inside cells are kept as markdown
+export function tableFromCells(cells: string[][]): MarkdownTable {
+  const columnCount = Math.max(...cells.map(row => row.length));
+  const toMarkdown = (value: string) => value.trim().replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+  return {
+    rows: cells.map(row => Array.from({ length: columnCount }, (_, column) => toMarkdown(row[column] ?? ''))),
+    alignments: Array(columnCount).fill(null)
+  };
+}
+
+/**
+ * Cells of pasted text that looks like a table copied from a spreadsheet: at least two rows,
+ * each with the same number (two or more) of tab-separated fields
+ * @param allowCsv Also accept comma-separated values
+ */
+export function detectDelimitedTable(text: string, allowCsv: boolean = false): string[][] | null {
+  const separators = allowCsv ? ['\t', ','] : ['\t'];
+  for (const separator of separators) {
+    if (!text.includes(separator)) continue;
+    const cells = parseDelimited(text, separator);
+    const width = cells[0].length;
+    if (cells.length >= 2 && width >= 2 && cells.every(row => row.length === width)) return cells;
+  }
+  return null;
+}
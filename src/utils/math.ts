@@ -0,0 +1,81 @@
+// $inline$ and $$block$$ math typeset with KaTeX, the same way in Preview and every export
+
+import katex from 'katex';
+import { marked, type TokenizerAndRendererExtension } from 'marked';
+// The KaTeX fonts are inlined into it (see assetsInlineLimit in vite.config.mts), so math renders offline
+import katexStyles from 'katex/dist/katex.min.css?inline';
+
+const BLOCK_MATH_REGEX = /^ {0,3}\$\$([\s\S]+?)\$\$[ \t]*(?:\n+|$)/;
+const BLOCK_MATH_START_REGEX = /^ {0,3}\$\$/m;
+// $$...$$ within a line is typeset as a display formula too
+const INLINE_DISPLAY_MATH_REGEX = /^\$\$((?:\\[\s\S]|[^\\$])+?)\$\$/;
+// No space inside the dollars and no digit after the closing one, so "$5 and $10" stays text
+const INLINE_MATH_REGEX = /^\$(?!\s)((?:\\[\s\S]|[^\\$\n])+?)(?<!\s)\$(?!\d)/;
+
+const ERROR_STYLES = `
+.math-error { color: #cf222e; }
+div.math-error { margin: 1em 0; }
+.math-error code { color: inherit; white-space: pre-wrap; }
+.math-error-message { font-size: 0.85em; opacity: 0.85; }
+`;
+
+/**
+ * KaTeX stylesheet (equations are numbered with its CSS counters) and the look of TeX errors
+ */
+export const MATH_STYLES = katexStyles + ERROR_STYLES;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * TeX as HTML; bad TeX shows up in place, with the reason it could not be typeset
+ */
+export function renderMath(tex: string, displayMode: boolean): string {
+  try {
+    // \begin{equation} / align / gather are numbered, \tag{...} sets a number by hand
+    return katex.renderToString(tex, { displayMode, throwOnError: true, strict: 'ignore' });
+  } catch (error) {
+    const message = error instanceof katex.ParseError ? error.rawMessage : String(error);
+    const source = displayMode ? `$$${tex}$$` : `$${tex}$`;
+    const tag = displayMode ? 'div' : 'span';
+    return `<${tag} class="math-error" title="${escapeHtml(message)}"><code>${escapeHtml(source)}</code> <span class="math-error-message">TeX 错误：${escapeHtml(message)}</span></${tag}>`;
+  }
+}
+
+const blockMath: TokenizerAndRendererExtension = {
+  name: 'blockMath',
+  level: 'block',
+  start: src => src.match(BLOCK_MATH_START_REGEX)?.index,
+  tokenizer: src => {
+    const match = src.match(BLOCK_MATH_REGEX);
+    if (match) return { type: 'blockMath', raw: match[0], text: match[1].trim() };
+  },
+  renderer: token => `${renderMath(token.text, true)}\n`
+};
+
+const inlineMath: TokenizerAndRendererExtension = {
+  name: 'inlineMath',
+  level: 'inline',
+  start: src => {
+    const index = src.indexOf('$');
+    return index === -1 ? undefined : index;
+  },
+  tokenizer: src => {
+    const display = src.match(INLINE_DISPLAY_MATH_REGEX);
+    if (display) return { type: 'inlineMath', raw: display[0], text: display[1].trim(), displayMode: true };
+    const match = src.match(INLINE_MATH_REGEX);
+    if (match) return { type: 'inlineMath', raw: match[0], text: match[1], displayMode: false };
+  },
+  renderer: token => renderMath(token.text, token.displayMode)
+};
+
+let isRegistered = false;
+
+/**
+ * Teach the shared marked instance math; marked.use adds up, so this registers only once
+ */
+export function registerMarkedMath() {
+  if (isRegistered) return;
+  isRegistered = true;
+  marked.use({ extensions: [blockMath, inlineMath] });
+}
@@ -0,0 +1,75 @@
+// Heading outline of a note, and edits that move / re-level whole sections
+
+import { extractHeadings } from './wikilink';
+import { stripFrontmatter } from './frontmatter';
+
+export interface OutlineItem {
+  level: number;
+  text: string;
+  line: number;       // 0-based line index of the heading
+  endLine: number;    // Exclusive end of its section (up to the next heading of the same or a higher level)
+}
+
+const HEADING_MARK_REGEX = /^#{1,6}(?=\s)/;
+
+// Headings of the note body; "# comments" in the frontmatter are not headings
+export function extractOutline(content: string): OutlineItem[] {
+  const body = stripFrontmatter(content);
+  const bodyStart = content.slice(0, content.length - body.length).split('\n').length - 1;
+  const lineCount = content.split('\n').length;
+  const headings = extractHeadings(content).filter(h => h.line >= bodyStart);
+
+  return headings.map((heading, index) => {
+    const next = headings.slice(index + 1).find(h => h.level <= heading.level);
+    return { ...heading, endLine: next ? next.line : lineCount };
+  });
+}
+
+// Index of the heading whose section contains the line (the innermost one), or -1 before the first heading
+export function findOutlineIndex(outline: OutlineItem[], line: number): number {
+  let found = -1;
+  outline.forEach((item, index) => {
+    if (item.line <= line) found = index;
+  });
+  return found;
+}
+
+/**
+ * Move the section of outline[from] (with its subsections) before or after the section of outline[to]
+ * @returns The new content, or null when the section would be dropped into itself
+ */
+export function moveSection(content: string, outline: OutlineItem[], from: number, to: number, position: 'before' | 'after'): string | null {
+  const source = outline[from];
+  const target = outline[to];
+  const insertAt = position === 'before' ? target.line : target.endLine;
+  if (insertAt >= source.line && insertAt <= source.endLine) return null;
+
+  const lines = content.split('\n');
+  const section = lines.slice(source.line, source.endLine);
+  const rest = [...lines.slice(0, source.line), ...lines.slice(source.endLine)];
+  const restInsertAt = insertAt > source.line ? insertAt - section.length : insertAt;
+
+  // Keep a blank line on both sides of the moved section (the last section of a note usually lacks one)
+  if (section[section.length - 1].trim() !== '') section.push('');
+  if (restInsertAt > 0 && rest[restInsertAt - 1].trim() !== '') section.unshift('');
+
+  const result = [...rest.slice(0, restInsertAt), ...section, ...rest.slice(restInsertAt)];
+  if (lines[lines.length - 1] !== '' && result[result.length - 1] === '') result.pop();
+  return result.join('\n');
+}
+
+/**
+ * Promote (delta -1) or demote (delta 1) a heading together with the headings of its section
+ * @returns The new content, or null when a level would leave 1 - 6
+ */
+export function shiftSectionLevel(content: string, outline: OutlineItem[], index: number, delta: number): string | null {
+  const item = outline[index];
+  const affected = outline.filter(h => h.line >= item.line && h.line < item.endLine);
+  if (affected.some(h => h.level + delta < 1 || h.level + delta > 6)) return null;
+
+  const lines = content.split('\n');
+  affected.forEach((heading) => {
+    lines[heading.line] = lines[heading.line].replace(HEADING_MARK_REGEX, '#'.repeat(heading.level + delta));
+  });
+  return lines.join('\n');
+}
@@ -0,0 +1,46 @@
+// Path helpers for the renderer (paths come from the main process and may use either separator)
+
+// Whether target is base itself or lives somewhere beneath it
+export function isWithinPath(target: string, base: string): boolean {
+  if (target === base) return true;
+  if (!target.startsWith(base)) return false;
+  const next = target.charAt(base.length);
+  return next === '/' || next === '\\';
+}
+
+// Swap the leading oldBase of target with newBase (used when a file or folder is renamed / moved)
+export function replacePathPrefix(target: string, oldBase: string, newBase: string): string {
+  if (!isWithinPath(target, oldBase)) return target;
+  return newBase + target.slice(oldBase.length);
+}
+
+// Everything before the last separator
+export function getParentPath(target: string): string {
+  const separatorIndex = Math.max(target.lastIndexOf('/'), target.lastIndexOf('\\'));
+  return separatorIndex === -1 ? '' : target.slice(0, separatorIndex);
+}
+
+// Last path segment
+export function getBaseName(target: string): string {
+  return target.split(/[\\/]/).pop() || '';
+}
+
+// Append a name using the separator the parent path already uses
+export function joinPath(parent: string, name: string): string {
+  const separator = parent.includes('\\') && !parent.includes('/') ? '\\' : '/';
+  return `${parent}${separator}${name}`;
+}
+
+// Resolve a relative path ("../a/b.md", "./c.md") against a folder, keeping the folder's separator
+export function resolveRelativePath(base: string, relative: string): string {
+  const separator = base.includes('\\') && !base.includes('/') ? '\\' : '/';
+  const segments = base.split(/[\\/]/);
+  for (const segment of relative.split(/[\\/]/)) {
+    if (segment === '..') {
+      if (segments.length > 1) segments.pop();
+    } else if (segment && segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  return segments.join(separator);
+}
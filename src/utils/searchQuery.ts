@@ -0,0 +1,246 @@
+// Structured search query language
+//
+//   tag:work path:项目/ updated:>2026-01-01 "exact phrase" -draft /regex/i (a OR b)
+//
+// Terms next to each other are AND-ed, `OR` (or `|`) combines alternatives,
+// a leading `-` negates the following term or group.
+
+export type SearchField = 'tag' | 'path' | 'name' | 'notebook';
+export type SearchDateField = 'created' | 'updated';
+export type SearchCompareOp = '>' | '>=' | '<' | '<=' | '=';
+
+export type SearchQueryNode =
+  | { type: 'and'; children: SearchQueryNode[] }
+  | { type: 'or'; children: SearchQueryNode[] }
+  | { type: 'not'; child: SearchQueryNode }
+  | { type: 'term'; value: string }
+  | { type: 'phrase'; value: string }
+  | { type: 'regex'; pattern: string; flags: string }
+  | { type: 'field'; field: SearchField; value: string }
+  | { type: 'date'; field: SearchDateField; op: SearchCompareOp; value: string }; // value: YYYY[-MM[-DD]]
+
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+// Field names (and their Chinese spellings, matching the frontmatter keys) to fields;
+// a Map, so words like constructor: stay search terms
+const FIELD_ALIASES = new Map<string, SearchField | SearchDateField>([
+  ['tag', 'tag'],
+  ['tags', 'tag'],
+  ['标签', 'tag'],
+  ['path', 'path'],
+  ['路径', 'path'],
+  ['name', 'name'],
+  ['file', 'name'],
+  ['title', 'name'],
+  ['文件名', 'name'],
+  ['notebook', 'notebook'],
+  ['笔记本', 'notebook'],
+  ['updated', 'updated'],
+  ['modified', 'updated'],
+  ['更新时间', 'updated'],
+  ['created', 'created'],
+  ['创建时间', 'created']
+]);
+
+type Token =
+  | { type: 'lparen' }
+  | { type: 'rparen' }
+  | { type: 'or' }
+  | { type: 'not' }
+  | { type: 'node'; node: SearchQueryNode };
+
+export function parseSearchQuery(input: string): SearchQueryNode | null {
+  const tokens = tokenizeQuery(input);
+  let position = 0;
+
+  const parseOr = (): SearchQueryNode | null => {
+    const children: SearchQueryNode[] = [];
+    const first = parseAnd();
+    if (first) children.push(first);
+    while (tokens[position]?.type === 'or') {
+      position++;
+      const next = parseAnd();
+      if (next) children.push(next);
+    }
+    if (children.length === 0) return null;
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): SearchQueryNode | null => {
+    const children: SearchQueryNode[] = [];
+    while (position < tokens.length && tokens[position].type !== 'or' && tokens[position].type !== 'rparen') {
+      const node = parseUnary();
+      if (node) children.push(node);
+    }
+    if (children.length === 0) return null;
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): SearchQueryNode | null => {
+    const token = tokens[position++];
+    switch (token.type) {
+      case 'not': {
+        if (position >= tokens.length) return null; // A lone "-" while typing
+        const child = parseUnary();
+        return child ? { type: 'not', child } : null;
+      }
+      case 'lparen': {
+        const inner = parseOr();
+        if (tokens[position]?.type !== 'rparen') {
+          throw new SearchQueryError('括号没有闭合');
+        }
+        position++;
+        return inner;
+      }
+      case 'node':
+        return token.node;
+      default:
+        return null;
+    }
+  };
+
+  const root = parseOr();
+  if (position < tokens.length) {
+    throw new SearchQueryError('多余的右括号 ")"');
+  }
+  return root;
+}
+
+function tokenizeQuery(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (): string => {
+    // input[i] is the opening quote
+    const end = input.indexOf('"', i + 1);
+    const value = end === -1 ? input.slice(i + 1) : input.slice(i + 1, end);
+    i = end === -1 ? input.length : end + 1;
+    return value;
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(') {
+      tokens.push({ type: 'lparen' });
+      i++;
+    } else if (char === ')') {
+      tokens.push({ type: 'rparen' });
+      i++;
+    } else if (char === '|') {
+      tokens.push({ type: 'or' });
+      i++;
+    } else if (char === '-' && (i + 1 === input.length || /[\s)]/.test(input[i + 1]))) {
+      // A lone "-" negates nothing; as a term it would match every note
+      i++;
+    } else if (char === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ type: 'not' });
+      i++;
+    } else if (char === '"') {
+      const value = readQuoted();
+      if (value.trim()) tokens.push({ type: 'node', node: { type: 'phrase', value } });
+    } else if (char === '/') {
+      tokens.push({ type: 'node', node: readRegex() });
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s()]/.test(input[i])) {
+        // A quoted field value may contain spaces: path:"my notes/"
+        if (input[i] === ':' && input[i + 1] === '"') break;
+        i++;
+      }
+      const word = input.slice(start, i);
+
+      if (word === 'OR') {
+        tokens.push({ type: 'or' });
+        continue;
+      }
+
+      const colon = word.indexOf(':');
+      const field = colon > 0 ? FIELD_ALIASES.get(word.slice(0, colon).toLowerCase()) : undefined;
+      if (!field) {
+        tokens.push({ type: 'node', node: { type: 'term', value: word } });
+        continue;
+      }
+
+      let value = word.slice(colon + 1);
+      if (input[i] === ':' && input[i + 1] === '"') {
+        i++;
+        value = readQuoted();
+      }
+      // "tag:" with nothing after it yet: ignore until the user types a value
+      if (!value) continue;
+
+      tokens.push({ type: 'node', node: buildFieldNode(field, value) });
+    }
+  }
+
+  return tokens;
+
+  function readRegex(): SearchQueryNode {
+    // input[i] is the opening slash
+    let j = i + 1;
+    while (j < input.length && input[j] !== '/') {
+      if (input[j] === '\\') j++;
+      j++;
+    }
+    if (j >= input.length) {
+      throw new SearchQueryError('正则表达式缺少结尾的 "/"');
+    }
+
+    const pattern = input.slice(i + 1, j);
+    let k = j + 1;
+    while (k < input.length && /[a-z]/.test(input[k])) k++;
+    const flags = input.slice(j + 1, k);
+    i = k;
+
+    try {
+      new RegExp(pattern, flags);
+    } catch (error) {
+      throw new SearchQueryError(`无效的正则表达式: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return { type: 'regex', pattern, flags };
+  }
+}
+
+function buildFieldNode(field: SearchField | SearchDateField, rawValue: string): SearchQueryNode {
+  if (field !== 'created' && field !== 'updated') {
+    return { type: 'field', field, value: rawValue };
+  }
+
+  const match = rawValue.match(/^(>=|<=|>|<|=)?(.*)$/)!;
+  const op = (match[1] || '=') as SearchCompareOp;
+  return { type: 'date', field, op, value: normalizeQueryDate(match[2]) };
+}
+
+// 2026/1/5 -> 2026-01-05, 2026-3 -> 2026-03; precision is kept so "2026-03" means the whole month
+function normalizeQueryDate(value: string): string {
+  const match = value.match(/^(\d{4})(?:[-/.](\d{1,2})(?:[-/.](\d{1,2}))?)?$/);
+  if (!match) {
+    throw new SearchQueryError(`无效的日期: ${value || '(空)'}，请使用 YYYY-MM-DD`);
+  }
+  return [match[1], match[2], match[3]]
+    .filter(Boolean)
+    .map((part, index) => (index === 0 ? part : part.padStart(2, '0')))
+    .join('-');
+}
+
+/**
+ * Compare a "YYYY-MM-DD HH:mm:ss" style date against a query date at the query's precision
+ */
+export function compareQueryDate(docDate: string, op: SearchCompareOp, queryDate: string): boolean {
+  const value = docDate.slice(0, queryDate.length);
+  switch (op) {
+    case '>': return value > queryDate;
+    case '>=': return value >= queryDate;
+    case '<': return value < queryDate;
+    case '<=': return value <= queryDate;
+    default: return value === queryDate;
+  }
+}
@@ -0,0 +1,45 @@
+// Variables of snippet templates: {{date}}, {{time}}, {{datetime}}, {{title}}
+// (tab stops like ${1:name} are handled by the editor when the snippet is inserted)
+
+export interface SnippetContext {
+  title: string;   // Name of the current note, without .md
+  now: Date;
+}
+
+const VARIABLE_REGEX = /\{\{\s*(\w+)\s*\}\}/g;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function formatTime(date: Date): string {
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// Names shown in the snippet manager, with what they stand for
+export const SNIPPET_VARIABLES: Array<{ name: string; description: string }> = [
+  { name: 'date', description: '当前日期 (2024-01-31)' },
+  { name: 'time', description: '当前时间 (09:30)' },
+  { name: 'datetime', description: '日期和时间' },
+  { name: 'title', description: '当前笔记标题' }
+];
+
+/**
+ * Fill in the {{variables}} of a template; unknown names are left as they are
+ * Values are escaped so braces in them are not read as tab stops
+ */
+export function expandSnippetVariables(template: string, context: SnippetContext): string {
+  // A Map, so names like {{constructor}} are not looked up on Object.prototype
+  const values = new Map([
+    ['date', formatDate(context.now)],
+    ['time', formatTime(context.now)],
+    ['datetime', `${formatDate(context.now)} ${formatTime(context.now)}`],
+    ['title', context.title]
+  ]);
+  return template.replace(VARIABLE_REGEX, (match, name: string) => {
+    const value = values.get(name.toLowerCase());
+    return value === undefined ? match : value.replace(/[{}]/g, '\\$&');
+  });
+}
@@ -0,0 +1,36 @@
+// Task list items ("- [ ] ...") in the source of a note, for ticking them off from the preview
+
+// A list item (in a blockquote too) starting with "[ ] " / "[x] "
+const TASK_ITEM_REGEX = /^((?:[ \t]*>)*[ \t]*(?:[-+*]|\d{1,9}[.)])[ \t]+)\[[ xX]\] /;
+const FENCE_REGEX = /^(?:[ \t]*>)*[ \t]*(```|~~~)/;
+
+/**
+ * Offsets of the "[ ]" / "[x]" markers of the task items of a note, in document
+ * (and so rendering) order; task-like lines in fenced code are left out
+ */
+export function findTaskMarkers(content: string): number[] {
+  const markers: number[] = [];
+  let fence: string | null = null;
+  let offset = 0;
+
+  for (const line of content.split('\n')) {
+    const fenceMatch = line.match(FENCE_REGEX);
+    if (fenceMatch && (!fence || fenceMatch[1] === fence)) {
+      fence = fence ? null : fenceMatch[1];
+    } else if (!fence) {
+      const match = line.match(TASK_ITEM_REGEX);
+      if (match) markers.push(offset + match[1].length);
+    }
+    offset += line.length + 1;
+  }
+  return markers;
+}
+
+/**
+ * The note with the task at a marker offset ticked or unticked,
+ * or null when the offset no longer points at a task marker
+ */
+export function setTaskChecked(content: string, offset: number, checked: boolean): string | null {
+  if (!/^\[[ xX]\]$/.test(content.slice(offset, offset + 3))) return null;
+  return content.slice(0, offset + 1) + (checked ? 'x' : ' ') + content.slice(offset + 2);
+}
@@ -0,0 +1,312 @@
+// Wikilink targets with heading / block references: [[Note]], [[Note#Heading]], [[Note#^block-id]], [[#Heading]]
+// Shared by the renderer and the main-process link index
+
+import type { WikilinkRef } from '../types';
+import { getBaseName, getParentPath, joinPath } from './path';
+
+export interface WikilinkTarget {
+  note: string;       // Note name; empty for a link into the current note
+  heading?: string;
+  blockId?: string;
+}
+
+export interface NoteHeading {
+  level: number;
+  text: string;
+  line: number;       // 0-based line index
+}
+
+export interface NoteBlock {
+  id: string;
+  text: string;       // Line text without the ^id marker
+  line: number;
+}
+
+export interface NoteSection {
+  startLine: number;
+  endLine: number;    // Exclusive
+  text: string;
+}
+
+const FENCE_REGEX = /^\s*(```|~~~)/;
+const HEADING_REGEX = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+// "Some paragraph ^block-id" marks a referencable block
+export const BLOCK_ID_REGEX = /\s\^([A-Za-z0-9-]+)\s*$/;
+
+// Split "Note#Heading" / "Note#^block" into its parts
+export function parseWikilinkTarget(raw: string): WikilinkTarget {
+  const hashIndex = raw.indexOf('#');
+  if (hashIndex === -1) return { note: raw.trim() };
+
+  const note = raw.slice(0, hashIndex).trim();
+  const subpath = raw.slice(hashIndex + 1).trim();
+  if (subpath.startsWith('^')) return { note, blockId: subpath.slice(1) };
+  return subpath ? { note, heading: subpath } : { note };
+}
+
+// Offset ranges of the fenced code blocks of a note, fences included
+function fencedCodeRanges(content: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let start = -1;
+  let offset = 0;
+  for (const line of content.split('\n')) {
+    if (FENCE_REGEX.test(line)) {
+      if (start === -1) {
+        start = offset;
+      } else {
+        ranges.push([start, offset + line.length]);
+        start = -1;
+      }
+    }
+    offset += line.length + 1;
+  }
+  // An unclosed fence runs to the end of the note
+  if (start !== -1) ranges.push([start, content.length]);
+  return ranges;
+}
+
+// Every [[...]] / ![[...]] in a note outside fenced code; the target stops at "|" so [[Note|alias]] is indexed under "Note"
+export function extractWikilinks(content: string): WikilinkRef[] {
+  const links: WikilinkRef[] = [];
+  const codeRanges = fencedCodeRanges(content);
+  const regex = /\\?\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g;
+  let match;
+
+  while ((match = regex.exec(content)) !== null) {
+    const fullMatch = match[0];
+    // Escaped links are plain text
+    if (fullMatch.startsWith('\\')) continue;
+    // Links shown in code samples are not links
+    const start = match.index;
+    if (codeRanges.some(([from, to]) => start >= from && start < to)) continue;
+
+    const { note, heading, blockId } = parseWikilinkTarget(match[1]);
+    links.push({
+      target: note,
+      heading,
+      blockId,
+      alias: match[2],
+      position: { start: match.index, end: match.index + fullMatch.length }
+    });
+  }
+
+  return links;
+}
+
+export interface NoteResolution {
+  path: string | null;
+  candidates: string[];    // Every note the target may mean
+  isAmbiguous: boolean;    // Several candidates and none of them in the linking note's folder
+}
+
+export interface NoteResolver {
+  resolve(target: string, fromPath?: string): string | null;
+  lookup(target: string, fromPath?: string): NoteResolution;
+}
+
+// A note path with "/" separators and without ".md", the way link targets are written
+const toLinkPath = (notePath: string) => notePath.replace(/\\/g, '/').replace(/\.md$/i, '');
+
+/**
+ * Resolve link targets to note paths.
+ * [[Note]] matches by file name, then by the `aliases` of notes; when several
+ * notes match, the one in the linking note's folder wins, then the one closest
+ * to the notebook root. [[folder/Note]] only matches notes whose path ends that way,
+ * and the note at exactly that path below rootPath if there is one.
+ */
+export function createNoteResolver(
+  notePaths: string[],
+  aliasesOf?: (notePath: string) => string[] | undefined,
+  rootPath?: string
+): NoteResolver {
+  const byName = new Map<string, string[]>();
+  const byAlias = new Map<string, string[]>();
+  const add = (map: Map<string, string[]>, key: string, notePath: string) => {
+    const paths = map.get(key);
+    if (!paths) map.set(key, [notePath]);
+    else if (!paths.includes(notePath)) paths.push(notePath);
+  };
+  for (const notePath of notePaths) {
+    add(byName, getBaseName(notePath).replace(/\.md$/i, '').toLowerCase(), notePath);
+    aliasesOf?.(notePath)?.forEach(alias => add(byAlias, alias.trim().toLowerCase(), notePath));
+  }
+  const depth = (notePath: string) => notePath.split(/[\\/]/).length;
+  const byPreference = (a: string, b: string) => depth(a) - depth(b) || a.localeCompare(b);
+  byName.forEach(paths => paths.sort(byPreference));
+  byAlias.forEach(paths => paths.sort(byPreference));
+  const root = rootPath ? toLinkPath(rootPath).replace(/\/$/, '').toLowerCase() : null;
+
+  const lookup = (target: string, fromPath?: string): NoteResolution => {
+    const wanted = target.trim().replace(/\\/g, '/').replace(/\.md$/i, '').toLowerCase();
+    if (!wanted) return { path: null, candidates: [], isAmbiguous: false };
+
+    let candidates: string[];
+    if (wanted.includes('/')) {
+      const suffix = `/${wanted}`;
+      candidates = (byName.get(wanted.split('/').pop()!) || []).filter(notePath =>
+        toLinkPath(notePath).toLowerCase().endsWith(suffix)
+      );
+      // "a/Note" is a/Note.md, even when x/a/Note.md exists too
+      const rooted = root && candidates.find(notePath => toLinkPath(notePath).toLowerCase() === `${root}${suffix}`);
+      if (rooted) candidates = [rooted];
+    } else {
+      // A file name always beats an alias
+      candidates = byName.get(wanted) || byAlias.get(wanted) || [];
+    }
+    if (candidates.length <= 1) return { path: candidates[0] ?? null, candidates, isAmbiguous: false };
+
+    const folder = fromPath ? getParentPath(fromPath) : null;
+    const sibling = candidates.find(notePath => getParentPath(notePath) === folder);
+    return { path: sibling ?? candidates[0], candidates, isAmbiguous: !sibling };
+  };
+
+  return {
+    resolve: (target, fromPath) => lookup(target, fromPath).path,
+    lookup
+  };
+}
+
+/**
+ * Shortest target that links to notePath and no other note: its name when that is
+ * unique, else with as many of its folders as it takes (at most its path below rootPath)
+ */
+export function getUniqueLinkTarget(resolver: NoteResolver, notePath: string, rootPath: string): string {
+  const segments = toLinkPath(notePath).slice(toLinkPath(rootPath).replace(/\/$/, '').length + 1).split('/');
+  for (let count = 1; count < segments.length; count++) {
+    const target = segments.slice(-count).join('/');
+    const { candidates } = resolver.lookup(target);
+    if (candidates.length === 1 && candidates[0] === notePath) return target;
+  }
+  return segments.join('/');
+}
+
+// Whether a wikilink / embed target names a note rather than an attachment like image.png
+export function isNoteTarget(target: string): boolean {
+  return /\.md$/i.test(target) || !/\.[a-z0-9]+$/i.test(target);
+}
+
+// Attachment targets: next to the linking note, in its files/ folder, then anywhere in the notebook
+export function resolveAttachment(target: string, fromPath: string, filePaths: string[]): string | null {
+  const suffix = `/${target.replace(/\\/g, '/').toLowerCase()}`;
+  const matches = filePaths.filter(filePath => filePath.replace(/\\/g, '/').toLowerCase().endsWith(suffix));
+
+  const dir = getParentPath(fromPath);
+  const preferred = [joinPath(dir, target), joinPath(joinPath(dir, 'files'), target)];
+  return preferred.find(filePath => matches.includes(filePath)) ?? matches[0] ?? null;
+}
+
+// Text shown for [[Note#Heading]] / [[Note#^block]] when there is no alias
+function formatWikilinkText(raw: string): string {
+  const { note, heading, blockId } = parseWikilinkTarget(raw);
+  const subpath = heading || (blockId ? `^${blockId}` : '');
+  if (!subpath) return note;
+  return note ? `${note} › ${subpath}` : subpath;
+}
+
+// Replace the [[...]] left in rendered markdown html with .wikilink spans carrying their target
+export function renderWikilinks(html: string): string {
+  return html.replace(
+    /\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g,
+    (match: string, target: string, alias: string) => {
+      // Skip escaped links
+      if (match.startsWith('\\')) return match.substring(1);
+      const displayText = alias || formatWikilinkText(target);
+      return `<span class="wikilink" data-wikilink="${target}" style="color: var(--md-primary-color, #0969da); cursor: pointer; font-weight: 500; background: var(--md-primary-bg-color, rgba(9, 105, 218, 0.1)); padding: 0 2px; border-radius: 3px;">${displayText}</span>`;
+    }
+  );
+}
+
+// Compare headings the way they read, ignoring inline markdown and case
+export function normalizeHeading(text: string): string {
+  return text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+// Lines outside fenced code blocks, as [line index, text] pairs
+function proseLines(content: string): Array<[number, string]> {
+  const result: Array<[number, string]> = [];
+  let inCode = false;
+  content.split('\n').forEach((line, index) => {
+    if (FENCE_REGEX.test(line)) {
+      inCode = !inCode;
+      return;
+    }
+    if (!inCode) result.push([index, line]);
+  });
+  return result;
+}
+
+export function extractHeadings(content: string): NoteHeading[] {
+  const headings: NoteHeading[] = [];
+  for (const [line, text] of proseLines(content)) {
+    const match = text.match(HEADING_REGEX);
+    if (match) {
+      headings.push({ level: match[1].length, text: match[2], line });
+    }
+  }
+  return headings;
+}
+
+export function extractBlocks(content: string): NoteBlock[] {
+  const blocks: NoteBlock[] = [];
+  for (const [line, text] of proseLines(content)) {
+    const match = text.match(BLOCK_ID_REGEX);
+    if (match) {
+      blocks.push({ id: match[1], text: text.slice(0, match.index).trim(), line });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Locate the part of a note a heading / block reference points to
+ * A heading section runs until the next heading of the same or a higher level;
+ * a block is the paragraph (or list item) carrying the ^id
+ */
+export function findSection(content: string, target: WikilinkTarget): NoteSection | null {
+  const lines = content.split('\n');
+
+  if (target.heading) {
+    const wanted = normalizeHeading(target.heading);
+    const headings = extractHeadings(content);
+    const index = headings.findIndex(h => normalizeHeading(h.text) === wanted);
+    if (index === -1) return null;
+
+    const heading = headings[index];
+    const next = headings.slice(index + 1).find(h => h.level <= heading.level);
+    const endLine = next ? next.line : lines.length;
+    return { startLine: heading.line, endLine, text: lines.slice(heading.line, endLine).join('\n').trim() };
+  }
+
+  if (target.blockId) {
+    const block = extractBlocks(content).find(b => b.id === target.blockId);
+    if (!block) return null;
+
+    // List items are blocks on their own; paragraphs extend up to the previous blank line
+    let startLine = block.line;
+    if (!/^\s*([-*+]|\d+\.)\s/.test(lines[block.line])) {
+      while (startLine > 0 && lines[startLine - 1].trim() !== '' && !HEADING_REGEX.test(lines[startLine - 1])) {
+        startLine--;
+      }
+    }
+    const text = lines.slice(startLine, block.line + 1).join('\n').replace(BLOCK_ID_REGEX, '').trim();
+    return { startLine, endLine: block.line + 1, text };
+  }
+
+  return null;
+}
+
+// Element of the rendered Preview a heading / block reference points to
+export function findPreviewAnchor(root: HTMLElement, target: WikilinkTarget): HTMLElement | null {
+  if (target.heading) {
+    return root.querySelector<HTMLElement>(`[data-heading="${CSS.escape(normalizeHeading(target.heading))}"]`);
+  }
+  if (target.blockId) {
+    return root.querySelector<HTMLElement>(`[data-block-id="${CSS.escape(target.blockId)}"]`);
+  }
+  return null;
+}
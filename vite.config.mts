@@ -41,6 +41,8 @@ export default defineConfig({
   },
   build: {
     target: 'esnext',
+    // Inline the KaTeX fonts so math typesets offline, in HTML and PDF exports too
+    assetsInlineLimit: (filePath) => /KaTeX_.*\.woff2$/.test(filePath) || undefined,
     minify: 'terser',
     terserOptions: {
       compress: {
@@ -55,7 +57,8 @@ export default defineConfig({
           'react-vendor': ['react', 'react-dom'],
           'ui-vendor': ['@radix-ui/react-dropdown-menu', '@radix-ui/react-tooltip', '@radix-ui/react-dialog'],
           'editor': ['marked', 'highlight.js', 'prettier'],
-          'diagram': ['mermaid']
+          'diagram': ['mermaid'],
+          'math': ['katex']
         }
       }
     }